@@ -150,19 +150,21 @@ const useConversion = (
         }));
       }
 
-      const fileId = apiService.extractFileId(figmaUrl);
-      if (!fileId) {
+      const parsedUrl = apiService.parseFileUrl(figmaUrl);
+      if (!parsedUrl) {
         throw new Error('Érvénytelen Figma URL formátum');
       }
 
       console.log('Konvertálás indítása:', { 
-        fileId, 
+        fileId: parsedUrl.fileId,
+        nodeId: parsedUrl.nodeId,
+        branchKey: parsedUrl.branchKey,
         useProxy: apiService.getUseProxy(),
         tokenLength: figmaToken?.length || 'N/A (proxy mode)'
       });
       
       try {
-        const figmaFile = await apiService.getFile(fileId);
+        const figmaFile = await apiService.getScopedFile(parsedUrl.fileId, parsedUrl.nodeId, parsedUrl.branchKey);
         console.log('Fájl sikeresen betöltve:', figmaFile.name);
         
         // Első lépés: Részletes JSON analízis generálása
@@ -175,6 +177,11 @@ const useConversion = (
         
         // Kód generálás
         const codeGenerator = new EnhancedCodeGenerator(figmaFile, config);
+        // Kép kitöltések feloldása; hiba esetén a képek src/alt propként maradnak
+        const imageFills = await apiService.getImageFills(parsedUrl.fileId).catch(() => null);
+        if (imageFills) {
+          codeGenerator.setImageFills(imageFills);
+        }
         const generatedCode = await codeGenerator.generateCode();
         
         const results: ConversionResults = {
@@ -191,7 +198,7 @@ const useConversion = (
 </body>
 </html>`,
           js: generatedCode.dependencies.length > 0 ? `// Dependencies: ${generatedCode.dependencies.join(', ')}` : '',
-          jsx: config.framework === 'react' ? generatedCode.component : '',
+          jsx: config.framework === 'react' || config.framework === 'react-native' ? generatedCode.component : '',
           css: generatedCode.styles,
           layers: generateAdvancedLayerAnalysis(),
           json: jsonContent // Új JSON fül hozzáadása
@@ -659,6 +666,7 @@ const EnhancedFormSection: React.FC<EnhancedFormSectionProps> = ({
                     <option value="vue">Vue.js</option>
                     <option value="angular">Angular</option>
                     <option value="svelte">Svelte</option>
+                    <option value="react-native">React Native (Expo)</option>
                   </select>
                 </div>
 
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { FigmaApiResponse } from '@/types/figma';
 import { useFigmaApi } from '@/hooks/useFigmaApi';
+import { createZipArchive, ZipEntry } from '@/utils/zip-archive';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -30,7 +31,7 @@ interface ExportOptions {
 
 export function AssetExportPanel({ figmaData, fileKey }: AssetExportPanelProps) {
   const { toast } = useToast();
-  const { getImages, isLoading } = useFigmaApi();
+  const { getImages, downloadImage, isLoading } = useFigmaApi();
   
   const [exportableNodes, setExportableNodes] = useState<ExportableNode[]>([]);
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
@@ -107,7 +108,7 @@ export function AssetExportPanel({ figmaData, fileKey }: AssetExportPanelProps)
     try {
       const nodeIds = selectedNodes.map(node => node.id);
       
-      // Export images in batches to avoid rate limiting
+      // Export images in batches; the API service queues them against the rate limit
       const batchSize = 5;
       const batches = [];
       for (let i = 0; i < nodeIds.length; i += batchSize) {
@@ -115,6 +116,20 @@ export function AssetExportPanel({ figmaData, fileKey }: AssetExportPanelProps)
       }
 
       const allResults: Array<{ nodeId: string; success: boolean; url?: string; error?: string }> = [];
+      const zipEntries: ZipEntry[] = [];
+      const usedNames = new Set<string>();
+
+      // Azonos nevű elemek ne írják felül egymást az archívumban
+      const getFileName = (nodeId: string) => {
+        const nodeName = selectedNodes.find(n => n.id === nodeId)?.name || nodeId;
+        const baseName = nodeName.replace(/[\\/:*?"<>|]/g, '_').trim() || nodeId;
+        let fileName = `${baseName}.${exportOptions.format}`;
+        for (let suffix = 2; usedNames.has(fileName); suffix++) {
+          fileName = `${baseName}-${suffix}.${exportOptions.format}`;
+        }
+        usedNames.add(fileName);
+        return fileName;
+      };
 
       for (let i = 0; i < batches.length; i++) {
         const batch = batches[i];
@@ -128,28 +143,23 @@ export function AssetExportPanel({ figmaData, fileKey }: AssetExportPanelProps)
           // Process batch results
           for (const nodeId of batch) {
             if (imagesMap && imagesMap[nodeId]) {
-              allResults.push({
-                nodeId,
-                success: true,
-                url: imagesMap[nodeId],
-              });
-
-              // Download the image
+              // Proxy módban a képek az edge function-ön keresztül töltődnek le (CORS)
               try {
-                const response = await fetch(imagesMap[nodeId]);
-                const blob = await response.blob();
-                const url = URL.createObjectURL(blob);
-                
-                const a = document.createElement('a');
-                a.href = url;
-                const nodeName = selectedNodes.find(n => n.id === nodeId)?.name || nodeId;
-                a.download = `${nodeName}.${exportOptions.format}`;
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-                URL.revokeObjectURL(url);
+                const blob = await downloadImage(imagesMap[nodeId]);
+                zipEntries.push({ name: getFileName(nodeId), data: blob });
+                allResults.push({
+                  nodeId,
+                  success: true,
+                  url: imagesMap[nodeId],
+                });
               } catch (downloadError) {
                 console.error('Download error:', downloadError);
+                allResults.push({
+                  nodeId,
+                  success: false,
+                  url: imagesMap[nodeId],
+                  error: downloadError instanceof Error ? downloadError.message : 'Letöltési hiba',
+                });
               }
             } else {
               allResults.push({
@@ -162,11 +172,6 @@ export function AssetExportPanel({ figmaData, fileKey }: AssetExportPanelProps)
 
           setExportProgress(((i + 1) / batches.length) * 100);
           setExportResults([...allResults]);
-
-          // Small delay between batches to avoid rate limiting
-          if (i < batches.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
         } catch (batchError) {
           console.error('Batch export error:', batchError);
           
@@ -181,6 +186,18 @@ export function AssetExportPanel({ figmaData, fileKey }: AssetExportPanelProps)
         }
       }
 
+      if (zipEntries.length > 0) {
+        const zip = await createZipArchive(zipEntries);
+        const url = URL.createObjectURL(zip);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${figmaData?.name || fileKey}-assets.zip`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }
+
       const successCount = allResults.filter(r => r.success).length;
       const errorCount = allResults.length - successCount;
 
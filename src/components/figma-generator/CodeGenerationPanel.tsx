@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { FigmaApiResponse, GeneratedComponent } from '@/types/figma';
+import { FigmaApiResponse, FigmaLibrary, FigmaVersion, GeneratedComponent } from '@/types/figma';
 import { AdvancedCodeGenerator, CodeGenerationOptions } from '@/services/advanced-code-generator';
+import { DesignTokens } from '@/services/design-system-extractor';
+import { useFigmaApi } from '@/hooks/useFigmaApi';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -22,7 +24,8 @@ import {
   FileCode,
   Palette,
   Plus,
-  FileText
+  FileText,
+  History
 } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
@@ -31,15 +34,25 @@ import { copyToClipboard, downloadFile } from '@/lib/utils';
 interface CodeGenerationPanelProps {
   figmaData: FigmaApiResponse;
   fileKey: string;
+  // A Design System panel tokenjei; nélkülük a generátor maga nyeri ki őket
+  designTokens?: DesignTokens | null;
+  // A tokenek export előtagja (ExportOptions.prefix)
+  tokenPrefix?: string;
+  // A Design System panelen betöltött könyvtár; a példányai a könyvtári komponensre hivatkoznak
+  library?: FigmaLibrary | null;
 }
 
+// Az utolsó konverzió verziója fájlonként, a szelektív újragenerálás alapértelmezett kiindulópontja
+const LAST_CONVERSION_STORAGE_PREFIX = 'figma-last-conversion:';
+
 interface CustomCodeInputs {
   jsx: string;
   css: string;
   cssAdvanced: string;
 }
 
-export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelProps) {
+export function CodeGenerationPanel({ figmaData, fileKey, designTokens, tokenPrefix, library }: CodeGenerationPanelProps) {
+  const { getImageFills, getFileVersions, getScopedFile } = useFigmaApi();
   const [options, setOptions] = useState<CodeGenerationOptions>({
     framework: 'react',
     styling: 'tailwind',
@@ -61,19 +74,47 @@ export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelP
   const [activeTab, setActiveTab] = useState('jsx');
   const [copied, setCopied] = useState<string | null>(null);
   const [showCustomInputs, setShowCustomInputs] = useState(false);
+  const [versions, setVersions] = useState<FigmaVersion[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [baseVersion, setBaseVersion] = useState('');
+  const [changeSummary, setChangeSummary] = useState<string | null>(null);
+
+  const createGenerator = async () => {
+    const generator = new AdvancedCodeGenerator(figmaData, options);
+    
+    // Egyéni kód hozzáadása a generáláshoz
+    generator.setCustomCode(customCode);
+    if (designTokens) {
+      generator.setDesignTokens(designTokens, tokenPrefix);
+    }
+    if (library) {
+      generator.setLibrary(library);
+    }
+
+    // Kép kitöltések feloldása; hiba esetén a képek src/alt propként maradnak
+    const imageFills = fileKey ? await getImageFills(fileKey) : null;
+    if (imageFills) {
+      generator.setImageFills(imageFills);
+    }
+    return generator;
+  };
+
+  const rememberConversion = () => {
+    if (fileKey && figmaData.version) {
+      localStorage.setItem(`${LAST_CONVERSION_STORAGE_PREFIX}${fileKey}`, figmaData.version);
+    }
+  };
 
   const handleGenerate = async () => {
     setIsGenerating(true);
     
     try {
-      const generator = new AdvancedCodeGenerator(figmaData, options);
-      
-      // Egyéni kód hozzáadása a generáláshoz
-      generator.setCustomCode(customCode);
-      
+      const generator = await createGenerator();
       const components = generator.generateComponents();
       
       setGeneratedComponents(components);
+      setChangeSummary(null);
+      rememberConversion();
       if (components.length > 0) {
         setSelectedComponent(components[0]);
       }
@@ -84,6 +125,55 @@ export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelP
     }
   };
 
+  // A verziólista; alapból az utolsó konverzió verziója a kiindulópont
+  const handleLoadVersions = async () => {
+    setIsLoadingVersions(true);
+    const result = await getFileVersions(fileKey);
+    setIsLoadingVersions(false);
+    if (!result) return;
+
+    setVersions(result);
+    const lastConversion = localStorage.getItem(`${LAST_CONVERSION_STORAGE_PREFIX}${fileKey}`);
+    setBaseVersion((result.find(version => version.id === lastConversion) ?? result[0])?.id || '');
+  };
+
+  // Csak a kiválasztott verzió óta változott komponensek készülnek újra, a többi generált kód marad
+  const handleRegenerateChanged = async () => {
+    if (!baseVersion) return;
+    setIsGenerating(true);
+
+    try {
+      // Ugyanabban a node és branch hatókörben, különben a többi oldal töröltként jelenne meg
+      const previous = await getScopedFile(figmaData.mainFileKey || fileKey, {
+        nodeId: figmaData.scopeNodeId,
+        branchKey: figmaData.branchKey,
+        version: baseVersion,
+      });
+      if (!previous) return;
+
+      const generator = await createGenerator();
+      const { diff, components } = generator.regenerateChangedComponents(previous);
+      const updated = new Map(components.map(component => [component.id, component]));
+      const removedIds = new Set(diff.removed.map(change => change.nodeId));
+
+      setGeneratedComponents(current => [
+        ...current
+          .filter(component => !component.id || !removedIds.has(component.id))
+          .map(component => updated.get(component.id) ?? component),
+        ...components.filter(component => !current.some(existing => existing.id === component.id)),
+      ]);
+      setSelectedComponent(current => (current && updated.get(current.id)) || current || components[0] || null);
+      setChangeSummary(diff.hasChanges
+        ? `${components.length} komponens újragenerálva (${diff.added.length} új, ${diff.removed.length} törölt, ${diff.moved.length} áthelyezett, ${diff.restyled.length} módosított elem)`
+        : 'Nincs változás a kiválasztott verzió óta');
+      rememberConversion();
+    } catch (error) {
+      console.error('Kódgenerálási hiba:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const handleCopy = async (content: string, type: string) => {
     try {
       await copyToClipboard(content);
@@ -308,6 +398,45 @@ const customElement = <div>Egyéni tartalom</div>;"
               )}
             </Button>
           </div>
+
+          {/* Szelektív újragenerálás: verziók → diff → csak az érintett komponensek */}
+          {fileKey && (
+            <div className="pt-4 border-t space-y-3">
+              <Label className="flex items-center space-x-2">
+                <History className="w-4 h-4" />
+                <span>Változások az utolsó konverzió óta</span>
+              </Label>
+              <div className="flex flex-col md:flex-row gap-2">
+                {versions.length === 0 ? (
+                  <Button variant="outline" onClick={handleLoadVersions} disabled={isLoadingVersions} className="md:flex-1">
+                    {isLoadingVersions ? 'Verziók betöltése...' : 'Verziók betöltése'}
+                  </Button>
+                ) : (
+                  <Select value={baseVersion} onValueChange={setBaseVersion}>
+                    <SelectTrigger className="md:flex-1">
+                      <SelectValue placeholder="Kiinduló verzió" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={version.id}>
+                          {version.label || new Date(version.created_at).toLocaleString('hu-HU')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={handleRegenerateChanged}
+                  disabled={!baseVersion || isGenerating}
+                >
+                  <Code2 className="w-4 h-4 mr-2" />
+                  Csak a változások újragenerálása
+                </Button>
+              </div>
+              {changeSummary && <p className="text-sm text-gray-600">{changeSummary}</p>}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
-import { FigmaApiResponse } from '@/types/figma';
-import { DesignSystemExtractor, DesignTokens } from '@/services/design-system-extractor';
+import React, { useRef, useState } from 'react';
+import { FigmaApiResponse, FigmaLibrary } from '@/types/figma';
+import { DesignSystemExtractor, DesignTokens, ResolvedComponentInstance } from '@/services/design-system-extractor';
 import { DesignSystemExporter, ExportOptions } from '@/services/design-system-exporter';
+import { DtcgTokenConverter } from '@/services/dtcg-token-converter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -10,17 +11,40 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Palette, Download, Copy, Eye, Settings, FileCode, Layers, Type, Space as Spacing, Zap, Package, Sparkles } from 'lucide-react';
+import { Palette, Download, Copy, Eye, Settings, FileCode, Layers, Type, Space as Spacing, Zap, Package, Sparkles, Upload } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
 import { copyToClipboard, downloadFile } from '@/lib/utils';
+import { createZipArchive } from '@/utils/zip-archive';
+import { useFigmaApi } from '@/hooks/useFigmaApi';
+import { useToast } from '@/hooks/use-toast';
+
+const PREVIEW_LANGUAGES: Record<ExportOptions['format'], string> = {
+  css: 'css',
+  scss: 'scss',
+  js: 'javascript',
+  json: 'json',
+  tailwind: 'typescript',
+  'figma-tokens': 'json',
+  dtcg: 'json',
+  'style-dictionary': 'json',
+  ios: 'swift',
+  android: 'xml',
+  compose: 'kotlin',
+};
 
 interface DesignSystemPanelProps {
   figmaData: FigmaApiResponse;
   fileKey: string;
+  // Kinyert vagy importált tokenek, hogy a kódgenerálás is ezeket használja
+  onTokensChange?: (tokens: DesignTokens | null) => void;
+  // Az export változó előtagja, hogy a generált kód var(--...) hivatkozásai egyezzenek vele
+  onPrefixChange?: (prefix: string) => void;
+  // A betöltött könyvtár, hogy a generátorok a példányait a könyvtári komponensként rendereljék
+  onLibraryChange?: (library: FigmaLibrary | null) => void;
 }
 
-export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps) {
+export function DesignSystemPanel({ figmaData, fileKey, onTokensChange, onPrefixChange, onLibraryChange }: DesignSystemPanelProps) {
   const [designTokens, setDesignTokens] = useState<DesignTokens | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
@@ -32,14 +56,50 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
   const [activeTab, setActiveTab] = useState('colors');
   const [previewCode, setPreviewCode] = useState<string>('');
   const [copied, setCopied] = useState(false);
+  const { getTeamLibrary, getFileLibrary, getLocalVariables } = useFigmaApi();
+  const { toast } = useToast();
+  const [teamId, setTeamId] = useState('');
+  const [library, setLibrary] = useState<FigmaLibrary | null>(null);
+  const [isLoadingLibrary, setIsLoadingLibrary] = useState(false);
+  const [componentInstances, setComponentInstances] = useState<ResolvedComponentInstance[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Team ID nélkül a jelenlegi fájl publikált könyvtára töltődik be
+  const handleLoadLibrary = async () => {
+    setIsLoadingLibrary(true);
+    const callbacks = {
+      onError: (error: Error) => {
+        toast({
+          title: "Könyvtár betöltése sikertelen",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    };
+    const result = teamId.trim()
+      ? await getTeamLibrary(teamId.trim(), callbacks)
+      : await getFileLibrary(fileKey, callbacks);
+    setLibrary(result);
+    onLibraryChange?.(result);
+    setIsLoadingLibrary(false);
+  };
 
   const handleExtractTokens = async () => {
     setIsExtracting(true);
     
     try {
-      const extractor = new DesignSystemExtractor(figmaData);
+      const extractor = new DesignSystemExtractor(figmaData, library || undefined);
+
+      // Variables nélkül (pl. nem Enterprise csomag) a témák kimaradnak
+      const variables = await getLocalVariables(fileKey);
+      if (variables) {
+        extractor.setVariables(variables);
+      }
+
       const tokens = extractor.extractDesignTokens();
       setDesignTokens(tokens);
+      onTokensChange?.(tokens);
+      setComponentInstances(extractor.resolveComponentInstances());
       
       // Generate preview
       const exporter = new DesignSystemExporter(tokens, exportOptions);
@@ -54,11 +114,56 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
     }
   };
 
-  const handleExport = () => {
+  // Korábban exportált DTCG tokens.json visszatöltése, pl. két verzió összevetéséhez
+  const handleImportDtcg = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const converter = new DtcgTokenConverter();
+      const tokens = converter.fromDtcg(JSON.parse(await file.text()));
+      const issues = converter.getIssues();
+      if (issues.length > 0) {
+        console.warn('DTCG import issues:', issues);
+        toast({
+          title: `${issues.length} token kihagyva vagy alapértékkel pótolva`,
+          description: issues.slice(0, 3).join('; '),
+        });
+      }
+      setDesignTokens(tokens);
+      onTokensChange?.(tokens);
+      setComponentInstances([]);
+
+      const exporter = new DesignSystemExporter(tokens, exportOptions);
+      const files = exporter.export();
+      if (files.length > 0) {
+        setPreviewCode(files[0].content);
+      }
+    } catch (error) {
+      console.error('DTCG import error:', error);
+    }
+  };
+
+  const handleExport = async () => {
     if (!designTokens) return;
     
     const exporter = new DesignSystemExporter(designTokens, exportOptions);
     const files = exporter.export();
+
+    // Mappaszerkezetes kimenet (asset catalog, res/values...) egy ZIP-ben
+    if (files.some(file => file.filename.includes('/'))) {
+      const zip = await createZipArchive(files.map(file => ({ name: file.filename, data: file.content })));
+      const url = URL.createObjectURL(zip);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `design-tokens-${exportOptions.format}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      return;
+    }
     
     files.forEach(file => {
       downloadFile(file.content, file.filename);
@@ -80,6 +185,9 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
   const updatePreview = (newOptions: Partial<ExportOptions>) => {
     const updatedOptions = { ...exportOptions, ...newOptions };
     setExportOptions(updatedOptions);
+    if (newOptions.prefix !== undefined) {
+      onPrefixChange?.(newOptions.prefix);
+    }
     
     if (designTokens) {
       const exporter = new DesignSystemExporter(designTokens, updatedOptions);
@@ -166,6 +274,80 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
     </div>
   );
 
+  // Variable módokból képzett témák színmintákkal
+  const renderThemes = () => {
+    const themes = Object.entries(designTokens?.themes || {});
+
+    if (themes.length === 0) {
+      return <p className="text-sm text-gray-500">A fájl nem tartalmaz Figma Variables módokat.</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        {themes.map(([key, theme]) => (
+          <div key={key} className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <h4 className="font-semibold text-gray-900">{theme.name}</h4>
+              <Badge variant="outline">data-theme="{key}"</Badge>
+              {theme.isDefault && <Badge variant="secondary">Alapértelmezett</Badge>}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {Object.entries(theme.colors).map(([name, color]) => (
+                <div key={name} className="flex items-center space-x-2">
+                  <div
+                    className="w-8 h-8 rounded border border-gray-200 flex-shrink-0"
+                    style={{ backgroundColor: color }}
+                  />
+                  <div className="min-w-0">
+                    <div className="text-xs font-medium text-gray-700 truncate">{name}</div>
+                    <div className="text-xs text-gray-500 font-mono">{color}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500">
+              {Object.keys(theme.spacing).length + Object.keys(theme.borderRadius).length + Object.keys(theme.typography).length + Object.keys(theme.other).length} további változó
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Példányok csoportosítása kanonikus komponens név szerint
+  const renderComponentInstances = () => {
+    const groups = new Map<string, ResolvedComponentInstance[]>();
+    componentInstances.forEach(instance => {
+      groups.set(instance.name, [...(groups.get(instance.name) || []), instance]);
+    });
+
+    if (groups.size === 0) {
+      return <p className="text-sm text-gray-500">Nincsenek komponens példányok a fájlban.</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {Array.from(groups.entries()).map(([name, instances]) => (
+          <div key={name} className="p-3 border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold text-gray-900">{name}</h4>
+              <div className="flex items-center space-x-2">
+                {instances[0].remote && <Badge variant="outline">Könyvtár</Badge>}
+                <Badge variant="secondary">{instances.length} példány</Badge>
+              </div>
+            </div>
+            {instances[0].description && (
+              <p className="text-sm text-gray-600 mt-1">{instances[0].description}</p>
+            )}
+            <div className="text-xs text-gray-500 mt-2">
+              {Array.from(new Set(instances.map(instance => instance.variantName || instance.nodeName))).join(' • ')}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -203,23 +385,47 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
                 </div>
               </div>
             </div>
-            <Button 
-              onClick={handleExtractTokens}
-              disabled={isExtracting}
-              className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
-            >
-              {isExtracting ? (
-                <div className="flex items-center space-x-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  <span>Kinyerés...</span>
-                </div>
-              ) : (
-                <div className="flex items-center space-x-2">
-                  <Zap className="w-4 h-4" />
-                  <span>Design Tokenek Kinyerése</span>
-                </div>
-              )}
-            </Button>
+            <div className="flex flex-col space-y-2">
+              <div className="flex items-center space-x-2">
+                <Input
+                  placeholder="Team ID (opcionális)"
+                  value={teamId}
+                  onChange={(e) => setTeamId(e.target.value)}
+                  className="w-44"
+                />
+                <Button variant="outline" onClick={handleLoadLibrary} disabled={isLoadingLibrary}>
+                  {isLoadingLibrary ? 'Betöltés...' : library ? `Könyvtár (${library.components.length})` : 'Könyvtár betöltése'}
+                </Button>
+              </div>
+              <Button 
+                onClick={handleExtractTokens}
+                disabled={isExtracting}
+                className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+              >
+                {isExtracting ? (
+                  <div className="flex items-center space-x-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    <span>Kinyerés...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <Zap className="w-4 h-4" />
+                    <span>Design Tokenek Kinyerése</span>
+                  </div>
+                )}
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImportDtcg}
+              />
+              <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                DTCG tokens.json importálása
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -253,6 +459,11 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
                       <SelectItem value="json">JSON</SelectItem>
                       <SelectItem value="tailwind">Tailwind Config</SelectItem>
                       <SelectItem value="figma-tokens">Figma Tokens</SelectItem>
+                      <SelectItem value="dtcg">W3C Design Tokens (DTCG)</SelectItem>
+                      <SelectItem value="style-dictionary">Style Dictionary</SelectItem>
+                      <SelectItem value="ios">iOS (SwiftUI + Asset Catalog)</SelectItem>
+                      <SelectItem value="android">Android XML</SelectItem>
+                      <SelectItem value="compose">Jetpack Compose</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -311,12 +522,14 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
             </CardHeader>
             <CardContent>
               <Tabs value={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid w-full grid-cols-6">
+                <TabsList className="grid w-full grid-cols-8">
                   <TabsTrigger value="colors">Színek</TabsTrigger>
                   <TabsTrigger value="typography">Typography</TabsTrigger>
                   <TabsTrigger value="spacing">Spacing</TabsTrigger>
                   <TabsTrigger value="shadows">Shadows</TabsTrigger>
                   <TabsTrigger value="radius">Border Radius</TabsTrigger>
+                  <TabsTrigger value="components">Komponensek</TabsTrigger>
+                  <TabsTrigger value="themes">Témák</TabsTrigger>
                   <TabsTrigger value="code">Kód</TabsTrigger>
                 </TabsList>
 
@@ -387,6 +600,14 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
                   </div>
                 </TabsContent>
 
+                <TabsContent value="components" className="mt-6">
+                  {renderComponentInstances()}
+                </TabsContent>
+
+                <TabsContent value="themes" className="mt-6">
+                  {renderThemes()}
+                </TabsContent>
+
                 <TabsContent value="code" className="mt-6">
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
@@ -402,7 +623,7 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
                     
                     <div className="max-h-96 overflow-auto rounded-lg">
                       <SyntaxHighlighter
-                        language={exportOptions.format === 'js' ? 'javascript' : exportOptions.format === 'scss' ? 'scss' : 'css'}
+                        language={PREVIEW_LANGUAGES[exportOptions.format]}
                         style={tomorrow}
                         customStyle={{
                           margin: 0,
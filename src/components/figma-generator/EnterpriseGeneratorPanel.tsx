@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
-import { FigmaApiResponse } from '@/types/figma';
+import { FigmaApiResponse, FigmaLibrary } from '@/types/figma';
 import { EnterpriseCodeGenerator, EnterpriseGenerationConfig, GenerationResult } from '@/services/enterprise-code-generator';
+import { useFigmaApi } from '@/hooks/useFigmaApi';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -40,9 +41,11 @@ import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
 interface EnterpriseGeneratorPanelProps {
   figmaData: FigmaApiResponse;
   fileKey: string;
+  // A Design System panelen betöltött könyvtár; a példányai a könyvtári komponensre hivatkoznak
+  library?: FigmaLibrary | null;
 }
 
-export function EnterpriseGeneratorPanel({ figmaData, fileKey }: EnterpriseGeneratorPanelProps) {
+export function EnterpriseGeneratorPanel({ figmaData, fileKey, library }: EnterpriseGeneratorPanelProps) {
   const [config, setConfig] = useState<EnterpriseGenerationConfig>({
     optimization: {
       enableCSSMinification: true,
@@ -79,6 +82,7 @@ export function EnterpriseGeneratorPanel({ figmaData, fileKey }: EnterpriseGener
   const [currentPhase, setCurrentPhase] = useState('');
   const [result, setResult] = useState<GenerationResult | null>(null);
   const [activeTab, setActiveTab] = useState('config');
+  const { getImageFills } = useFigmaApi();
 
   const handleGenerate = useCallback(async () => {
     setIsGenerating(true);
@@ -87,6 +91,13 @@ export function EnterpriseGeneratorPanel({ figmaData, fileKey }: EnterpriseGener
 
     try {
       const generator = new EnterpriseCodeGenerator(config);
+      generator.setLibrary(library || null);
+
+      // Kép kitöltések feloldása; hiba esetén a képek src/alt propként maradnak
+      const imageFills = fileKey ? await getImageFills(fileKey) : null;
+      if (imageFills) {
+        generator.setImageFills(imageFills);
+      }
       
       // Simulate progress updates
       const progressInterval = setInterval(() => {
@@ -137,7 +148,7 @@ export function EnterpriseGeneratorPanel({ figmaData, fileKey }: EnterpriseGener
     } finally {
       setIsGenerating(false);
     }
-  }, [config, figmaData]);
+  }, [config, figmaData, fileKey, library, getImageFills]);
 
   const updateConfig = (updates: Partial<EnterpriseGenerationConfig>) => {
     setConfig(prev => ({ ...prev, ...updates }));
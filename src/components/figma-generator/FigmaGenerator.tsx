@@ -161,14 +161,15 @@ export function FigmaGenerator() {
           }
         }
 
-        // Fájl kulcs kinyerése
-        const extractedFileKey = apiClient.extractFileId(data.figmaUrl);
-        if (!extractedFileKey) {
+        // Fájl kulcs és opcionális node-id kinyerése
+        const parsedUrl = apiClient.parseFileUrl(data.figmaUrl);
+        if (!parsedUrl) {
           throw new Error('Érvénytelen Figma URL');
         }
+        const extractedFileKey = parsedUrl.fileId;
 
-        // Figma fájl lekérése
-        const figmaFileData = await apiClient.getFile(extractedFileKey);
+        // Figma fájl lekérése (node-id esetén csak az adott részfa)
+        const figmaFileData = await apiClient.getScopedFile(extractedFileKey, parsedUrl.nodeId, parsedUrl.branchKey);
 
         if (!figmaFileData.document) {
           throw new Error('A Figma fájl nem tartalmaz document struktúrát');
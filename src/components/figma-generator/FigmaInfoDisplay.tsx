@@ -1,5 +1,7 @@
-import React, { useMemo } from 'react';
-import { FigmaApiResponse } from '@/types/figma';
+import React, { useMemo, useState } from 'react';
+import { FigmaApiResponse, FigmaBranch, FigmaLibrary } from '@/types/figma';
+import { DesignTokens } from '@/services/design-system-extractor';
+import { useFigmaApi } from '@/hooks/useFigmaApi';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -82,6 +84,18 @@ const FileInfoCard: React.FC<FigmaInfoDisplayProps> = ({ figmaData, fileKey }) =
           <label className="text-sm font-medium text-gray-600">Fájl kulcs</label>
           <p className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">{fileKey}</p>
         </div>
+        {figmaData.branchKey && (
+          <div>
+            <label className="text-sm font-medium text-gray-600">Branch</label>
+            <p className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">{figmaData.branchKey}</p>
+          </div>
+        )}
+        {figmaData.scopeNodeId && (
+          <div>
+            <label className="text-sm font-medium text-gray-600">Kiválasztott node</label>
+            <p className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">{figmaData.scopeNodeId}</p>
+          </div>
+        )}
         <div>
           <label className="text-sm font-medium text-gray-600">Utolsó módosítás</label>
           <p className="flex items-center space-x-1">
@@ -209,7 +223,35 @@ const ComponentListCard: React.FC<{ components: FigmaApiResponse['components'] }
 
 // --- FŐ KOMPONENS ---
 
-export function FigmaInfoDisplay({ figmaData, fileKey }: FigmaInfoDisplayProps) {
+export function FigmaInfoDisplay({ figmaData: mainData, fileKey: mainFileKey }: FigmaInfoDisplayProps) {
+  const { getScopedFile } = useFigmaApi();
+  const [branchData, setBranchData] = useState<FigmaApiResponse | null>(null);
+  // A Design System panelen kinyert tokenek, a kódgenerálás Tailwind osztályai ezekre mutatnak
+  const [designTokens, setDesignTokens] = useState<DesignTokens | null>(null);
+  const [tokenPrefix, setTokenPrefix] = useState('');
+  // A Design System panelen betöltött könyvtár: a példányai könyvtári komponensként generálódnak
+  const [library, setLibrary] = useState<FigmaLibrary | null>(null);
+
+  // Branch kiválasztásakor a branch fájlja lesz az összes panel forrása
+  const figmaData = branchData || mainData;
+  const fileKey = branchData?.branchKey || mainFileKey;
+
+  const handleBranchChange = async (branch: FigmaBranch | null) => {
+    setDesignTokens(null);
+    setLibrary(null);
+    if (!branch) {
+      setBranchData(null);
+      return;
+    }
+
+    const branchFile = await getScopedFile(mainFileKey, {
+      nodeId: mainData.scopeNodeId,
+      branchKey: branch.key,
+    });
+    if (branchFile) {
+      setBranchData(branchFile as FigmaApiResponse);
+    }
+  };
 
   // useMemo hook a számítások optimalizálásához.
   // Csak akkor számol újra, ha a figmaData.document megváltozik.
@@ -327,7 +369,7 @@ export function FigmaInfoDisplay({ figmaData, fileKey }: FigmaInfoDisplayProps)
         </TabsContent>
 
         <TabsContent value="design-system">
-          <DesignSystemPanel figmaData={figmaData} fileKey={fileKey} />
+          <DesignSystemPanel figmaData={figmaData} fileKey={fileKey} onTokensChange={setDesignTokens} onPrefixChange={setTokenPrefix} onLibraryChange={setLibrary} />
         </TabsContent>
 
         <TabsContent value="assets">
@@ -335,15 +377,19 @@ export function FigmaInfoDisplay({ figmaData, fileKey }: FigmaInfoDisplayProps)
         </TabsContent>
 
         <TabsContent value="generate">
-          <CodeGenerationPanel figmaData={figmaData} fileKey={fileKey} />
+          <CodeGenerationPanel figmaData={figmaData} fileKey={fileKey} designTokens={designTokens} tokenPrefix={tokenPrefix} library={library} />
         </TabsContent>
 
         <TabsContent value="enterprise">
-          <EnterpriseGeneratorPanel figmaData={figmaData} fileKey={fileKey} />
+          <EnterpriseGeneratorPanel figmaData={figmaData} fileKey={fileKey} library={library} />
         </TabsContent>
 
         <TabsContent value="settings">
-          <FigmaSettingsPanel />
+          <FigmaSettingsPanel
+            fileKey={mainFileKey}
+            selectedBranchKey={branchData?.branchKey || null}
+            onBranchChange={handleBranchChange}
+          />
         </TabsContent>
       </Tabs>
     </div>
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { FigmaBranch } from '@/types/figma';
 import { useFigmaApi } from '@/hooks/useFigmaApi';
+import { figmaFixtureStore, FixtureMode, FixtureSummary } from '@/services/figma-fixture-store';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -7,18 +9,87 @@ import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Settings, Shield, Zap, CheckCircle, AlertTriangle, Info, ExternalLink } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings, Shield, Zap, CheckCircle, AlertTriangle, Info, ExternalLink, GitBranch, Loader2, Database, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
-export function FigmaSettingsPanel() {
+interface FigmaSettingsPanelProps {
+  fileKey?: string;
+  selectedBranchKey?: string | null;
+  onBranchChange?: (branch: FigmaBranch | null) => void;
+}
+
+const MAIN_BRANCH_VALUE = '__main__';
+
+export function FigmaSettingsPanel({ fileKey, selectedBranchKey, onBranchChange }: FigmaSettingsPanelProps = {}) {
   const { toast } = useToast();
-  const { hasToken, setToken, clearToken, testConnection } = useFigmaApi();
+  const { hasToken, setToken, clearToken, testConnection, getFileBranches, getFixtureMode, setFixtureMode } = useFigmaApi();
   
   const [useProxy, setUseProxy] = useState(true);
-  const [mockMode, setMockMode] = useState(import.meta.env.DEV);
+  const [fixtureMode, setFixtureModeState] = useState<FixtureMode>(() => getFixtureMode());
+  const [fixtures, setFixtures] = useState<FixtureSummary[]>([]);
   const [personalToken, setPersonalToken] = useState('');
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [branches, setBranches] = useState<FigmaBranch[] | null>(null);
+  const [isLoadingBranches, setIsLoadingBranches] = useState(false);
+
+  const loadFixtures = async () => {
+    try {
+      setFixtures(await figmaFixtureStore.listFixtures());
+    } catch (error) {
+      setFixtures([]);
+    }
+  };
+
+  useEffect(() => {
+    loadFixtures();
+  }, [fixtureMode]);
+
+  const handleFixtureModeChange = (value: string) => {
+    const mode = value as FixtureMode;
+    setFixtureMode(mode);
+    setFixtureModeState(mode);
+  };
+
+  const handleClearFixtures = async (fixtureFileKey?: string) => {
+    try {
+      await figmaFixtureStore.clear(fixtureFileKey);
+      await loadFixtures();
+      toast({
+        title: "Fixture-ök törölve",
+        description: fixtureFileKey ? `${fixtureFileKey} rögzített válaszai törölve.` : "Minden rögzített válasz törölve.",
+      });
+    } catch (error) {
+      toast({
+        title: "Törlés sikertelen",
+        description: error instanceof Error ? error.message : "Ismeretlen hiba",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLoadBranches = async () => {
+    if (!fileKey) return;
+
+    setIsLoadingBranches(true);
+    const result = await getFileBranches(fileKey, {
+      onError: (error) => {
+        toast({
+          title: "Branch-ek betöltése sikertelen",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+    setBranches(result || []);
+    setIsLoadingBranches(false);
+  };
+
+  const handleBranchSelect = (value: string) => {
+    const branch = branches?.find(b => b.key === value) || null;
+    onBranchChange?.(branch);
+  };
 
   const handleTokenSubmit = () => {
     if (!personalToken.trim()) {
@@ -119,33 +190,114 @@ export function FigmaSettingsPanel() {
             )}
           </div>
 
-          {/* Developer Mode */}
+          {/* Recorded Fixtures */}
           <div className="space-y-3 pt-4 border-t border-gray-200">
             <div className="flex items-center justify-between">
               <div className="space-y-1">
-                <Label>Fejlesztői Mock Mód</Label>
+                <Label>Rögzített Fixture Mód</Label>
                 <p className="text-sm text-gray-600">
-                  Tesztadatok használata valós API hívások helyett
+                  Valós Figma válaszok és képek rögzítése, majd visszajátszása hálózat nélkül
                 </p>
               </div>
-              <Switch
-                checked={mockMode}
-                onCheckedChange={setMockMode}
-              />
+              <Select value={fixtureMode} onValueChange={handleFixtureModeChange}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Ki</SelectItem>
+                  <SelectItem value="record">Rögzítés</SelectItem>
+                  <SelectItem value="replay">Visszajátszás</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
-            {mockMode && (
+            {fixtureMode === 'record' && (
+              <Alert>
+                <Database className="h-4 w-4" />
+                <AlertDescription>
+                  Rögzítés aktív. A getFile, getFileNodes és getImages válaszai (a képek tartalmával együtt) az IndexedDB-be kerülnek.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {fixtureMode === 'replay' && (
               <Alert>
                 <Info className="h-4 w-4" />
                 <AlertDescription>
-                  Mock mód aktív. Az alkalmazás tesztadatokat használ valós Figma API hívások helyett.
+                  Visszajátszás aktív. Az alkalmazás csak a rögzített válaszokat használja, hálózati hívás nem történik.
                 </AlertDescription>
               </Alert>
             )}
+
+            {fixtures.length > 0 && (
+              <div className="space-y-2">
+                {fixtures.map(fixture => (
+                  <div key={fixture.fileKey} className="flex items-center justify-between p-2 bg-gray-50 border border-gray-200 rounded-lg">
+                    <div className="text-sm">
+                      <span className="font-mono">{fixture.fileKey}</span>
+                      <span className="text-gray-500 ml-2">
+                        {fixture.responses} válasz, {fixture.images} kép · {new Date(fixture.recordedAt).toLocaleString('hu-HU')}
+                      </span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleClearFixtures(fixture.fileKey)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => handleClearFixtures()}>
+                  Összes fixture törlése
+                </Button>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Branch Selection */}
+      {fileKey && onBranchChange && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <GitBranch className="w-5 h-5" />
+              <span>Branch</span>
+              {selectedBranchKey && <Badge variant="outline">{selectedBranchKey}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Válaszd ki, melyik branch-ből történjen a konvertálás. A generált kód rögzíti a branch kulcsát.
+            </p>
+
+            <div className="flex space-x-2">
+              <Select
+                value={selectedBranchKey || MAIN_BRANCH_VALUE}
+                onValueChange={handleBranchSelect}
+                disabled={!branches || isLoadingBranches}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Fő fájl" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MAIN_BRANCH_VALUE}>Fő fájl (main)</SelectItem>
+                  {branches?.map(branch => (
+                    <SelectItem key={branch.key} value={branch.key}>
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleLoadBranches} disabled={isLoadingBranches}>
+                {isLoadingBranches ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Branch-ek betöltése'}
+              </Button>
+            </div>
+
+            {branches && branches.length === 0 && (
+              <p className="text-sm text-gray-500">A fájlnak nincsenek branch-ei.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Personal Token Management (Direct Mode Only) */}
       {!useProxy && (
         <Card>
@@ -227,7 +379,7 @@ export function FigmaSettingsPanel() {
           <div className="flex items-center space-x-4">
             <Button 
               onClick={handleTestConnection}
-              disabled={isTestingConnection || (!hasToken() && !useProxy && !mockMode)}
+              disabled={isTestingConnection || (!hasToken() && !useProxy && fixtureMode !== 'replay')}
             >
               {isTestingConnection ? (
                 <div className="flex items-center space-x-2">
@@ -274,9 +426,9 @@ export function FigmaSettingsPanel() {
             </div>
 
             <div className="text-center">
-              <div className="text-sm text-gray-600">Mock</div>
-              <Badge variant={mockMode ? "outline" : "default"}>
-                {mockMode ? "Aktív" : "Inaktív"}
+              <div className="text-sm text-gray-600">Fixture</div>
+              <Badge variant={fixtureMode !== 'off' ? "outline" : "default"}>
+                {fixtureMode === 'record' ? "Rögzítés" : fixtureMode === 'replay' ? "Visszajátszás" : "Inaktív"}
               </Badge>
             </div>
           </div>
@@ -6,7 +6,6 @@ import React, {
   useMemo,
   useCallback,
   useRef,
-  ReactNode,
 } from "react"
 
 import {
@@ -37,6 +36,8 @@ import {
 } from "lucide-react"
 
 import { VirtualizedCodePreview } from "./VirtualizedCodePreview"
+import { JsonToReactConverter } from "@/services/json-to-react-converter"
+import { useFigmaApi } from "@/hooks/useFigmaApi"
 
 // --- Típusdefiníciók ---
 
@@ -302,148 +303,6 @@ class LargeFileProcessor {
   }
 }
 
-// --- React kód konverter ---
-
-class JsonToReactConverter {
-  /**
-   * Fejlett konverzió: a Figma node-okból React komponenseket generál,
-   * rekurzívan renderelve a gyerekeket.
-   */
-  private renderNodeToReact(node: FigmaNode): ReactNode {
-    const children = node.children?.map((child) => this.renderNodeToReact(child))
-
-    // Egyszerű példa: típus alapján elem választás
-    switch (node.type) {
-      case "FRAME":
-        return (
-          <div
-            key={node.id}
-            style={{
-              border: "1px solid #ccc",
-              padding: 10,
-              margin: 5,
-              backgroundColor: "#f9f9f9",
-            }}
-          >
-            <strong>{node.name}</strong>
-            {children}
-          </div>
-        )
-      case "TEXT":
-        return (
-          <p key={node.id} style={{ marginLeft: (node.depth ?? 0) * 10 }}>
-            {node.name}
-          </p>
-        )
-      case "COMPONENT":
-        return (
-          <section
-            key={node.id}
-            style={{
-              border: "2px dashed #888",
-              padding: 8,
-              margin: 5,
-            }}
-          >
-            <em>{node.name}</em>
-            {children}
-          </section>
-        )
-      default:
-        return (
-          <div key={node.id} style={{ marginLeft: (node.depth ?? 0) * 10 }}>
-            {node.name}
-            {children}
-          </div>
-        )
-    }
-  }
-
-  /**
-   * Konvertálja a JSON-t React komponens stringé és CSS-be.
-   * Itt JSX string generálás helyett valódi komponens fájlt adunk vissza.
-   */
-  convertJsonToReact(
-    jsonData: FigmaNode[]
-  ): { appTsx: string; appCss: string } {
-    // JSX komponens string generálása
-    const renderNodesToJsx = (nodes: FigmaNode[]): string => {
-      const indent = (level: number) => "  ".repeat(level)
-      const renderNode = (node: FigmaNode, level: number): string => {
-        const childrenJsx = node.children
-          ? node.children.map((child) => renderNode(child, level + 1)).join("\n")
-          : ""
-        switch (node.type) {
-          case "FRAME":
-            return `${indent(level)}<div className="frame" key="${node.id}">\n${indent(
-              level + 1
-            )}<strong>${node.name}</strong>\n${childrenJsx}\n${indent(level)}</div>`
-          case "TEXT":
-            return `${indent(level)}<p key="${node.id}">${node.name}</p>`
-          case "COMPONENT":
-            return `${indent(level)}<section className="component" key="${node.id}">\n${indent(
-              level + 1
-            )}<em>${node.name}</em>\n${childrenJsx}\n${indent(level)}</section>`
-          default:
-            return `${indent(level)}<div key="${node.id}">${node.name}\n${childrenJsx}\n${indent(
-              level
-            )}</div>`
-        }
-      }
-      return nodes.map((node) => renderNode(node, 2)).join("\n")
-    }
-
-    const appTsx = `import React from 'react';
-import './App.css';
-
-function App() {
-  return (
-    <div className="app-container">
-      <h1>Figma Design to React</h1>
-      ${renderNodesToJsx(jsonData)}
-    </div>
-  );
-}
-
-export default App;
-`
-
-    const appCss = `
-.app-container {
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen,
-    Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
-  padding: 20px;
-  background-color: #f0f0f0;
-  min-height: 100vh;
-}
-
-.frame {
-  border: 1px solid #ccc;
-  padding: 10px;
-  margin: 5px 0;
-  background-color: #fafafa;
-}
-
-.component {
-  border: 2px dashed #888;
-  padding: 8px;
-  margin: 5px 0;
-}
-
-h1 {
-  color: #333;
-}
-
-p {
-  margin-left: 20px;
-  color: #555;
-}
-`
-
-    return { appTsx, appCss }
-  }
-}
-
 // --- React komponens ---
 
 interface OptimizedFigmaInfoDisplayProps {
@@ -468,6 +327,7 @@ export function OptimizedFigmaInfoDisplay({
   const [isConverting, setIsConverting] = useState(false)
 
   const processorRef = useRef<LargeFileProcessor | null>(null)
+  const { getImageFills } = useFigmaApi()
 
   // Inicializálás
   useEffect(() => {
@@ -584,9 +444,11 @@ export function OptimizedFigmaInfoDisplay({
     }
     setIsConverting(true)
     try {
-      const converter = new JsonToReactConverter()
+      // Kép kitöltések feloldása; hiba esetén a képek src/alt propként maradnak
+      const imageFills = fileKey ? await getImageFills(fileKey) : null
+      const converter = new JsonToReactConverter(imageFills || {})
       const { appTsx, appCss } = converter.convertJsonToReact(
-        processedData.processedNodes
+        processedData.processedNodes[0]
       )
       await downloadFile(appTsx, "App.tsx")
       await downloadFile(appCss, "App.css")
@@ -596,7 +458,7 @@ export function OptimizedFigmaInfoDisplay({
     } finally {
       setIsConverting(false)
     }
-  }, [processedData])
+  }, [processedData, fileKey, getImageFills])
 
   // Feldolgozás alatt UI
   if (isProcessing && progress) {
@@ -1,10 +1,16 @@
 import { useState, useCallback, useRef } from 'react';
 import { FigmaApiService, FigmaApiError } from '../services/figmaApi';
+import type { FixtureMode } from '../services/figma-fixture-store';
 import type { 
+  FigmaBranch,
   FigmaFile, 
+  FigmaLibrary,
+  FigmaLocalVariablesMeta,
+  FigmaPublishedVariablesMeta,
   FigmaNode, 
   FigmaComponent, 
   FigmaStyle,
+  FigmaVersion,
   ConversionConfig,
   DEFAULT_CONVERSION_CONFIG 
 } from '../types/figma';
@@ -33,6 +39,8 @@ export const useFigmaApi = (options?: UseFigmaApiOptions) => {
 
   // Create service instance once and reuse
   const serviceRef = useRef<FigmaApiService>(new FigmaApiService());
+  // Image fill URLs per file, fetched once and shared by every generator
+  const imageFillsRef = useRef(new Map<string, Record<string, string>>());
 
   const setToken = useCallback((token: string) => {
     try {
@@ -55,12 +63,22 @@ export const useFigmaApi = (options?: UseFigmaApiOptions) => {
     return serviceRef.current.getToken() !== '';
   }, []);
 
+  const getFixtureMode = useCallback(() => {
+    return serviceRef.current.getFixtureMode();
+  }, []);
+
+  const setFixtureMode = useCallback((mode: FixtureMode) => {
+    serviceRef.current.setFixtureMode(mode);
+  }, []);
+
   const makeApiCall = useCallback(async <T>(
     apiCall: (service: FigmaApiService) => Promise<T>,
     onSuccess?: (data: T) => void,
     onError?: (error: FigmaApiError | Error) => void
   ) => {
-    const needsDirectToken = !serviceRef.current.isMockMode() && !serviceRef.current.getUseProxy();
+    const needsDirectToken = !serviceRef.current.isMockMode()
+      && serviceRef.current.getFixtureMode() !== 'replay'
+      && !serviceRef.current.getUseProxy();
     if (needsDirectToken && !serviceRef.current.getToken()) {
       const error = 'No Figma API token configured for direct mode';
       setState(prev => ({ ...prev, error }));
@@ -91,14 +109,137 @@ export const useFigmaApi = (options?: UseFigmaApiOptions) => {
   // Convenience methods for common API calls
   const getFile = useCallback(async (
     fileId: string,
-    options?: any,
+    options?: { version?: string },
     callbacks?: {
       onSuccess?: (data: FigmaFile) => void;
       onError?: (error: FigmaApiError | Error) => void;
     }
   ) => {
     return makeApiCall(
-      (service) => service.getFile(fileId),
+      (service) => service.getFile(fileId, options),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getFileVersions = useCallback(async (
+    fileId: string,
+    callbacks?: {
+      onSuccess?: (data: FigmaVersion[]) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getFileVersions(fileId),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getScopedFile = useCallback(async (
+    fileId: string,
+    options?: { nodeId?: string; branchKey?: string; version?: string },
+    callbacks?: {
+      onSuccess?: (data: FigmaFile) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getScopedFile(fileId, options?.nodeId, options?.branchKey, options?.version),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getFileBranches = useCallback(async (
+    fileId: string,
+    callbacks?: {
+      onSuccess?: (data: FigmaBranch[]) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getFileBranches(fileId),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getImageFills = useCallback(async (
+    fileId: string,
+    callbacks?: {
+      onSuccess?: (data: Record<string, string>) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    const cached = imageFillsRef.current.get(fileId);
+    if (cached) {
+      callbacks?.onSuccess?.(cached);
+      return cached;
+    }
+
+    return makeApiCall(
+      async (service) => {
+        const imageFills = await service.getImageFills(fileId);
+        imageFillsRef.current.set(fileId, imageFills);
+        return imageFills;
+      },
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getTeamLibrary = useCallback(async (
+    teamId: string,
+    callbacks?: {
+      onSuccess?: (data: FigmaLibrary) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getTeamLibrary(teamId),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getFileLibrary = useCallback(async (
+    fileId: string,
+    callbacks?: {
+      onSuccess?: (data: FigmaLibrary) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getFileLibrary(fileId),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getLocalVariables = useCallback(async (
+    fileId: string,
+    callbacks?: {
+      onSuccess?: (data: FigmaLocalVariablesMeta) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getLocalVariables(fileId),
+      callbacks?.onSuccess,
+      callbacks?.onError
+    );
+  }, [makeApiCall]);
+
+  const getPublishedVariables = useCallback(async (
+    fileId: string,
+    callbacks?: {
+      onSuccess?: (data: FigmaPublishedVariablesMeta) => void;
+      onError?: (error: FigmaApiError | Error) => void;
+    }
+  ) => {
+    return makeApiCall(
+      (service) => service.getPublishedVariables(fileId),
       callbacks?.onSuccess,
       callbacks?.onError
     );
@@ -149,6 +290,10 @@ export const useFigmaApi = (options?: UseFigmaApiOptions) => {
     return serviceRef.current.validateUrl(url);
   }, []);
 
+  const downloadImage = useCallback(async (imageUrl: string) => {
+    return serviceRef.current.downloadImage(imageUrl);
+  }, []);
+
   const testConnection = useCallback(async () => {
     return serviceRef.current.testConnection();
   }, []);
@@ -161,11 +306,24 @@ export const useFigmaApi = (options?: UseFigmaApiOptions) => {
     setToken,
     clearToken,
     hasToken,
+
+    // Recorded fixtures
+    getFixtureMode,
+    setFixtureMode,
     
     // Basic API methods
     getFile,
+    getScopedFile,
+    getFileVersions,
+    getFileBranches,
+    getTeamLibrary,
+    getFileLibrary,
+    getLocalVariables,
+    getPublishedVariables,
     getImages,
+    getImageFills,
     getFileNodes,
+    downloadImage,
     makeApiCall,
     
     // Utilities
@@ -1,4 +1,15 @@
-import { FigmaNode, FigmaApiResponse, GeneratedComponent, ComponentMetadata, AccessibilityReport, ResponsiveBreakpoints } from '../types/figma';
+import { FigmaNode, FigmaFile, FigmaApiResponse, FigmaLibrary, GeneratedComponent, ComponentMetadata, AccessibilityReport, ResponsiveBreakpoints } from '../types/figma';
+import { ImageFillResolver } from './image-fill-resolver';
+import { PaintCssConverter } from './paint-css-converter';
+import { FigmaFileDiff, FigmaFileDiffer } from './figma-file-differ';
+import { SvgRenderer } from './svg-renderer';
+import { AutoLayoutTranslator } from './auto-layout-translator';
+import { RichTextRenderer } from './rich-text-renderer';
+import { ComponentPropsResolver, ComponentPropDefinition, ComponentVariant } from './component-props-resolver';
+import { DesignSystemExtractor, DesignTokens } from './design-system-extractor';
+import { TailwindTokenMapper } from './tailwind-token-mapper';
+import { StyleTokenResolver } from './style-token-resolver';
+import { LIBRARY_IMPORT_PATH, LibraryInstanceResolver } from './library-instance-resolver';
 
 export interface CodeGenerationOptions {
   framework: 'react' | 'vue' | 'html';
@@ -19,10 +30,31 @@ export class AdvancedCodeGenerator {
   private figmaData: FigmaApiResponse;
   private options: CodeGenerationOptions;
   private customCode: CustomCodeInputs = { jsx: '', css: '', cssAdvanced: '' };
+  private imageResolver = new ImageFillResolver();
+  private paintConverter = new PaintCssConverter(this.imageResolver);
+  private svgRenderer = new SvgRenderer();
+  private layoutTranslator = new AutoLayoutTranslator();
+  private richText = new RichTextRenderer();
+  private propsResolver: ComponentPropsResolver;
+  // Tailwind osztályok design tokenekre illesztve; első használatkor a fájlból kinyert tokenekkel
+  private tailwindTokens: TailwindTokenMapper | null = null;
+  // Elnevezett Figma stílusok: a hivatkozó node-ok a tokenre mutatnak (CSS változó, Tailwind osztály)
+  private styleTokens: StyleTokenResolver;
+  // Az éppen generált komponens Figma property-jeiből képzett propok
+  private activeProps: ComponentPropDefinition[] = [];
+  // Generált komponens gyökér (készlet vagy komponens) node id → komponens név
+  private componentNames = new Map<string, string>();
+  // Az éppen generált komponensben példányként használt komponensek (importokhoz)
+  private usedComponents = new Set<string>();
+  // A betöltött könyvtár komponensei: a példányaik a kanonikus nevükkel, a könyvtári modulból importálva
+  private libraryInstances: LibraryInstanceResolver | null = null;
+  private usedLibraryComponents = new Set<string>();
 
   constructor(figmaData: FigmaApiResponse, options: CodeGenerationOptions) {
     this.figmaData = figmaData;
     this.options = options;
+    this.propsResolver = new ComponentPropsResolver(figmaData.document);
+    this.styleTokens = new StyleTokenResolver(figmaData.document, figmaData.styles);
   }
 
   // Egyéni kód beállítása
@@ -30,22 +62,73 @@ export class AdvancedCodeGenerator {
     this.customCode = customCode;
   }
 
+  // Image fill URL-ek beállítása (FigmaApiService.getImageFills), enélkül src/alt propok készülnek
+  setImageFills(imageFills: Record<string, string>) {
+    this.imageResolver = new ImageFillResolver(imageFills);
+    this.paintConverter = new PaintCssConverter(this.imageResolver);
+  }
+
+  // A Design System panelen exportált tokenek, hogy az osztályok a tailwind.config.ts kulcsaira mutassanak.
+  // prefix: az export változó előtagja, hogy a var(--...) hivatkozások a tokens.css neveivel egyezzenek
+  setDesignTokens(tokens: DesignTokens, prefix = '') {
+    this.tailwindTokens = new TailwindTokenMapper(tokens);
+    this.styleTokens = new StyleTokenResolver(this.figmaData.document, this.figmaData.styles, prefix);
+  }
+
+  // A Design System panelen betöltött team/fájl könyvtár (FigmaApiService.getTeamLibrary / getFileLibrary)
+  setLibrary(library: FigmaLibrary) {
+    this.libraryInstances = new LibraryInstanceResolver(this.figmaData, library);
+  }
+
   // Fő generálási metódus
-  generateComponents(): GeneratedComponent[] {
+  // affectedNodeIds megadásakor (pl. FigmaFileDiff.affectedNodeIds) csak az érintett komponensek készülnek újra
+  generateComponents(affectedNodeIds?: string[]): GeneratedComponent[] {
     const components: GeneratedComponent[] = [];
+    const affected = affectedNodeIds ? new Set(affectedNodeIds) : null;
+    let hasCandidates = false;
+
+    const shouldGenerate = (node: FigmaNode) => !affected || this.containsAnyNode(node, affected);
     
-    // Komponensek generálása
-    Object.entries(this.figmaData.components || {}).forEach(([key, component]) => {
-      const node = this.findNodeById(component.key);
-      if (node) {
-        const generatedComponent = this.generateSingleComponent(node, component.name);
-        components.push(generatedComponent);
+    // Komponensek generálása; egy komponens készlet (variánsok) egyetlen komponens lesz.
+    // A components térkép node id szerint indexel, a key a könyvtári kulcs.
+    const roots = new Map<string, { node: FigmaNode; name: string }>();
+    Object.entries(this.figmaData.components || {}).forEach(([nodeId, component]) => {
+      const node = this.findNodeById(nodeId);
+      if (!node) return;
+
+      const root = this.propsResolver.getComponentRoot(node);
+      if (!roots.has(root.id)) {
+        const name = root.type === 'COMPONENT_SET'
+          ? this.figmaData.componentSets?.[root.id]?.name || root.name
+          : component.name;
+        roots.set(root.id, { node: root, name });
+      }
+    });
+
+    this.componentNames.clear();
+    roots.forEach(({ node, name }) => this.componentNames.set(node.id, this.sanitizeComponentName(name)));
+
+    roots.forEach(({ node, name }) => {
+      hasCandidates = true;
+      if (shouldGenerate(node)) {
+        components.push(this.generateSingleComponent(node, name));
       }
     });
 
+    // Képernyők (oldalak felső szintű frame-jei): a példányok a generált komponensek használataként jelennek meg
+    if (hasCandidates) {
+      const usedNames = new Set(this.componentNames.values());
+      this.findScreens(this.figmaData.document).filter(shouldGenerate).forEach(screen => {
+        const baseName = this.sanitizeComponentName(screen.name);
+        const name = usedNames.has(baseName) ? `${baseName}Screen` : baseName;
+        usedNames.add(name);
+        components.push(this.generateSingleComponent(screen, name));
+      });
+    }
+
     // Ha nincsenek komponensek, generáljuk a fő frame-eket
-    if (components.length === 0) {
-      this.findMainFrames(this.figmaData.document).forEach(frame => {
+    if (!hasCandidates) {
+      this.findMainFrames(this.figmaData.document).filter(shouldGenerate).forEach(frame => {
         const generatedComponent = this.generateSingleComponent(frame, frame.name);
         components.push(generatedComponent);
       });
@@ -54,14 +137,29 @@ export class AdvancedCodeGenerator {
     return components;
   }
 
+  // Egy korábbi verzió (FigmaApiService.getFileVersions + getFile({ version })) óta megváltozott
+  // komponensek újragenerálása; a törölt komponensek a diff.removed listájából olvashatók ki
+  regenerateChangedComponents(previous: FigmaFile): { diff: FigmaFileDiff; components: GeneratedComponent[] } {
+    const diff = new FigmaFileDiffer().diff(previous, this.figmaData);
+    return { diff, components: diff.hasChanges ? this.generateComponents(diff.affectedNodeIds) : [] };
+  }
+
   private generateSingleComponent(node: FigmaNode, componentName: string): GeneratedComponent {
     const startTime = Date.now();
     
     const sanitizedName = this.sanitizeComponentName(componentName);
+    this.usedComponents.clear();
+    this.usedLibraryComponents.clear();
+    this.activeProps = node.type === 'COMPONENT' || node.type === 'COMPONENT_SET'
+      ? this.propsResolver.getDefinitions(node)
+      : [];
+    // Készletnél a stílusok és elemzések az alapértelmezett variánsból készülnek
+    const styleNode = this.getDefaultVariant(node);
+
     const jsx = this.generateJSX(node, sanitizedName);
-    const css = this.generateCSS(node, sanitizedName);
-    const accessibility = this.analyzeAccessibility(node);
-    const responsive = this.analyzeResponsive(node);
+    const css = this.generateCSS(styleNode, sanitizedName);
+    const accessibility = this.analyzeAccessibility(styleNode);
+    const responsive = this.analyzeResponsive(styleNode);
     const metadata = this.generateMetadata(node, Date.now() - startTime);
 
     return {
@@ -69,7 +167,7 @@ export class AdvancedCodeGenerator {
       name: sanitizedName,
       component: jsx,
       styles: css,
-      assets: [],
+      assets: this.imageResolver.collectAssets(node),
       dependencies: this.extractDependencies(node),
       jsx,
       css,
@@ -83,16 +181,23 @@ export class AdvancedCodeGenerator {
   // JSX generálás fejlett logikával + egyéni kód
   private generateJSX(node: FigmaNode, componentName: string): string {
     const props = this.extractProps(node);
-    const children = this.generateChildren(node);
-    const className = this.generateClassName(node);
-    const styles = this.generateInlineStyles(node);
+    // Komponens készlet: variánsonként egy ág, az alapértelmezett variáns a végén
+    const variants = node.type === 'COMPONENT_SET' ? this.propsResolver.getVariants(node) : [];
+    const renderNode = this.getDefaultVariant(node);
+    const children = this.generateChildren(renderNode);
+    const className = this.generateClassName(renderNode);
+    const styles = this.generateInlineStyles(renderNode);
 
     if (this.options.framework === 'react') {
+      // Előbb a JSX: ebből derül ki, mely komponenseket kell importálni
+      const variantBranches = variants.slice(0, -1).map(variant => this.generateVariantBranch(variant)).join('');
+      const element = this.generateJSXElement(renderNode, className, styles, children, 1);
       const imports = this.generateImports(node);
       const propsInterface = this.options.typescript ? this.generatePropsInterface(props, componentName) : '';
+      const params = props.map(p => p.defaultValue !== undefined ? `${p.name} = ${p.defaultValue}` : p.name).join(', ');
       const componentSignature = this.options.typescript 
-        ? `export const ${componentName}: React.FC<${componentName}Props> = ({ ${props.map(p => p.name).join(', ')} })`
-        : `export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} })`;
+        ? `export const ${componentName}: React.FC<${componentName}Props> = ({ ${params} })`
+        : `export const ${componentName} = ({ ${params} })`;
 
       // Egyéni JSX kód beépítése
       const customJSXSection = this.customCode.jsx ? `
@@ -103,9 +208,9 @@ export class AdvancedCodeGenerator {
 
       return `${imports}
 ${propsInterface}
-${componentSignature} => {${customJSXSection}
+${componentSignature} => {${customJSXSection}${variantBranches}
   return (
-    ${this.generateJSXElement(node, className, styles, children, 1)}
+    ${element}
   );
 };
 
@@ -114,25 +219,101 @@ export default ${componentName};`;
 
     // HTML generálás
     if (this.options.framework === 'html') {
-      return this.generateHTML(node, className, styles, children);
+      return this.generateHTML(renderNode, className, styles, children);
     }
 
     return `import React from "react";
 
 export const ${componentName} = () => {
   return (
-    ${this.generateJSXElement(node, className, styles, children, 1)}
+    ${this.generateJSXElement(renderNode, className, styles, children, 1)}
   );
 };
 
 export default ${componentName};`;
   }
 
+  // Nem alapértelmezett variáns: a variáns propjaira feltételes korai return
+  private generateVariantBranch(variant: ComponentVariant): string {
+    const className = this.generateClassName(variant.node);
+    const styles = this.generateInlineStyles(variant.node);
+    const children = this.generateChildren(variant.node);
+
+    return `
+  if (${this.propsResolver.getVariantCondition(variant)}) {
+    return (
+      ${this.generateJSXElement(variant.node, className, styles, children, 1)}
+    );
+  }
+`;
+  }
+
+  // Komponens készletnél az alapértelmezett variáns, egyébként maga a node
+  private getDefaultVariant(node: FigmaNode): FigmaNode {
+    if (node.type !== 'COMPONENT_SET') return node;
+    const variants = this.propsResolver.getVariants(node);
+    return variants.length > 0 ? variants[variants.length - 1].node : node;
+  }
+
   private generateJSXElement(node: FigmaNode, className: string, styles: string, children: string, depth: number): string {
+    const indent = '  '.repeat(depth);
+    const element = this.renderJSXElement(node, className, styles, children, depth);
+    let expression: string | null = null;
+
+    // INSTANCE_SWAP slot: a kapott elem, ennek hiányában az alapértelmezett példány
+    const slot = node.type === 'INSTANCE' ? this.propsResolver.getReferencedProp(node, 'mainComponent', this.activeProps) : undefined;
+    if (slot) {
+      expression = `${slot.name} ?? (\n${this.indentLines(element)}\n${indent})`;
+    }
+
+    // BOOLEAN property: a réteg csak bekapcsolt propnál jelenik meg
+    const toggle = this.propsResolver.getReferencedProp(node, 'visible', this.activeProps);
+    if (toggle) {
+      const inner = expression ? `${indent}  ${expression.replace(/\n/g, '\n  ')}` : this.indentLines(element);
+      expression = `${toggle.name} && (\n${inner}\n${indent})`;
+    }
+
+    return expression ? `${indent}{${expression}}` : element;
+  }
+
+  private renderJSXElement(node: FigmaNode, className: string, styles: string, children: string, depth: number): string {
     const indent = '  '.repeat(depth);
     const tag = this.getHtmlTag(node);
     const attributes = this.generateAttributes(node);
+
+    // Generált komponens példánya: <Button size="small" label="Vásárlás" />
+    const instance = this.generateInstanceUsage(node);
+    if (instance) {
+      return `${indent}${instance}`;
+    }
+
+    // Könyvtári komponens példánya: <Button /** leírás */ variant="primary" />
+    const libraryInstance = this.libraryInstances?.render(node, 'jsx', indent);
+    if (libraryInstance) {
+      this.usedLibraryComponents.add(libraryInstance.name);
+      return libraryInstance.markup;
+    }
+
+    // Vektorok inline SVG-ként, a festést az SVG elemei hordozzák
+    if (tag === 'svg') {
+      return this.svgRenderer.render(node, { className, jsx: true, indent });
+    }
     
+    // TEXT property: a szöveg a propból jön
+    const textProp = node.type === 'TEXT' ? this.propsResolver.getReferencedProp(node, 'characters', this.activeProps) : undefined;
+    if (textProp) {
+      return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
+${indent}  {${textProp.name}}
+${indent}</${tag}>`;
+    }
+
+    // Vegyes stílusú szöveg, linkek és listák
+    if (this.richText.isRich(node)) {
+      return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
+${this.richText.render(node, { jsx: true, indent: `${indent}  ` })}
+${indent}</${tag}>`;
+    }
+
     if (node.type === 'TEXT' && node.characters) {
       return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
 ${indent}  {${node.characters ? `"${node.characters}"` : 'children'}}
@@ -148,13 +329,39 @@ ${indent}</${tag}>`;
     return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes} />`;
   }
 
+  private generateInstanceUsage(node: FigmaNode): string | null {
+    if (node.type !== 'INSTANCE') return null;
+
+    const root = this.propsResolver.getInstanceRoot(node);
+    const name = root ? this.componentNames.get(root.id) : undefined;
+    if (!root || !name) return null;
+
+    const attributes = this.propsResolver.getInstanceAttributes(
+      node,
+      this.propsResolver.getDefinitions(root),
+      componentId => {
+        const component = this.propsResolver.getNode(componentId);
+        const swapped = component ? this.componentNames.get(this.propsResolver.getComponentRoot(component).id) : undefined;
+        if (swapped) this.usedComponents.add(swapped);
+        return swapped;
+      }
+    );
+    this.usedComponents.add(name);
+
+    return `<${name}${attributes.map(attribute => ` ${attribute}`).join('')} />`;
+  }
+
+  private indentLines(text: string): string {
+    return text.split('\n').map(line => `  ${line}`).join('\n');
+  }
+
   private generateChildren(node: FigmaNode): string {
     if (!node.children || node.children.length === 0) return '';
     
     return node.children
       .map(child => {
-        const childClassName = this.generateClassName(child);
-        const childStyles = this.generateInlineStyles(child);
+        const childClassName = this.generateClassName(child, node);
+        const childStyles = this.generateInlineStyles(child, node);
         const grandChildren = this.generateChildren(child);
         return this.generateJSXElement(child, childClassName, childStyles, grandChildren, 2);
       })
@@ -197,43 +404,23 @@ ${this.customCode.cssAdvanced}
     return `${baseCSS}${customCSSSection}${advancedCSSSection}`;
   }
 
-  private extractAllStyles(node: FigmaNode): Record<string, any> {
+  private extractAllStyles(node: FigmaNode, parent?: FigmaNode): Record<string, any> {
     const styles: Record<string, any> = {};
 
-    // Layout és pozíció
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      styles.width = `${width}px`;
-      styles.height = `${height}px`;
-    }
-
-    // Flexbox layout
-    if (node.layoutMode) {
-      styles.display = 'flex';
-      styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
-      
-      if (node.itemSpacing) {
-        styles.gap = `${node.itemSpacing}px`;
-      }
-    }
-
-    // Padding
-    if (node.paddingLeft || node.paddingRight || node.paddingTop || node.paddingBottom) {
-      styles.padding = `${node.paddingTop || 0}px ${node.paddingRight || 0}px ${node.paddingBottom || 0}px ${node.paddingLeft || 0}px`;
-    }
+    // Méret, flex/grid layout és padding a közös auto layout fordítóval
+    Object.assign(styles, this.layoutTranslator.getStyles(node, parent));
 
     // Háttérszín
     if (node.backgroundColor) {
       styles.backgroundColor = this.colorToCSS(node.backgroundColor);
     }
 
-    // Fills (háttér, gradientek)
+    // Fills: színek, gradiensek és képek egymásra rakott háttérrétegként; <img> elemnél object-fit és képszűrők
     if (node.fills && node.fills.length > 0) {
-      const fill = node.fills[0];
-      if (fill.type === 'SOLID' && fill.color) {
-        styles.backgroundColor = this.colorToCSS(fill.color, fill.opacity);
-      } else if (fill.type === 'GRADIENT_LINEAR') {
-        styles.background = this.gradientToCSS(fill);
+      const renderAsImage = this.getHtmlTag(node) === 'img';
+      Object.assign(styles, this.paintConverter.getFillStyles(node, renderAsImage));
+      if (renderAsImage) {
+        styles.objectFit = this.imageResolver.getObjectFit(node);
       }
     }
 
@@ -269,6 +456,7 @@ ${this.customCode.cssAdvanced}
     if (node.opacity !== undefined && node.opacity !== 1) {
       styles.opacity = node.opacity;
     }
+    Object.assign(styles, this.paintConverter.getBlendStyles(node));
 
     // Effects (shadows, blur)
     if (node.effects && node.effects.length > 0) {
@@ -281,65 +469,88 @@ ${this.customCode.cssAdvanced}
       }
     }
 
-    return styles;
+    return this.styleTokens.bindStyles(node, styles);
   }
 
+  // Az osztályok a markupban vannak, a téma a DesignSystemExporter tailwind formátumának tailwind.config.ts fájljában
   private generateTailwindCSS(node: FigmaNode): string {
-    const classes = this.generateTailwindClasses(node);
-    return `/* Figma alapú Tailwind osztályok: ${classes} */
-
-/* Komponens alapstílusok */
-.${this.sanitizeComponentName(node.name).toLowerCase()} {
-  @apply ${classes};
-}`;
-  }
-
-  private generateTailwindClasses(node: FigmaNode): string {
-    const classes: string[] = [];
+    return `/* ${this.sanitizeComponentName(node.name)}: Tailwind osztályok a markupban, téma: tailwind.config.ts */`;
+  }
+
+  private generateTailwindClasses(node: FigmaNode, parent?: FigmaNode): string {
+    const tokens = this.getTailwindTokens();
+    // Layout, spacing és méret a közös auto layout fordítóval, a px értékek spacing tokenre illesztve
+    const classes: string[] = this.layoutTranslator.toTailwindClasses(
+      this.layoutTranslator.getStyles(node, parent),
+      value => tokens.spacing(value)
+    );
+
+    // Kitöltés: szövegnél betűszín, egyébként háttér; elnevezett színstílusnál a stílus osztálya
+    const fill = node.fills?.find(paint => paint.type === 'SOLID' && paint.visible !== false);
+    const fillStyle = this.styleTokens.getReference(node, 'fill');
+    const namedFill = fillStyle && tokens.namedColor(node.type === 'TEXT' ? 'text' : 'bg', fillStyle.name);
+    if (namedFill) {
+      classes.push(namedFill);
+    } else if (node.type === 'TEXT') {
+      const textFill = node.style?.fills?.find(paint => paint.type === 'SOLID' && paint.visible !== false) || fill;
+      if (textFill?.color) classes.push(tokens.color('text', textFill.color, textFill.opacity));
+    } else if (fill?.color) {
+      classes.push(tokens.color('bg', fill.color, fill.opacity));
+    } else if (node.backgroundColor) {
+      classes.push(tokens.color('bg', node.backgroundColor));
+    }
+
+    // Gradiensek, egymásra rakott rétegek, keverési mód és képszűrők: a szín fentebb, a többi tetszőleges értékként
+    const paintStyles = {
+      ...this.paintConverter.getFillStyles(node, this.getHtmlTag(node) === 'img'),
+      ...this.paintConverter.getBlendStyles(node),
+    };
+    Object.entries(paintStyles).forEach(([property, value]) => {
+      if (property === 'backgroundColor' || property === 'color' || property === 'WebkitBackgroundClip') return;
+      if (property === 'mixBlendMode') {
+        classes.push(`mix-blend-${value}`);
+      } else if (property === 'backgroundClip') {
+        classes.push('bg-clip-text', 'text-transparent');
+      } else {
+        classes.push(`[${this.camelToKebab(property)}:${value.replace(/\s+/g, '_')}]`);
+      }
+    });
 
-    // Layout
-    if (node.layoutMode === 'HORIZONTAL') {
-      classes.push('flex', 'flex-row');
-    } else if (node.layoutMode === 'VERTICAL') {
-      classes.push('flex', 'flex-col');
+    // Border radius
+    if (node.cornerRadius) {
+      classes.push(tokens.radius(node.cornerRadius));
     }
 
-    // Spacing
-    if (node.itemSpacing) {
-      const gap = this.pxToTailwindSpacing(node.itemSpacing);
-      classes.push(`gap-${gap}`);
+    // Körvonal
+    const stroke = node.strokes?.find(paint => paint.type === 'SOLID' && paint.visible !== false);
+    if (stroke?.color && node.strokeWeight) {
+      const strokeStyle = this.styleTokens.getReference(node, 'stroke');
+      classes.push(node.strokeWeight === 1 ? 'border' : `border-[${node.strokeWeight}px]`);
+      classes.push((strokeStyle && tokens.namedColor('border', strokeStyle.name)) || tokens.color('border', stroke.color, stroke.opacity));
     }
 
-    // Padding
-    if (node.paddingLeft) classes.push(`pl-${this.pxToTailwindSpacing(node.paddingLeft)}`);
-    if (node.paddingRight) classes.push(`pr-${this.pxToTailwindSpacing(node.paddingRight)}`);
-    if (node.paddingTop) classes.push(`pt-${this.pxToTailwindSpacing(node.paddingTop)}`);
-    if (node.paddingBottom) classes.push(`pb-${this.pxToTailwindSpacing(node.paddingBottom)}`);
+    // Elnevezett effekt stílus (árnyék)
+    const effectStyle = this.styleTokens.getReference(node, 'effect');
+    const namedShadow = effectStyle && tokens.namedShadow(effectStyle.name);
+    if (namedShadow) classes.push(namedShadow);
 
-    // Size
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      classes.push(`w-[${width}px]`, `h-[${height}px]`);
-    }
-
-    // Background color
-    if (node.backgroundColor) {
-      classes.push(this.colorToTailwind(node.backgroundColor));
+    // Text styles: elnevezett szövegstílusnál a stílus összetett osztálya
+    const textStyle = node.type === 'TEXT' ? this.styleTokens.getReference(node, 'text') : undefined;
+    const namedText = textStyle && tokens.namedTextStyle(textStyle.name);
+    if (namedText) {
+      classes.push(...namedText);
+    } else if (node.type === 'TEXT' && node.style?.fontSize) {
+      classes.push(...tokens.typography(node.style));
     }
 
-    // Border radius
-    if (node.cornerRadius) {
-      classes.push(this.borderRadiusToTailwind(node.cornerRadius));
-    }
+    return classes.join(' ');
+  }
 
-    // Text styles
-    if (node.type === 'TEXT' && node.style) {
-      if (node.style.fontSize) {
-        classes.push(this.fontSizeToTailwind(node.style.fontSize));
-      }
+  private getTailwindTokens(): TailwindTokenMapper {
+    if (!this.tailwindTokens) {
+      this.tailwindTokens = new TailwindTokenMapper(new DesignSystemExtractor(this.figmaData).extractDesignTokens());
     }
-
-    return classes.join(' ');
+    return this.tailwindTokens;
   }
 
   // Accessibility elemzés
@@ -428,6 +639,17 @@ ${this.customCode.cssAdvanced}
     return search(this.figmaData.document);
   }
 
+  private containsAnyNode(node: FigmaNode, nodeIds: Set<string>): boolean {
+    if (nodeIds.has(node.id)) return true;
+    return node.children?.some(child => this.containsAnyNode(child, nodeIds)) || false;
+  }
+
+  private findScreens(document: FigmaNode): FigmaNode[] {
+    return (document.children || [])
+      .filter(page => page.type === 'CANVAS')
+      .flatMap(page => (page.children || []).filter(child => child.type === 'FRAME'));
+  }
+
   private findMainFrames(node: FigmaNode): FigmaNode[] {
     const frames: FigmaNode[] = [];
     
@@ -457,50 +679,11 @@ ${this.customCode.cssAdvanced}
     return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${alpha})`;
   }
 
-  private colorToTailwind(color: any): string {
-    const { r, g, b } = color;
-    
-    // Egyszerűsített színkonverzió
-    if (r > 0.9 && g > 0.9 && b > 0.9) return 'bg-white';
-    if (r < 0.1 && g < 0.1 && b < 0.1) return 'bg-black';
-    if (r > 0.8 && g < 0.3 && b < 0.3) return 'bg-red-500';
-    if (r < 0.3 && g > 0.8 && b < 0.3) return 'bg-green-500';
-    if (r < 0.3 && g < 0.3 && b > 0.8) return 'bg-blue-500';
-    
-    return 'bg-gray-500';
-  }
-
-  private pxToTailwindSpacing(px: number): string {
-    const spacing = Math.round(px / 4);
-    if (spacing <= 0) return '0';
-    if (spacing <= 96) return spacing.toString();
-    return `[${px}px]`;
-  }
-
-  private borderRadiusToTailwind(radius: number): string {
-    if (radius <= 2) return 'rounded-sm';
-    if (radius <= 4) return 'rounded';
-    if (radius <= 6) return 'rounded-md';
-    if (radius <= 8) return 'rounded-lg';
-    if (radius <= 12) return 'rounded-xl';
-    if (radius <= 16) return 'rounded-2xl';
-    return `rounded-[${radius}px]`;
-  }
-
-  private fontSizeToTailwind(fontSize: number): string {
-    if (fontSize <= 12) return 'text-xs';
-    if (fontSize <= 14) return 'text-sm';
-    if (fontSize <= 16) return 'text-base';
-    if (fontSize <= 18) return 'text-lg';
-    if (fontSize <= 20) return 'text-xl';
-    if (fontSize <= 24) return 'text-2xl';
-    if (fontSize <= 30) return 'text-3xl';
-    return `text-[${fontSize}px]`;
-  }
-
   private getHtmlTag(node: FigmaNode): string {
+    if (this.svgRenderer.canRender(node)) return 'svg';
+
     switch (node.type) {
-      case 'TEXT': return this.isHeading(node) ? 'h2' : 'span';
+      case 'TEXT': return this.richText.hasList(node) ? 'div' : this.isHeading(node) ? 'h2' : 'span';
       case 'FRAME': return 'div';
       case 'RECTANGLE': return this.isImage(node) ? 'img' : 'div';
       case 'COMPONENT':
@@ -538,6 +721,14 @@ ${this.customCode.cssAdvanced}
 
   private generateImports(node: FigmaNode): string {
     const imports = ['import React from "react";'];
+
+    // Példányként beágyazott generált komponensek
+    [...this.usedComponents].sort().forEach(name => {
+      imports.push(`import { ${name} } from "./${name}";`);
+    });
+    if (this.usedLibraryComponents.size > 0) {
+      imports.push(`import { ${[...this.usedLibraryComponents].sort().join(', ')} } from "${LIBRARY_IMPORT_PATH}";`);
+    }
     
     if (this.options.typescript) {
       // TypeScript típusok importálása szükség esetén
@@ -556,14 +747,24 @@ ${this.customCode.cssAdvanced}
 `;
   }
 
-  private extractProps(node: FigmaNode): Array<{name: string, type: string, optional: boolean}> {
-    const props = [];
+  private extractProps(node: FigmaNode): Array<{name: string, type: string, optional: boolean, defaultValue?: string}> {
+    const props: Array<{name: string, type: string, optional: boolean, defaultValue?: string}> = [];
+
+    // Figma komponens property-k: variáns tengelyek, kapcsolók, szövegek, slotok
+    this.activeProps.forEach(definition => {
+      props.push({
+        name: definition.name,
+        type: definition.tsType,
+        optional: true,
+        defaultValue: this.propsResolver.getDefaultLiteral(definition),
+      });
+    });
     
     if (node.type === 'TEXT' && node.characters) {
       props.push({ name: 'children', type: 'React.ReactNode', optional: true });
     }
     
-    if (this.isImage(node)) {
+    if (this.isImage(node) && !this.imageResolver.resolve(node)) {
       props.push({ name: 'src', type: 'string', optional: false });
       props.push({ name: 'alt', type: 'string', optional: false });
     }
@@ -573,37 +774,100 @@ ${this.customCode.cssAdvanced}
     return props;
   }
 
-  private generateClassName(node: FigmaNode): string {
+  private generateClassName(node: FigmaNode, parent?: FigmaNode): string {
     if (this.options.styling === 'tailwind') {
-      return this.generateTailwindClasses(node);
+      return this.generateTailwindClasses(node, parent);
     }
     return node.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
   }
 
-  private generateInlineStyles(node: FigmaNode): string {
-    if (this.options.styling === 'tailwind') return '';
-    
-    const styles = this.extractAllStyles(node);
+  private generateInlineStyles(node: FigmaNode, parent?: FigmaNode): string {
+    const styles: Record<string, string> = this.options.styling === 'tailwind'
+      ? {}
+      : Object.fromEntries(Object.entries(this.extractAllStyles(node, parent)).map(([key, value]) => [key, `"${value}"`]));
+
+    // Példányokon felülírt szín: a prop értéke kerül a stílusba
+    const colorProp = this.propsResolver.getReferencedProp(node, 'fills', this.activeProps);
+    if (colorProp) {
+      styles[node.type === 'TEXT' ? 'color' : 'backgroundColor'] = colorProp.name;
+    }
+
     const styleEntries = Object.entries(styles)
-      .map(([key, value]) => `${key}: "${value}"`)
+      .map(([key, value]) => `${key}: ${value}`)
       .join(', ');
     
-    return styleEntries ? `{{ ${styleEntries} }}` : '';
+    return styleEntries ? `{ ${styleEntries} }` : '';
   }
 
   private generateAttributes(node: FigmaNode): string {
     const attributes = [];
     
-    if (this.isImage(node)) {
-      attributes.push('src={src}', 'alt={alt}');
+    if (this.getHtmlTag(node) === 'img') {
+      const src = this.imageResolver.resolve(node);
+      if (src) {
+        attributes.push(`src="${src}"`, `alt="${this.escapeAttribute(node.name)}"`);
+      } else {
+        attributes.push('src={src}', 'alt={alt}');
+      }
     }
     
     return attributes.length > 0 ? ' ' + attributes.join(' ') : '';
   }
 
   private generateHTML(node: FigmaNode, className: string, styles: string, children: string): string {
-    // HTML generálás implementációja
-    return `<!-- HTML implementation -->`;
+    return this.generateHTMLElement(node, 0);
+  }
+
+  private generateHTMLElement(node: FigmaNode, depth: number, parent?: FigmaNode): string {
+    const indent = '  '.repeat(depth);
+    const tag = this.getHtmlTag(node);
+    const className = this.generateClassName(node, parent);
+    const classAttr = className ? ` class="${className}"` : '';
+    const styleAttr = this.options.styling === 'tailwind' ? '' : this.generateHTMLStyleAttribute(node, parent);
+
+    if (tag === 'svg') {
+      return this.svgRenderer.render(node, { className, indent });
+    }
+
+    if (tag === 'img') {
+      const src = this.imageResolver.resolve(node) || '/placeholder.svg';
+      return `${indent}<img${classAttr}${styleAttr} src="${src}" alt="${this.escapeAttribute(node.name)}" />`;
+    }
+
+    if (this.richText.isRich(node)) {
+      return `${indent}<${tag}${classAttr}${styleAttr}>
+${this.richText.render(node, { indent: `${indent}  ` })}
+${indent}</${tag}>`;
+    }
+
+    if (node.type === 'TEXT' && node.characters) {
+      return `${indent}<${tag}${classAttr}${styleAttr}>${this.escapeHTML(node.characters)}</${tag}>`;
+    }
+
+    const children = (node.children || []).map(child => this.generateHTMLElement(child, depth + 1, node));
+    if (children.length === 0) {
+      return `${indent}<${tag}${classAttr}${styleAttr}></${tag}>`;
+    }
+
+    return `${indent}<${tag}${classAttr}${styleAttr}>
+${children.join('\n')}
+${indent}</${tag}>`;
+  }
+
+  private generateHTMLStyleAttribute(node: FigmaNode, parent?: FigmaNode): string {
+    const styles = this.extractAllStyles(node, parent);
+    const declarations = Object.entries(styles)
+      .map(([property, value]) => `${this.camelToKebab(property)}: ${value}`)
+      .join('; ');
+    return declarations ? ` style="${this.escapeAttribute(declarations)}"` : '';
+  }
+
+  private escapeHTML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private escapeAttribute(text: string): string {
+    return this.escapeHTML(text).replace(/"/g, '&quot;');
   }
 
   private convertToCSSRules(styles: Record<string, any>, componentName: string): string {
@@ -634,11 +898,6 @@ ${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}
     return str.replace(/([a-z0-9]|(?=[A-Z]))([A-Z])/g, '$1-$2').toLowerCase();
   }
 
-  private gradientToCSS(fill: any): string {
-    // Gradient konverzió implementációja
-    return 'linear-gradient(90deg, #000 0%, #fff 100%)';
-  }
-
   private effectToCSS(effect: any): string {
     if (effect.type === 'DROP_SHADOW') {
       const { offset, radius, color } = effect;
@@ -672,6 +931,7 @@ export type ${componentName}Ref = HTMLDivElement;`;
       name: node.name || 'UnnamedComponent',
       type: node.type,
       figmaNodeId: node.id,
+      figmaBranchKey: this.figmaData.branchKey,
       componentType: this.detectComponentType(node),
       complexity: this.calculateComplexity(node),
       estimatedAccuracy: this.estimateAccuracy(node),
@@ -0,0 +1,91 @@
+import { FigmaNode } from '../types/figma';
+import { ComponentFile, ComponentFileOptions, MarkupBuilder } from './markup-builder';
+import { StyleTokenResolver } from './style-token-resolver';
+import { LIBRARY_IMPORT_PATH, LibraryInstanceResolver } from './library-instance-resolver';
+
+// Angular standalone komponens: inline template és styles, a markup a közös magból
+export class AngularGenerator {
+  private markupBuilder: MarkupBuilder;
+
+  // imageFills: imageRef → URL térkép (FigmaApiService.getImageFills)
+  // styleTokens: elnevezett stílusok feloldója, ha a kimenet a tokenekre hivatkozzon
+  // libraryInstances: a könyvtári komponensek példányai importált komponensként jelennek meg
+  constructor(imageFills: Record<string, string> = {}, styleTokens?: StyleTokenResolver, libraryInstances?: LibraryInstanceResolver) {
+    this.markupBuilder = new MarkupBuilder(imageFills, styleTokens, libraryInstances);
+  }
+
+  generate(root: FigmaNode, options: ComponentFileOptions = {}): ComponentFile {
+    const name = this.sanitizeComponentName(options.componentName || root.name);
+    const selector = this.toKebabCase(name);
+    // A képernyő frame kitölti a tárolót, a komponensek megtartják a Figma méretüket
+    const { markup, css, assets } = this.markupBuilder.build(root, {
+      dialect: 'angular',
+      tailwind: options.tailwind,
+      fluidRoot: root.type === 'FRAME',
+    }, '    ');
+
+    const styles = css
+      ? `
+  styles: [\`
+${this.escapeTemplateLiteral(this.indent(css.trim(), '    '))}
+  \`],`
+      : '';
+
+    // A standalone komponens a sablonban használt könyvtári komponenseket maga importálja
+    const libraryComponents = this.markupBuilder.getLibraryComponents().map(component => `${component}Component`);
+    const libraryImport = libraryComponents.length > 0
+      ? `import { ${libraryComponents.join(', ')} } from '${LIBRARY_IMPORT_PATH}';\n`
+      : '';
+    const importsField = libraryComponents.length > 0 ? `\n  imports: [${libraryComponents.join(', ')}],` : '';
+
+    const code = `import { Component } from '@angular/core';
+${libraryImport}
+@Component({
+  selector: 'app-${selector}',
+  standalone: true,${importsField}
+  template: \`
+${this.escapeTemplateLiteral(markup)}
+  \`,${styles}
+})
+export class ${name}Component {}
+`;
+
+    return {
+      name,
+      fileName: `${selector}.component.ts`,
+      code,
+      styles: css,
+      assets,
+    };
+  }
+
+  // A template és a styles TypeScript template literalba kerül
+  private escapeTemplateLiteral(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/`/g, '\\`')
+      .replace(/\$\{/g, '\\${');
+  }
+
+  private indent(text: string, prefix: string): string {
+    return text.split('\n').map(line => (line ? `${prefix}${line}` : line)).join('\n');
+  }
+
+  private toKebabCase(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .toLowerCase();
+  }
+
+  private sanitizeComponentName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9]/g, ' ')
+      .split(' ')
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+      .replace(/^[0-9]/, 'Component$&')
+      .replace(/(.)Component$/, '$1') // A Component utótagot az osztálynév kapja
+      || 'App';
+  }
+}
@@ -78,8 +78,8 @@ export class ApiClient {
         timestamp: Date.now()
       });
 
-      const fileId = this.figmaService.extractFileId(request.figmaUrl);
-      if (!fileId) {
+      const parsedUrl = this.figmaService.parseFileUrl(request.figmaUrl);
+      if (!parsedUrl) {
         throw new Error('Could not extract file ID from URL');
       }
 
@@ -92,7 +92,8 @@ export class ApiClient {
         timestamp: Date.now()
       });
 
-      const figmaFile = await this.figmaService.getFile(fileId);
+      // A node-id in the link limits the whole conversion to that subtree
+      const figmaFile = await this.figmaService.getScopedFile(parsedUrl.fileId, parsedUrl.nodeId, parsedUrl.branchKey);
 
       // Phase 2: Analyze design structure
       onProgress?.({
@@ -0,0 +1,404 @@
+import { describe, expect, it } from 'vitest';
+import { FigmaNode } from '../types/figma';
+import { AutoLayoutTranslator } from './auto-layout-translator';
+
+// GET /v1/files/:key/nodes?ids=... válasz részlete: a frame-ek a REST API mezőneveivel és értékeivel
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const BORDER = { r: 0.8784313797950745, g: 0.8784313797950745, b: 0.8784313797950745, a: 1 };
+
+const frame = (id: string, name: string, x: number, y: number, width: number, height: number, fields: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  type: 'FRAME',
+  scrollBehavior: 'SCROLLS',
+  blendMode: 'PASS_THROUGH',
+  clipsContent: true,
+  background: [{ blendMode: 'NORMAL', type: 'SOLID', color: WHITE }],
+  fills: [{ blendMode: 'NORMAL', type: 'SOLID', color: WHITE }],
+  strokes: [],
+  strokeWeight: 1,
+  strokeAlign: 'INSIDE',
+  backgroundColor: WHITE,
+  absoluteBoundingBox: { x, y, width, height },
+  absoluteRenderBounds: { x, y, width, height },
+  constraints: { vertical: 'TOP', horizontal: 'LEFT' },
+  effects: [],
+  interactions: [],
+  children: [],
+  ...fields,
+});
+
+const text = (id: string, name: string, x: number, y: number, width: number, height: number, fields: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  type: 'TEXT',
+  scrollBehavior: 'SCROLLS',
+  blendMode: 'PASS_THROUGH',
+  fills: [{ blendMode: 'NORMAL', type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+  strokes: [],
+  strokeWeight: 1,
+  strokeAlign: 'OUTSIDE',
+  absoluteBoundingBox: { x, y, width, height },
+  constraints: { vertical: 'TOP', horizontal: 'LEFT' },
+  characters: name,
+  style: { fontFamily: 'Inter', fontPostScriptName: 'Inter-Medium', fontWeight: 500, textAutoResize: 'HEIGHT', fontSize: 14, textAlignHorizontal: 'LEFT', textAlignVertical: 'TOP', letterSpacing: 0, lineHeightPx: 20, lineHeightPercent: 100, lineHeightUnit: 'INTRINSIC_%' },
+  effects: [],
+  interactions: [],
+  ...fields,
+});
+
+const response = {
+  name: 'Layout fixtures',
+  lastModified: '2024-05-02T09:14:31Z',
+  version: '5623987211',
+  nodes: {
+    '12:40': {
+      document: frame('12:40', 'Toolbar', 0, 0, 360, 48, {
+        layoutMode: 'HORIZONTAL',
+        counterAxisSizingMode: 'AUTO',
+        primaryAxisSizingMode: 'FIXED',
+        counterAxisAlignItems: 'CENTER',
+        itemSpacing: 8,
+        paddingLeft: 16,
+        paddingRight: 16,
+        paddingTop: 12,
+        paddingBottom: 12,
+        layoutSizingHorizontal: 'FIXED',
+        layoutSizingVertical: 'HUG',
+        children: [
+          frame('12:41', 'Icon', 16, 12, 24, 24, { layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+          text('12:42', 'Title', 48, 14, 211, 20, { layoutGrow: 1, layoutSizingHorizontal: 'FILL', layoutSizingVertical: 'HUG' }),
+          frame('12:43', 'Divider', 267, 0, 1, 48, { layoutAlign: 'STRETCH', layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FILL' }),
+          frame('12:44', 'Actions', 276, 12, 68, 24, {
+            layoutMode: 'HORIZONTAL',
+            counterAxisSizingMode: 'AUTO',
+            primaryAxisSizingMode: 'AUTO',
+            counterAxisAlignItems: 'CENTER',
+            itemSpacing: 4,
+            layoutSizingHorizontal: 'HUG',
+            layoutSizingVertical: 'HUG',
+            children: [
+              frame('12:45', 'Edit', 276, 12, 32, 24, { layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+              frame('12:46', 'Share', 312, 12, 32, 24, { layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+            ],
+          }),
+        ],
+      }),
+    },
+    '14:2': {
+      document: frame('14:2', 'Sheet', 400, 0, 320, 480, {
+        layoutMode: 'VERTICAL',
+        counterAxisSizingMode: 'FIXED',
+        primaryAxisSizingMode: 'FIXED',
+        itemSpacing: 0,
+        layoutSizingHorizontal: 'FIXED',
+        layoutSizingVertical: 'FIXED',
+        children: [
+          frame('14:3', 'Header', 400, 0, 320, 56, { layoutSizingHorizontal: 'FILL', layoutSizingVertical: 'FIXED' }),
+          frame('14:4', 'Content', 400, 56, 320, 424, { layoutGrow: 1, layoutAlign: 'STRETCH', layoutSizingHorizontal: 'FILL', layoutSizingVertical: 'FILL' }),
+        ],
+      }),
+    },
+    // layoutSizing* mezők előtti fájl: a méretezés a layoutGrow / layoutAlign / *SizingMode mezőkből
+    '3:10': {
+      document: frame('3:10', 'Legacy list', 800, 0, 320, 164, {
+        layoutMode: 'VERTICAL',
+        counterAxisSizingMode: 'FIXED',
+        primaryAxisSizingMode: 'AUTO',
+        itemSpacing: 0,
+        children: [
+          frame('3:11', 'Row', 800, 0, 320, 48, { layoutAlign: 'STRETCH', layoutGrow: 0 }),
+          frame('3:12', 'Spacer', 800, 48, 320, 96, { layoutAlign: 'INHERIT', layoutGrow: 1 }),
+          frame('3:13', 'Badge', 800, 144, 40, 20, { layoutAlign: 'CENTER', layoutGrow: 0 }),
+          text('3:14', 'Caption', 800, 144, 52, 16, { layoutAlign: 'INHERIT', layoutGrow: 0, style: { fontFamily: 'Inter', fontSize: 12, textAutoResize: 'WIDTH_AND_HEIGHT' } }),
+        ],
+      }),
+    },
+    '20:1': {
+      document: frame('20:1', 'Tag cloud', 0, 600, 280, 112, {
+        layoutMode: 'HORIZONTAL',
+        layoutWrap: 'WRAP',
+        counterAxisSizingMode: 'AUTO',
+        primaryAxisSizingMode: 'FIXED',
+        counterAxisAlignContent: 'SPACE_BETWEEN',
+        itemSpacing: 8,
+        counterAxisSpacing: 12,
+        paddingLeft: 16,
+        paddingRight: 16,
+        paddingTop: 16,
+        paddingBottom: 16,
+        layoutSizingHorizontal: 'FIXED',
+        layoutSizingVertical: 'HUG',
+        children: [
+          frame('20:2', 'Tag', 16, 616, 72, 32, { layoutSizingHorizontal: 'HUG', layoutSizingVertical: 'FIXED' }),
+        ],
+      }),
+    },
+    '21:1': {
+      document: frame('21:1', 'Avatar stack', 400, 600, 80, 32, {
+        layoutMode: 'HORIZONTAL',
+        counterAxisSizingMode: 'AUTO',
+        primaryAxisSizingMode: 'AUTO',
+        itemSpacing: -8,
+        itemReverseZIndex: true,
+        layoutSizingHorizontal: 'HUG',
+        layoutSizingVertical: 'HUG',
+        children: [
+          frame('21:2', 'Avatar 1', 400, 600, 32, 32, { layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+          frame('21:3', 'Avatar 2', 424, 600, 32, 32, { layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+          frame('21:4', 'Hidden', 448, 600, 32, 32, { visible: false, layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+          frame('21:5', 'Avatar 3', 448, 600, 32, 32, { layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+          frame('21:6', 'Status', 470, 622, 10, 10, { layoutPositioning: 'ABSOLUTE', layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' }),
+        ],
+      }),
+    },
+    '22:1': {
+      document: frame('22:1', 'Card', 600, 600, 240, 120, {
+        layoutMode: 'VERTICAL',
+        counterAxisSizingMode: 'FIXED',
+        primaryAxisSizingMode: 'AUTO',
+        itemSpacing: 12,
+        paddingLeft: 16,
+        paddingRight: 16,
+        paddingTop: 16,
+        paddingBottom: 16,
+        strokes: [{ blendMode: 'NORMAL', type: 'SOLID', color: BORDER }],
+        strokeWeight: 2,
+        strokesIncludedInLayout: false,
+        layoutSizingHorizontal: 'FIXED',
+        layoutSizingVertical: 'HUG',
+      }),
+    },
+    '22:2': {
+      document: frame('22:2', 'Card included', 900, 600, 240, 120, {
+        layoutMode: 'VERTICAL',
+        counterAxisSizingMode: 'FIXED',
+        primaryAxisSizingMode: 'AUTO',
+        itemSpacing: 12,
+        paddingLeft: 16,
+        paddingRight: 16,
+        paddingTop: 16,
+        paddingBottom: 16,
+        strokes: [{ blendMode: 'NORMAL', type: 'SOLID', color: BORDER }],
+        strokeWeight: 2,
+        strokesIncludedInLayout: true,
+        layoutSizingHorizontal: 'FIXED',
+        layoutSizingVertical: 'HUG',
+      }),
+    },
+    '30:1': {
+      document: frame('30:1', 'Page grid', 100, 1000, 1200, 800, {
+        layoutGrids: [
+          { pattern: 'COLUMNS', sectionSize: 74, visible: true, color: { r: 1, g: 0, b: 0, a: 0.1 }, alignment: 'STRETCH', gutterSize: 24, offset: 24, count: 12 },
+        ],
+        children: [
+          frame('30:2', 'Hero', 124, 1000, 1152, 400),
+          frame('30:3', 'Sidebar', 124, 1424, 270, 376),
+          frame('30:4', 'Main', 418, 1424, 858, 376),
+        ],
+      }),
+    },
+  },
+};
+
+const nodes = Object.values(response.nodes).map(entry => entry.document as unknown as FigmaNode);
+
+const search = (name: string, roots: FigmaNode[]): FigmaNode | undefined => {
+  for (const node of roots) {
+    const match = node.name === name ? node : search(name, node.children || []);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+const find = (name: string): FigmaNode => {
+  const node = search(name, nodes);
+  if (!node) throw new Error(`Nincs ilyen node a fixture-ben: ${name}`);
+  return node;
+};
+
+describe('AutoLayoutTranslator', () => {
+  const translator = new AutoLayoutTranslator();
+  const styles = (name: string, parentName?: string) => translator.getStyles(find(name), parentName ? find(parentName) : undefined);
+  const classes = (name: string, parentName?: string) => translator.toTailwindClasses(styles(name, parentName));
+
+  describe('méretezés tengelyenként', () => {
+    it('fix szélességű, tartalomhoz igazodó magasságú sor', () => {
+      expect(styles('Toolbar')).toEqual({
+        display: 'flex',
+        flexDirection: 'row',
+        gap: '8px',
+        alignItems: 'center',
+        padding: '12px 16px',
+        boxSizing: 'border-box',
+        width: '360px',
+      });
+      expect(classes('Toolbar')).toEqual(['flex', 'flex-row', 'gap-2', 'items-center', 'pt-3', 'pr-4', 'pb-3', 'pl-4', 'box-border', 'w-[360px]']);
+    });
+
+    it('FIXED mindkét tengelyen: fix méret, a fő tengelyen nem zsugorodik', () => {
+      expect(styles('Icon', 'Toolbar')).toEqual({ width: '24px', flexShrink: '0', height: '24px' });
+      expect(classes('Icon', 'Toolbar')).toEqual(['w-6', 'shrink-0', 'h-6']);
+    });
+
+    it('FILL a fő tengelyen, HUG a keresztirányún', () => {
+      expect(styles('Title', 'Toolbar')).toEqual({ flex: '1 1 0', minWidth: '0' });
+      expect(classes('Title', 'Toolbar')).toEqual(['flex-1', 'min-w-0']);
+    });
+
+    it('FILL a keresztirányú tengelyen: align-self stretch', () => {
+      expect(styles('Divider', 'Toolbar')).toEqual({ width: '1px', flexShrink: '0', alignSelf: 'stretch' });
+      expect(classes('Divider', 'Toolbar')).toEqual(['w-[1px]', 'shrink-0', 'self-stretch']);
+    });
+
+    it('HUG mindkét tengelyen: fit-content szélesség, a magasság a tartalomból', () => {
+      expect(styles('Actions', 'Toolbar')).toEqual({
+        display: 'flex',
+        flexDirection: 'row',
+        gap: '4px',
+        alignItems: 'center',
+        boxSizing: 'border-box',
+        width: 'fit-content',
+        flexShrink: '0',
+      });
+      expect(classes('Actions', 'Toolbar')).toEqual(['flex', 'flex-row', 'gap-1', 'items-center', 'box-border', 'w-fit', 'shrink-0']);
+    });
+
+    it('FILL mindkét tengelyen egy oszlopban', () => {
+      expect(styles('Content', 'Sheet')).toEqual({ alignSelf: 'stretch', flex: '1 1 0', minHeight: '0' });
+      expect(classes('Content', 'Sheet')).toEqual(['self-stretch', 'flex-1', 'min-h-0']);
+    });
+
+    it('FILL auto layout szülő nélkül fix méret', () => {
+      const header = find('Header');
+      expect(translator.getSizing(header, find('Sheet'))).toEqual({ horizontal: 'FILL', vertical: 'FIXED' });
+      expect(translator.getSizing(header)).toEqual({ horizontal: 'FIXED', vertical: 'FIXED' });
+      expect(translator.getStyles(header)).toEqual({ width: '320px', height: '56px' });
+    });
+  });
+
+  describe('layoutGrow és layoutAlign (layoutSizing* nélküli fájl)', () => {
+    it('a konténer méretezése a *SizingMode mezőkből', () => {
+      expect(translator.getSizing(find('Legacy list'))).toEqual({ horizontal: 'FIXED', vertical: 'HUG' });
+      expect(styles('Legacy list')).toEqual({
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'flex-start',
+        boxSizing: 'border-box',
+        width: '320px',
+      });
+    });
+
+    it('layoutAlign STRETCH: kitölti a keresztirányú tengelyt', () => {
+      expect(styles('Row', 'Legacy list')).toEqual({ alignSelf: 'stretch', height: '48px', flexShrink: '0' });
+      expect(classes('Row', 'Legacy list')).toEqual(['self-stretch', 'h-12', 'shrink-0']);
+    });
+
+    it('layoutGrow 1: kitölti a fő tengelyt', () => {
+      expect(styles('Spacer', 'Legacy list')).toEqual({ width: '320px', flex: '1 1 0', minHeight: '0' });
+      expect(classes('Spacer', 'Legacy list')).toEqual(['w-80', 'flex-1', 'min-h-0']);
+    });
+
+    it('layoutAlign CENTER: egyedi keresztirányú igazítás', () => {
+      expect(styles('Badge', 'Legacy list')).toEqual({ width: '40px', height: '20px', flexShrink: '0', alignSelf: 'center' });
+      expect(classes('Badge', 'Legacy list')).toEqual(['w-10', 'h-5', 'shrink-0', 'self-center']);
+    });
+
+    it('szélességhez és magassághoz igazodó szöveg: HUG', () => {
+      expect(translator.getSizing(find('Caption'), find('Legacy list'))).toEqual({ horizontal: 'HUG', vertical: 'HUG' });
+      expect(styles('Caption', 'Legacy list')).toEqual({ width: 'fit-content', flexShrink: '0' });
+    });
+  });
+
+  describe('tördelés', () => {
+    it('layoutWrap: oszlopköz az itemSpacing-ből, sorköz a counterAxisSpacing-ből', () => {
+      expect(styles('Tag cloud')).toEqual({
+        display: 'flex',
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        columnGap: '8px',
+        rowGap: '12px',
+        alignContent: 'space-between',
+        alignItems: 'flex-start',
+        padding: '16px',
+        boxSizing: 'border-box',
+        width: '280px',
+      });
+      expect(classes('Tag cloud')).toEqual([
+        'flex', 'flex-row', 'flex-wrap', 'gap-x-2', 'gap-y-3', 'content-between', 'items-start', 'p-4', 'box-border', 'w-[280px]',
+      ]);
+    });
+
+    it('tördelő sor eleme HUG szélességgel', () => {
+      expect(styles('Tag', 'Tag cloud')).toEqual({ width: 'fit-content', flexShrink: '0', height: '32px' });
+    });
+  });
+
+  describe('negatív térköz és rétegsorrend', () => {
+    it('negatív itemSpacing: nincs gap, a konténer relatív az abszolút gyermek miatt', () => {
+      expect(styles('Avatar stack')).toEqual({
+        display: 'flex',
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        boxSizing: 'border-box',
+        position: 'relative',
+        width: 'fit-content',
+      });
+    });
+
+    it('az első elem nem kap margót, és itemReverseZIndex miatt legfelül van', () => {
+      expect(styles('Avatar 1', 'Avatar stack')).toEqual({ width: '32px', flexShrink: '0', height: '32px', zIndex: '3' });
+      expect(classes('Avatar 1', 'Avatar stack')).toEqual(['w-8', 'shrink-0', 'h-8', 'z-[3]']);
+    });
+
+    it('a további elemek negatív margóval fednek át, a rejtett réteg nem számít', () => {
+      expect(styles('Avatar 2', 'Avatar stack')).toEqual({ width: '32px', flexShrink: '0', height: '32px', zIndex: '2', marginLeft: '-8px' });
+      expect(styles('Avatar 3', 'Avatar stack')).toEqual({ width: '32px', flexShrink: '0', height: '32px', zIndex: '1', marginLeft: '-8px' });
+      expect(classes('Avatar 3', 'Avatar stack')).toEqual(['w-8', 'shrink-0', 'h-8', 'z-[1]', 'ml-[-8px]']);
+    });
+
+    it('az auto layoutból kiemelt elem a szülőhöz képest pozicionált', () => {
+      expect(styles('Status', 'Avatar stack')).toEqual({ position: 'absolute', left: '70px', top: '22px', width: '10px', height: '10px' });
+      expect(classes('Status', 'Avatar stack')).toEqual(['absolute', 'left-[70px]', 'top-[22px]', 'w-2.5', 'h-2.5']);
+    });
+  });
+
+  describe('strokesIncludedInLayout', () => {
+    it('a layoutba nem számító körvonal vastagsága levonódik a paddingből', () => {
+      expect(styles('Card').padding).toBe('14px');
+      expect(classes('Card')).toContain('p-3.5');
+    });
+
+    it('a layoutba számító körvonal mellett a padding változatlan', () => {
+      expect(styles('Card included').padding).toBe('16px');
+      expect(classes('Card included')).toContain('p-4');
+    });
+  });
+
+  describe('oszlop layout grid', () => {
+    it('STRETCH oszlopok: egyenlő sávok, gutter oszlopközként, offset paddingként', () => {
+      expect(translator.detectLayoutType(find('Page grid'))).toBe('grid');
+      expect(styles('Page grid')).toEqual({
+        display: 'grid',
+        gridTemplateColumns: 'repeat(12, minmax(0, 1fr))',
+        alignItems: 'start',
+        boxSizing: 'border-box',
+        columnGap: '24px',
+        paddingLeft: '24px',
+        paddingRight: '24px',
+        width: '1200px',
+        height: '800px',
+      });
+      expect(classes('Page grid')).toEqual([
+        'grid', 'grid-cols-[repeat(12,_minmax(0,_1fr))]', 'items-start', 'box-border', 'gap-x-6', 'pl-6', 'pr-6', 'w-[1200px]', 'h-[800px]',
+      ]);
+    });
+
+    it('az elemek a befoglaló dobozuk alapján kapnak oszlopot, a szélességet a sávok adják', () => {
+      expect(styles('Hero', 'Page grid')).toEqual({ height: '400px', gridColumn: '1 / span 12' });
+      expect(styles('Sidebar', 'Page grid')).toEqual({ height: '376px', gridColumn: '1 / span 3' });
+      expect(styles('Main', 'Page grid')).toEqual({ height: '376px', gridColumn: '4 / span 9' });
+      expect(classes('Main', 'Page grid')).toEqual(['h-[376px]', 'col-[4_/_span_9]']);
+    });
+  });
+});
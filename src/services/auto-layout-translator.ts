@@ -0,0 +1,525 @@
+import { FigmaLayoutGrid, FigmaNode } from '../types/figma';
+
+export type LayoutType = 'flex' | 'grid' | 'absolute' | 'flow';
+
+export type LayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+// camelCase CSS tulajdonságok, ahogy a generátorok stílus objektumai is
+export type LayoutStyles = Record<string, string>;
+
+const JUSTIFY_CONTENT: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+};
+
+const ALIGN_ITEMS: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  BASELINE: 'baseline',
+};
+
+// Régi layoutAlign értékek (layoutSizing* előtti fájlok)
+const ALIGN_SELF: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  STRETCH: 'stretch',
+};
+
+const TAILWIND_KEYWORDS: Record<string, Record<string, string>> = {
+  display: { flex: 'flex', grid: 'grid', block: 'block' },
+  flexDirection: { row: 'flex-row', column: 'flex-col' },
+  flexWrap: { wrap: 'flex-wrap' },
+  justifyContent: { 'flex-start': 'justify-start', center: 'justify-center', 'flex-end': 'justify-end', 'space-between': 'justify-between' },
+  alignItems: { 'flex-start': 'items-start', center: 'items-center', 'flex-end': 'items-end', baseline: 'items-baseline', stretch: 'items-stretch', start: 'items-start' },
+  alignSelf: { 'flex-start': 'self-start', center: 'self-center', 'flex-end': 'self-end', stretch: 'self-stretch' },
+  alignContent: { 'space-between': 'content-between' },
+  flex: { '1 1 0': 'flex-1' },
+  flexShrink: { '0': 'shrink-0' },
+  boxSizing: { 'border-box': 'box-border' },
+  position: { absolute: 'absolute', relative: 'relative' },
+  width: { 'fit-content': 'w-fit', '100%': 'w-full' },
+  height: { 'fit-content': 'h-fit', '100%': 'h-full' },
+  minWidth: { '0': 'min-w-0' },
+  minHeight: { '0': 'min-h-0' },
+};
+
+const TAILWIND_PREFIXES: Record<string, string> = {
+  width: 'w',
+  height: 'h',
+  minWidth: 'min-w',
+  maxWidth: 'max-w',
+  minHeight: 'min-h',
+  maxHeight: 'max-h',
+  gap: 'gap',
+  rowGap: 'gap-y',
+  columnGap: 'gap-x',
+  paddingTop: 'pt',
+  paddingRight: 'pr',
+  paddingBottom: 'pb',
+  paddingLeft: 'pl',
+  marginTop: 'mt',
+  marginLeft: 'ml',
+  zIndex: 'z',
+  left: 'left',
+  top: 'top',
+  right: 'right',
+  bottom: 'bottom',
+  gridTemplateColumns: 'grid-cols',
+  gridTemplateRows: 'grid-rows',
+  gridColumn: 'col',
+  gridRow: 'row',
+};
+
+// Tailwind alap spacing skála (px / 4); ezeken kívül tetszőleges érték: gap-[13px]
+const TAILWIND_SPACING_SCALE = new Set([
+  0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96,
+]);
+
+const TAILWIND_SPACING_PROPERTIES = new Set([
+  'width', 'height', 'gap', 'rowGap', 'columnGap', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'marginTop', 'marginLeft', 'left', 'top', 'right', 'bottom',
+]);
+
+// Auto layout → flexbox, oszlop layout grid → CSS grid. Minden generátor ezt használja,
+// hogy ugyanaz a frame mindenhol ugyanazt az elrendezést kapja.
+export class AutoLayoutTranslator {
+  isAutoLayout(node?: FigmaNode | null): boolean {
+    return node?.layoutMode === 'HORIZONTAL' || node?.layoutMode === 'VERTICAL';
+  }
+
+  detectLayoutType(node: FigmaNode): LayoutType {
+    if (this.isAutoLayout(node)) return 'flex';
+    if (!node.children?.length) return 'flow';
+    if (this.getColumnGrid(node)) return 'grid';
+    if (['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'GROUP', 'SECTION'].includes(node.type)) return 'absolute';
+    return 'flow';
+  }
+
+  // A node saját konténer stílusai és a szülő elrendezésében kapott elem stílusai együtt
+  getStyles(node: FigmaNode, parent?: FigmaNode | null): LayoutStyles {
+    return { ...this.getContainerStyles(node), ...this.getItemStyles(node, parent) };
+  }
+
+  getContainerStyles(node: FigmaNode): LayoutStyles {
+    const layoutType = this.detectLayoutType(node);
+    if (layoutType === 'flex') return this.getFlexContainerStyles(node);
+    if (layoutType === 'grid') return this.getGridContainerStyles(node);
+    return {};
+  }
+
+  getItemStyles(node: FigmaNode, parent?: FigmaNode | null): LayoutStyles {
+    const styles: LayoutStyles = {};
+    const sizing = this.getSizing(node, parent);
+    const width = node.size?.x ?? node.absoluteBoundingBox?.width;
+    const height = node.size?.y ?? node.absoluteBoundingBox?.height;
+
+    // Auto layoutból kiemelt (abszolút) elem: a szülőhöz képest pozicionálva
+    if (this.isAutoLayout(parent) && node.layoutPositioning === 'ABSOLUTE') {
+      const offset = this.getOffset(node, parent!);
+      styles.position = 'absolute';
+      styles.left = this.px(offset.x);
+      styles.top = this.px(offset.y);
+      if (width !== undefined) styles.width = this.px(width);
+      if (height !== undefined) styles.height = this.px(height);
+      return styles;
+    }
+
+    const parentAuto = this.isAutoLayout(parent);
+    const primaryIsHorizontal = parent?.layoutMode === 'HORIZONTAL';
+
+    this.applyAxisSizing(styles, 'width', sizing.horizontal, width, parentAuto, primaryIsHorizontal);
+    this.applyAxisSizing(styles, 'height', sizing.vertical, height, parentAuto, !primaryIsHorizontal);
+
+    if (node.minWidth !== undefined) styles.minWidth = this.px(node.minWidth);
+    if (node.maxWidth !== undefined) styles.maxWidth = this.px(node.maxWidth);
+    if (node.minHeight !== undefined) styles.minHeight = this.px(node.minHeight);
+    if (node.maxHeight !== undefined) styles.maxHeight = this.px(node.maxHeight);
+
+    if (parentAuto && parent) {
+      // Régi fájlok: egyedi keresztirányú igazítás layoutAlign-nal
+      if (!styles.alignSelf && node.layoutAlign && node.layoutAlign !== 'INHERIT' && ALIGN_SELF[node.layoutAlign]) {
+        styles.alignSelf = ALIGN_SELF[node.layoutAlign];
+      }
+
+      const flowChildren = (parent.children || []).filter(child => child.layoutPositioning !== 'ABSOLUTE' && child.visible !== false);
+      const index = flowChildren.indexOf(node);
+
+      // itemReverseZIndex: az első elem kerül legfelülre
+      if (parent.itemReverseZIndex && index >= 0) {
+        styles.zIndex = String(flowChildren.length - index);
+      }
+
+      // Negatív térköz (átfedő elemek) gap-pel nem írható le, margóval igen
+      const spacing = parent.itemSpacing ?? 0;
+      if (spacing < 0 && index > 0 && parent.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+        styles[primaryIsHorizontal ? 'marginLeft' : 'marginTop'] = this.px(spacing);
+      }
+    }
+
+    if (parent && this.detectLayoutType(parent) === 'grid') {
+      Object.assign(styles, this.getGridItemStyles(node, parent));
+      // Az oszlopokra feszített elem a sávok szélességét veszi fel
+      if (styles.gridColumn) delete styles.width;
+    }
+
+    return styles;
+  }
+
+  // Auto layout nélküli szülőben a constraints dönti el, hogyan követi az elem a szülő átméretezését
+  getConstraintStyles(node: FigmaNode, parent: FigmaNode): LayoutStyles {
+    const styles: LayoutStyles = { position: 'absolute' };
+    const offset = this.getOffset(node, parent);
+    // Csoport gyermekei a csoporttal arányosan skálázódnak
+    const constraints = parent.type === 'GROUP'
+      ? { horizontal: 'SCALE', vertical: 'SCALE' }
+      : node.constraints ?? { horizontal: 'LEFT', vertical: 'TOP' };
+    const translate: string[] = [];
+
+    const axes = [
+      { constraint: constraints.horizontal, start: 'left', end: 'right', size: 'width', position: offset.x,
+        own: node.size?.x ?? node.absoluteBoundingBox?.width ?? 0,
+        container: parent.size?.x ?? parent.absoluteBoundingBox?.width ?? 0 },
+      { constraint: constraints.vertical, start: 'top', end: 'bottom', size: 'height', position: offset.y,
+        own: node.size?.y ?? node.absoluteBoundingBox?.height ?? 0,
+        container: parent.size?.y ?? parent.absoluteBoundingBox?.height ?? 0 },
+    ];
+
+    axes.forEach((axis, index) => {
+      const trailing = axis.container - axis.position - axis.own;
+
+      switch (axis.constraint) {
+        case 'RIGHT':
+        case 'BOTTOM':
+          styles[axis.end] = this.px(trailing);
+          break;
+        case 'LEFT_RIGHT':
+        case 'TOP_BOTTOM':
+          styles[axis.start] = this.px(axis.position);
+          styles[axis.end] = this.px(trailing);
+          styles[axis.size] = 'auto';
+          break;
+        case 'CENTER': {
+          // A középponthoz képesti eltolás marad állandó
+          const delta = axis.position + axis.own / 2 - axis.container / 2;
+          styles[axis.start] = delta === 0 ? '50%' : `calc(50% ${delta < 0 ? '-' : '+'} ${this.px(Math.abs(delta))})`;
+          translate[index] = '-50%';
+          break;
+        }
+        case 'SCALE':
+          if (axis.container > 0) {
+            styles[axis.start] = this.percent(axis.position / axis.container);
+            styles[axis.size] = this.percent(axis.own / axis.container);
+            break;
+          }
+          styles[axis.start] = this.px(axis.position);
+          break;
+        default:
+          styles[axis.start] = this.px(axis.position);
+      }
+    });
+
+    if (translate.length > 0) {
+      styles.transform = `translate(${translate[0] ?? '0'}, ${translate[1] ?? '0'})`;
+    }
+
+    return styles;
+  }
+
+  // FIXED/HUG/FILL tengelyenként; a layoutSizing* hiányában a régi mezőkből levezetve
+  getSizing(node: FigmaNode, parent?: FigmaNode | null): { horizontal: LayoutSizing; vertical: LayoutSizing } {
+    const parentAuto = this.isAutoLayout(parent);
+    const derive = (horizontal: boolean): LayoutSizing => {
+      const parentPrimary = parentAuto && (parent!.layoutMode === 'HORIZONTAL') === horizontal;
+      if (parentAuto && parentPrimary && (node.layoutGrow ?? 0) > 0) return 'FILL';
+      if (parentAuto && !parentPrimary && node.layoutAlign === 'STRETCH') return 'FILL';
+
+      if (this.isAutoLayout(node)) {
+        const ownPrimary = (node.layoutMode === 'HORIZONTAL') === horizontal;
+        const mode = ownPrimary ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+        if (mode === 'AUTO') return 'HUG';
+      }
+
+      if (node.type === 'TEXT') {
+        const resize = node.style?.textAutoResize;
+        if (resize === 'WIDTH_AND_HEIGHT') return 'HUG';
+        if (resize === 'HEIGHT' && !horizontal) return 'HUG';
+      }
+
+      return 'FIXED';
+    };
+
+    const horizontal = node.layoutSizingHorizontal ?? derive(true);
+    const vertical = node.layoutSizingVertical ?? derive(false);
+
+    // FILL csak auto layout szülőben értelmezett
+    return {
+      horizontal: horizontal === 'FILL' && !parentAuto ? 'FIXED' : horizontal,
+      vertical: vertical === 'FILL' && !parentAuto ? 'FIXED' : vertical,
+    };
+  }
+
+  getTailwindClasses(node: FigmaNode, parent?: FigmaNode | null): string[] {
+    return this.toTailwindClasses(this.getStyles(node, parent));
+  }
+
+  // resolveSpacing: design token kulcs egy px értékhez (TailwindTokenMapper.spacing), ennek hiányában a Tailwind alapskála
+  toTailwindClasses(styles: LayoutStyles, resolveSpacing?: (value: string) => string | undefined): string[] {
+    const classes: string[] = [];
+    const toValue = (value: string) => resolveSpacing?.(value) ?? this.toTailwindValue(value);
+
+    Object.entries(styles).forEach(([property, value]) => {
+      if (property === 'padding') {
+        const [top, right = top, bottom = top, left = right] = value.split(' ');
+        if (top === right && right === bottom && bottom === left) {
+          classes.push(`p-${toValue(top)}`);
+        } else {
+          classes.push(
+            `pt-${toValue(top)}`,
+            `pr-${toValue(right)}`,
+            `pb-${toValue(bottom)}`,
+            `pl-${toValue(left)}`
+          );
+        }
+        return;
+      }
+
+      const keyword = TAILWIND_KEYWORDS[property]?.[value];
+      if (keyword) {
+        classes.push(keyword);
+        return;
+      }
+
+      const prefix = TAILWIND_PREFIXES[property];
+      if (!prefix) {
+        classes.push(`[${this.camelToKebab(property)}:${value.replace(/\s+/g, '_')}]`);
+      } else if (TAILWIND_SPACING_PROPERTIES.has(property)) {
+        classes.push(`${prefix}-${toValue(value)}`);
+      } else {
+        classes.push(`${prefix}-[${value.replace(/\s+/g, '_')}]`);
+      }
+    });
+
+    return classes;
+  }
+
+  // Skálaérték, ha a px a Tailwind spacing skálán van, egyébként tetszőleges érték
+  private toTailwindValue(value: string): string {
+    const match = value.match(/^(-?)(\d+(?:\.\d+)?)px$/);
+    const step = match ? Number(match[2]) / 4 : NaN;
+    if (match && TAILWIND_SPACING_SCALE.has(step)) {
+      return match[1] ? `[${value}]` : String(step);
+    }
+    return `[${value.replace(/\s+/g, '_')}]`;
+  }
+
+  private getFlexContainerStyles(node: FigmaNode): LayoutStyles {
+    const horizontal = node.layoutMode === 'HORIZONTAL';
+    const wrap = horizontal && node.layoutWrap === 'WRAP';
+    const spaceBetween = node.primaryAxisAlignItems === 'SPACE_BETWEEN';
+    const spacing = node.itemSpacing ?? 0;
+
+    const styles: LayoutStyles = {
+      display: 'flex',
+      flexDirection: horizontal ? 'row' : 'column',
+    };
+
+    if (wrap) {
+      styles.flexWrap = 'wrap';
+    }
+
+    // SPACE_BETWEEN esetén a Figma figyelmen kívül hagyja az itemSpacing-et
+    if (!spaceBetween && spacing > 0) {
+      styles[wrap ? 'columnGap' : 'gap'] = this.px(spacing);
+    }
+
+    if (wrap && (node.counterAxisSpacing ?? 0) > 0) {
+      styles.rowGap = this.px(node.counterAxisSpacing!);
+    }
+
+    if (wrap && node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+      styles.alignContent = 'space-between';
+    }
+
+    if (node.primaryAxisAlignItems && node.primaryAxisAlignItems !== 'MIN') {
+      styles.justifyContent = JUSTIFY_CONTENT[node.primaryAxisAlignItems];
+    }
+
+    // A CSS alapértéke stretch, a Figmáé MIN, ezért mindig kiírjuk
+    styles.alignItems = ALIGN_ITEMS[node.counterAxisAlignItems || 'MIN'];
+
+    const padding = this.getPadding(node);
+    if (padding) {
+      styles.padding = padding;
+    }
+
+    styles.boxSizing = 'border-box';
+
+    if (node.children?.some(child => child.layoutPositioning === 'ABSOLUTE')) {
+      styles.position = 'relative';
+    }
+
+    return styles;
+  }
+
+  // Oszlop layout grid: STRETCH esetén egyenlő oszlopok, egyébként fix oszlopszélesség
+  private getGridContainerStyles(node: FigmaNode): LayoutStyles {
+    const columns = this.getColumnGrid(node)!;
+    const rows = node.layoutGrids?.find(grid => grid.pattern === 'ROWS' && (grid.count ?? 0) > 0);
+    const styles: LayoutStyles = {
+      display: 'grid',
+      gridTemplateColumns: this.getTrackTemplate(columns),
+      alignItems: 'start',
+      boxSizing: 'border-box',
+    };
+
+    if (columns.gutterSize) styles.columnGap = this.px(columns.gutterSize);
+    if (columns.alignment === 'STRETCH' && columns.offset) {
+      styles.paddingLeft = this.px(columns.offset);
+      styles.paddingRight = this.px(columns.offset);
+    } else if (columns.alignment === 'CENTER') {
+      styles.justifyContent = 'center';
+    }
+
+    if (rows) {
+      styles.gridTemplateRows = this.getTrackTemplate(rows);
+      if (rows.gutterSize) styles.rowGap = this.px(rows.gutterSize);
+    }
+
+    return styles;
+  }
+
+  // Az elem oszlop (és sor) helye a befoglaló doboz alapján
+  private getGridItemStyles(node: FigmaNode, parent: FigmaNode): LayoutStyles {
+    const styles: LayoutStyles = {};
+    const columns = this.getColumnGrid(parent)!;
+    const rows = parent.layoutGrids?.find(grid => grid.pattern === 'ROWS' && (grid.count ?? 0) > 0);
+    const offset = this.getOffset(node, parent);
+    const width = node.size?.x ?? node.absoluteBoundingBox?.width ?? 0;
+    const height = node.size?.y ?? node.absoluteBoundingBox?.height ?? 0;
+    const parentWidth = parent.size?.x ?? parent.absoluteBoundingBox?.width ?? 0;
+    const parentHeight = parent.size?.y ?? parent.absoluteBoundingBox?.height ?? 0;
+
+    const columnPlacement = this.getTrackPlacement(columns, parentWidth, offset.x, width);
+    if (columnPlacement) {
+      styles.gridColumn = columnPlacement;
+    }
+
+    if (rows) {
+      const rowPlacement = this.getTrackPlacement(rows, parentHeight, offset.y, height);
+      if (rowPlacement) styles.gridRow = rowPlacement;
+    }
+
+    return styles;
+  }
+
+  private getTrackPlacement(grid: FigmaLayoutGrid, containerSize: number, position: number, size: number): string | null {
+    const count = grid.count ?? 0;
+    if (count <= 0) return null;
+
+    const gutter = grid.gutterSize ?? 0;
+    const offset = grid.offset ?? 0;
+    const trackSize = grid.alignment === 'STRETCH'
+      ? (containerSize - offset * 2 - gutter * (count - 1)) / count
+      : grid.sectionSize ?? 0;
+    if (trackSize <= 0) return null;
+
+    const start = grid.alignment === 'CENTER'
+      ? (containerSize - (trackSize * count + gutter * (count - 1))) / 2
+      : offset;
+    const step = trackSize + gutter;
+    const clamp = (value: number) => Math.min(count, Math.max(1, value));
+
+    const first = clamp(Math.floor((position - start + gutter / 2) / step) + 1);
+    const last = clamp(Math.ceil((position + size - start - gutter / 2) / step));
+    const span = Math.max(1, last - first + 1);
+
+    return `${first} / span ${span}`;
+  }
+
+  private getTrackTemplate(grid: FigmaLayoutGrid): string {
+    const count = grid.count ?? 1;
+    return grid.alignment === 'STRETCH' || !grid.sectionSize
+      ? `repeat(${count}, minmax(0, 1fr))`
+      : `repeat(${count}, ${this.px(grid.sectionSize)})`;
+  }
+
+  private getColumnGrid(node: FigmaNode): FigmaLayoutGrid | undefined {
+    return node.layoutGrids?.find(grid => grid.pattern === 'COLUMNS' && (grid.count ?? 0) > 0);
+  }
+
+  private applyAxisSizing(
+    styles: LayoutStyles,
+    property: 'width' | 'height',
+    sizing: LayoutSizing,
+    size: number | undefined,
+    parentAuto: boolean,
+    onPrimaryAxis: boolean
+  ): void {
+    if (sizing === 'FILL') {
+      if (onPrimaryAxis) {
+        styles.flex = '1 1 0';
+        styles[property === 'width' ? 'minWidth' : 'minHeight'] = '0';
+      } else {
+        styles.alignSelf = 'stretch';
+      }
+      return;
+    }
+
+    if (sizing === 'HUG') {
+      if (property === 'width') styles.width = 'fit-content';
+    } else if (size !== undefined) {
+      styles[property] = this.px(size);
+    }
+
+    // A Figma a fix és a tartalomhoz igazodó elemeket nem zsugorítja
+    if (parentAuto && onPrimaryAxis) {
+      styles.flexShrink = '0';
+    }
+  }
+
+  // Ha a körvonal nem része a layoutnak, a CSS border ne tolja beljebb a gyermekeket
+  private getPadding(node: FigmaNode): string | null {
+    const hasStroke = !!node.strokes?.some(stroke => stroke.visible !== false) && (node.strokeWeight ?? 0) > 0;
+    const inset = hasStroke && !node.strokesIncludedInLayout ? node.strokeWeight! : 0;
+    const values = [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft]
+      .map(value => Math.max(0, (value ?? 0) - inset));
+
+    if (values.every(value => value === 0)) return null;
+
+    const [top, right, bottom, left] = values;
+    if (top === bottom && right === left) {
+      return top === right ? this.px(top) : `${this.px(top)} ${this.px(right)}`;
+    }
+    return values.map(value => this.px(value)).join(' ');
+  }
+
+  private getOffset(node: FigmaNode, parent: FigmaNode): { x: number; y: number } {
+    // A csoport gyermekeinek relativeTransform-ja a befoglaló frame-hez képest értendő
+    if (node.relativeTransform && parent.type !== 'GROUP') {
+      return { x: node.relativeTransform[0][2], y: node.relativeTransform[1][2] };
+    }
+    if (node.absoluteBoundingBox && parent.absoluteBoundingBox) {
+      return {
+        x: node.absoluteBoundingBox.x - parent.absoluteBoundingBox.x,
+        y: node.absoluteBoundingBox.y - parent.absoluteBoundingBox.y,
+      };
+    }
+    return { x: 0, y: 0 };
+  }
+
+  private px(value: number): string {
+    return `${Math.round(value * 100) / 100}px`;
+  }
+
+  private percent(ratio: number): string {
+    return `${Math.round(ratio * 10000) / 100}%`;
+  }
+
+  private camelToKebab(value: string): string {
+    return value.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+  }
+}
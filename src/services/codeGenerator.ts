@@ -1,14 +1,25 @@
 import { FigmaFile, FigmaNode, ConversionConfig, GeneratedCode } from '../types/figma';
+import { SvelteGenerator } from './svelte-generator';
+import { AngularGenerator } from './angular-generator';
+import { VueGenerator } from './vue-generator';
+import { ReactNativeGenerator } from './react-native-generator';
+import { StyleTokenResolver } from './style-token-resolver';
 
 export class CodeGenerator {
   private figmaFile: FigmaFile;
   private config: ConversionConfig;
+  // imageRef → URL map (FigmaApiService.getImageFills); without it images stay as src/alt props
+  private imageFills: Record<string, string> = {};
 
   constructor(figmaFile: FigmaFile, config: ConversionConfig) {
     this.figmaFile = figmaFile;
     this.config = config;
   }
 
+  setImageFills(imageFills: Record<string, string>) {
+    this.imageFills = imageFills;
+  }
+
   async generateCode(): Promise<GeneratedCode> {
     // Simple mock implementation
     return {
@@ -27,6 +38,10 @@ export class CodeGenerator {
       return this.generateVueComponent();
     } else if (this.config.framework === 'angular') {
       return this.generateAngularComponent();
+    } else if (this.config.framework === 'svelte') {
+      return this.generateSvelteComponent();
+    } else if (this.config.framework === 'react-native') {
+      return new ReactNativeGenerator(this.imageFills, this.getStyleTokens()).generate(this.getMainNode(), { componentName: this.figmaFile.name }).code;
     } else {
       return this.generateVanillaComponent();
     }
@@ -49,40 +64,35 @@ export default ${this.sanitizeComponentName(this.figmaFile.name)};`;
   }
 
   private generateVueComponent(): string {
-    return `<template>
-  <div class="container">
-    <h1>Generated from Figma: ${this.figmaFile.name}</h1>
-    <!-- Generated content would go here -->
-  </div>
-</template>
-
-<script${this.config.typescript ? ' lang="ts"' : ''}>
-export default {
-  name: '${this.sanitizeComponentName(this.figmaFile.name)}'
-}
-</script>
-
-<style scoped>
-${this.generateStyles()}
-</style>`;
+    return new VueGenerator(this.imageFills, this.getStyleTokens()).generate(this.getMainNode(), {
+      componentName: this.figmaFile.name,
+      tailwind: this.config.cssFramework === 'tailwind',
+    }).code;
   }
 
   private generateAngularComponent(): string {
-    return `import { Component } from '@angular/core';
+    return new AngularGenerator(this.imageFills, this.getStyleTokens()).generate(this.getMainNode(), {
+      componentName: this.figmaFile.name,
+      tailwind: this.config.cssFramework === 'tailwind',
+    }).code;
+  }
 
-@Component({
-  selector: 'app-${this.figmaFile.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}',
-  template: \`
-    <div class="container">
-      <h1>Generated from Figma: ${this.figmaFile.name}</h1>
-      <!-- Generated content would go here -->
-    </div>
-  \`,
-  styleUrls: ['./component.css']
-})
-export class ${this.sanitizeComponentName(this.figmaFile.name)}Component {
-  // Component logic here
-}`;
+  private generateSvelteComponent(): string {
+    return new SvelteGenerator(this.imageFills, this.getStyleTokens()).generate(this.getMainNode(), {
+      componentName: this.figmaFile.name,
+      tailwind: this.config.cssFramework === 'tailwind',
+    }).code;
+  }
+
+  // Named Figma styles referenced by the nodes, so the generated code points at the tokens
+  private getStyleTokens(): StyleTokenResolver {
+    return new StyleTokenResolver(this.figmaFile.document, this.figmaFile.styles);
+  }
+
+  // First frame of the first page, falling back to the page or the document itself
+  private getMainNode(): FigmaNode {
+    const page = this.figmaFile.document.children?.[0];
+    return page?.children?.[0] || page || this.figmaFile.document;
   }
 
   private generateVanillaComponent(): string {
@@ -156,6 +166,14 @@ export class ${this.sanitizeComponentName(this.figmaFile.name)}Component {
     if (this.config.framework === 'react') {
       deps.push('react', 'react-dom');
       if (this.config.typescript) deps.push('@types/react', '@types/react-dom');
+    } else if (this.config.framework === 'vue') {
+      deps.push('vue');
+    } else if (this.config.framework === 'angular') {
+      deps.push('@angular/core', '@angular/common', '@angular/platform-browser');
+    } else if (this.config.framework === 'svelte') {
+      deps.push('svelte');
+    } else if (this.config.framework === 'react-native') {
+      deps.push('react', 'react-native');
     }
     
     if (this.config.cssFramework === 'styled-components') {
@@ -0,0 +1,404 @@
+import { FigmaColor, FigmaComponentPropertyReferences, FigmaNode } from '../types/figma';
+
+export type ComponentPropType = 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+
+export interface ComponentPropDefinition {
+  // A generált komponens prop neve (camelCase)
+  name: string;
+  // Kulcs a componentPropertyDefinitions / componentProperties térképben, pl. "Label#12:3";
+  // felülírásnál a réteg útvonala
+  figmaName: string;
+  type: ComponentPropType;
+  tsType: string;
+  // Kódbeli érték: variánsnál a normalizált opció, TEXT-nél a szöveg, BOOLEAN-nál a logikai érték
+  defaultValue?: string | boolean;
+  options?: string[];
+  // INSTANCE_SWAP: az alapértelmezett beágyazott komponens node id-ja
+  defaultComponentId?: string;
+  // Property-hez nem kötött, példányokon felülírt rétegmező
+  override?: LayerOverride;
+}
+
+export interface ComponentVariant {
+  node: FigmaNode;
+  // prop név → normalizált opció
+  values: Record<string, string>;
+}
+
+// Property-hez nem kötött, példányokon felülírt rétegmezők
+export type OverrideField = 'characters' | 'visible' | 'fills';
+
+export interface LayerOverride {
+  field: OverrideField;
+  // Réteg útvonala a komponens gyökerétől: "Content/Label" (üres: maga a gyökér)
+  path: string;
+}
+
+// A generált komponensek saját propjai, ezekkel nem ütközhet Figma property
+const RESERVED_PROP_NAMES = new Set(['className', 'children', 'key', 'ref', 'style', 'src', 'alt']);
+
+// Komponens készletek és komponensek Figma property-jei → tipizált React propok.
+// VARIANT → union típus, BOOLEAN → réteg ki/be, TEXT → string, INSTANCE_SWAP → slot (ReactNode).
+export class ComponentPropsResolver {
+  private nodes = new Map<string, FigmaNode>();
+  private parents = new Map<string, FigmaNode>();
+  private definitionCache = new Map<string, ComponentPropDefinition[]>();
+  private instancesByRoot: Map<string, FigmaNode[]> | null = null;
+
+  // root: a dokumentum vagy egyetlen komponens (készlet) részfája
+  constructor(root?: FigmaNode) {
+    if (root) this.index(root);
+  }
+
+  getNode(id: string): FigmaNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  // Variáns komponensből a készlet, minden másból önmaga: egy készlet egy generált komponens
+  getComponentRoot(node: FigmaNode): FigmaNode {
+    const parent = this.parents.get(node.id);
+    return node.type === 'COMPONENT' && parent?.type === 'COMPONENT_SET' ? parent : node;
+  }
+
+  // Egy példány fő komponensének gyökere (készlet vagy komponens), ha a fájlban van
+  getInstanceRoot(instance: FigmaNode): FigmaNode | undefined {
+    const main = instance.componentId ? this.nodes.get(instance.componentId) : undefined;
+    return main ? this.getComponentRoot(main) : undefined;
+  }
+
+  getDefinitions(root: FigmaNode): ComponentPropDefinition[] {
+    const cached = this.definitionCache.get(root.id);
+    if (cached) return cached;
+
+    const definitions: ComponentPropDefinition[] = [];
+    const usedNames = new Set<string>();
+    const source = root.componentPropertyDefinitions
+      // Régebbi fájlok: a variáns tengelyek csak a variánsok nevéből olvashatók ki
+      ?? (root.type === 'COMPONENT_SET' ? this.deriveVariantDefinitions(root) : {});
+
+    Object.entries(source).forEach(([figmaName, definition]) => {
+      const name = this.uniquePropName(figmaName, usedNames);
+
+      switch (definition.type) {
+        case 'VARIANT': {
+          const options = (definition.variantOptions || []).map(option => this.toOptionValue(option));
+          definitions.push({
+            name,
+            figmaName,
+            type: 'VARIANT',
+            tsType: options.length > 0 ? options.map(option => this.toStringLiteral(option)).join(' | ') : 'string',
+            defaultValue: this.toOptionValue(String(definition.defaultValue ?? options[0] ?? '')),
+            options,
+          });
+          break;
+        }
+        case 'BOOLEAN':
+          definitions.push({ name, figmaName, type: 'BOOLEAN', tsType: 'boolean', defaultValue: definition.defaultValue === true || definition.defaultValue === 'true' });
+          break;
+        case 'TEXT':
+          definitions.push({ name, figmaName, type: 'TEXT', tsType: 'string', defaultValue: String(definition.defaultValue ?? '') });
+          break;
+        case 'INSTANCE_SWAP':
+          definitions.push({ name, figmaName, type: 'INSTANCE_SWAP', tsType: 'React.ReactNode', defaultComponentId: String(definition.defaultValue) });
+          break;
+      }
+    });
+
+    // A gyorsítótárba már a felülírások előtt bekerül: azok az alapértelmezett variánst keresik
+    this.definitionCache.set(root.id, definitions);
+    definitions.push(...this.getOverrideDefinitions(root, usedNames));
+    return definitions;
+  }
+
+  // A dokumentum példányain felülírt szövegek, láthatóságok és színek, amikhez nincs komponens property:
+  // ezekből is prop lesz, hogy a példány <Komponens /> használatként megmaradhasson
+  private getOverrideDefinitions(root: FigmaNode, usedNames: Set<string>): ComponentPropDefinition[] {
+    const definitions: ComponentPropDefinition[] = [];
+    const seen = new Set<string>();
+    const main = this.getDefaultComponent(root);
+
+    this.getInstances(root).forEach(instance => {
+      (instance.overrides || []).forEach(override => {
+        const layer = this.nodes.get(override.id);
+        if (!layer) return;
+
+        const path = this.getLayerPath(layer, instance.id);
+        const mainLayer = this.findByPath(main, path);
+        if (!mainLayer) return;
+
+        override.overriddenFields.forEach(field => {
+          const key = `${field}\n${path}`;
+          if (seen.has(key)) return;
+          const label = path ? mainLayer.name : root.name;
+
+          if (field === 'characters' && mainLayer.type === 'TEXT' && !mainLayer.componentPropertyReferences?.characters) {
+            definitions.push({ name: this.uniquePropName(`${label} text`, usedNames), figmaName: path, override: { field, path }, type: 'TEXT', tsType: 'string', defaultValue: mainLayer.characters || '' });
+          } else if (field === 'visible' && !mainLayer.componentPropertyReferences?.visible) {
+            definitions.push({ name: this.uniquePropName(`show ${label}`, usedNames), figmaName: path, override: { field, path }, type: 'BOOLEAN', tsType: 'boolean', defaultValue: mainLayer.visible !== false });
+          } else if (field === 'fills' && this.getSolidColor(layer) && this.getSolidColor(mainLayer)) {
+            // Csak egyszínű kitöltés adható át propként
+            const name = this.uniquePropName(path ? `${label} color` : 'background color', usedNames);
+            definitions.push({ name, figmaName: path, override: { field, path }, type: 'TEXT', tsType: 'string', defaultValue: this.getSolidColor(mainLayer)! });
+          } else {
+            return;
+          }
+          seen.add(key);
+        });
+      });
+    });
+
+    return definitions;
+  }
+
+  // Készlet variánsai a propértékeikkel; az alapértelmezett variáns az utolsó
+  getVariants(set: FigmaNode): ComponentVariant[] {
+    const definitions = this.getDefinitions(set).filter(definition => definition.type === 'VARIANT');
+    const variants = (set.children || [])
+      .filter(child => child.type === 'COMPONENT')
+      .map(node => {
+        const raw = this.parseVariantName(node);
+        const values: Record<string, string> = {};
+        definitions.forEach(definition => {
+          const value = raw[definition.figmaName];
+          if (value !== undefined) values[definition.name] = this.toOptionValue(value);
+        });
+        return { node, values };
+      });
+
+    const isDefault = (variant: ComponentVariant) =>
+      definitions.every(definition => variant.values[definition.name] === definition.defaultValue);
+    const defaultVariant = variants.find(isDefault) ?? variants[0];
+
+    return defaultVariant ? [...variants.filter(variant => variant !== defaultVariant), defaultVariant] : [];
+  }
+
+  // A réteg melyik mezőjét (láthatóság, szöveg, beágyazott példány, szín) vezérli prop
+  getReferencedProp(
+    node: FigmaNode,
+    field: keyof FigmaComponentPropertyReferences | OverrideField,
+    definitions: ComponentPropDefinition[]
+  ): ComponentPropDefinition | undefined {
+    const figmaName = field !== 'fills' ? node.componentPropertyReferences?.[field] : undefined;
+    if (figmaName) {
+      return definitions.find(definition => !definition.override && definition.figmaName === figmaName);
+    }
+    if (field === 'mainComponent') return undefined;
+
+    const path = this.getLayerPath(node);
+    return definitions.find(definition => definition.override?.field === field && definition.override.path === path);
+  }
+
+  // Példány propjai JSX attribútumként; az alapértelmezéstől nem eltérő értékek kimaradnak.
+  // componentName: beágyazott (INSTANCE_SWAP) komponens id → generált komponens neve
+  getInstanceAttributes(
+    instance: FigmaNode,
+    definitions: ComponentPropDefinition[],
+    componentName: (componentId: string) => string | undefined
+  ): string[] {
+    const attributes: string[] = [];
+    const properties = instance.componentProperties || {};
+
+    definitions.forEach(definition => {
+      if (definition.override) {
+        const attribute = this.getOverrideAttribute(instance, definition, definition.override);
+        if (attribute) attributes.push(attribute);
+        return;
+      }
+
+      const property = properties[definition.figmaName];
+      if (!property) return;
+
+      switch (definition.type) {
+        case 'VARIANT': {
+          const value = this.toOptionValue(String(property.value));
+          if (value !== definition.defaultValue) attributes.push(`${definition.name}=${this.toJsxString(value)}`);
+          break;
+        }
+        case 'BOOLEAN': {
+          const value = property.value === true || property.value === 'true';
+          if (value !== definition.defaultValue) attributes.push(`${definition.name}={${value}}`);
+          break;
+        }
+        case 'TEXT': {
+          const value = String(property.value ?? '');
+          if (value !== definition.defaultValue) attributes.push(`${definition.name}=${this.toJsxString(value)}`);
+          break;
+        }
+        case 'INSTANCE_SWAP': {
+          if (String(property.value) === definition.defaultComponentId) break;
+          const name = componentName(String(property.value));
+          if (name) attributes.push(`${definition.name}={<${name} />}`);
+          break;
+        }
+      }
+    });
+
+    return attributes;
+  }
+
+  // Példány property értékei definíciók nélkül, a componentProperties-ből (könyvtári komponens, aminek
+  // a fő komponense nincs a fájlban); a beágyazott példány cseréje kimarad
+  getPropertyValues(instance: FigmaNode): Array<{ name: string; value: string | boolean }> {
+    const usedNames = new Set<string>();
+    return Object.entries(instance.componentProperties || {})
+      .filter(([, property]) => property.type !== 'INSTANCE_SWAP')
+      .map(([figmaName, property]) => ({
+        name: this.uniquePropName(figmaName, usedNames),
+        value: property.type === 'BOOLEAN'
+          ? property.value === true || property.value === 'true'
+          : property.type === 'VARIANT' ? this.toOptionValue(String(property.value)) : String(property.value ?? ''),
+      }));
+  }
+
+  // Felülírt rétegmező értéke a példányban, ha eltér a fő komponensétől
+  private getOverrideAttribute(instance: FigmaNode, definition: ComponentPropDefinition, override: LayerOverride): string | null {
+    const layer = this.findByPath(instance, override.path);
+    if (!layer) return null;
+
+    if (override.field === 'characters') {
+      const value = layer.characters ?? '';
+      return value !== definition.defaultValue ? `${definition.name}=${this.toJsxString(value)}` : null;
+    }
+    if (override.field === 'visible') {
+      const value = layer.visible !== false;
+      return value !== definition.defaultValue ? `${definition.name}={${value}}` : null;
+    }
+    const color = this.getSolidColor(layer);
+    return color && color !== definition.defaultValue ? `${definition.name}="${color}"` : null;
+  }
+
+  // Feltétel, ami a variánst kiválasztja: size === 'small' && state === 'hover'
+  getVariantCondition(variant: ComponentVariant): string {
+    return Object.entries(variant.values)
+      .map(([name, value]) => `${name} === ${this.toStringLiteral(value)}`)
+      .join(' && ');
+  }
+
+  // Alapérték kódként a destruktúráláshoz: size = 'large', showIcon = true
+  getDefaultLiteral(definition: ComponentPropDefinition): string | undefined {
+    if (definition.defaultValue === undefined) return undefined;
+    if (typeof definition.defaultValue === 'boolean') return String(definition.defaultValue);
+    return definition.type === 'VARIANT' ? this.toStringLiteral(definition.defaultValue) : JSON.stringify(definition.defaultValue);
+  }
+
+  // "Size=Large, State=Hover" → { Size: 'Large', State: 'Hover' }
+  parseVariantName(node: FigmaNode): Record<string, string> {
+    if (node.variantProperties) return node.variantProperties;
+
+    const values: Record<string, string> = {};
+    node.name.split(',').forEach(part => {
+      const [key, ...rest] = part.split('=');
+      if (key && rest.length > 0) values[key.trim()] = rest.join('=').trim();
+    });
+    return values;
+  }
+
+  toOptionValue(value: string): string {
+    return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || value;
+  }
+
+  private deriveVariantDefinitions(set: FigmaNode): NonNullable<FigmaNode['componentPropertyDefinitions']> {
+    const definitions: NonNullable<FigmaNode['componentPropertyDefinitions']> = {};
+
+    (set.children || []).forEach(variant => {
+      Object.entries(this.parseVariantName(variant)).forEach(([key, value]) => {
+        if (!definitions[key]) {
+          definitions[key] = { type: 'VARIANT', defaultValue: value, variantOptions: [] };
+        }
+        if (!definitions[key].variantOptions!.includes(value)) {
+          definitions[key].variantOptions!.push(value);
+        }
+      });
+    });
+
+    return definitions;
+  }
+
+  // "Show icon#12:3" → showIcon; ütközés esetén sorszámmal
+  private uniquePropName(figmaName: string, usedNames: Set<string>): string {
+    const words = figmaName.replace(/#.*$/, '').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    let base = words
+      .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('') || 'prop';
+    if (/^[0-9]/.test(base)) base = `prop${base}`;
+    if (RESERVED_PROP_NAMES.has(base)) base = `${base}Prop`;
+
+    let name = base;
+    let counter = 2;
+    while (usedNames.has(name)) name = `${base}${counter++}`;
+    usedNames.add(name);
+    return name;
+  }
+
+  // Réteg útvonala a legközelebbi komponens (vagy a megadott példány) gyökeréig: "Content/Label"
+  private getLayerPath(node: FigmaNode, rootId?: string): string {
+    const names: string[] = [];
+    let current: FigmaNode | undefined = node;
+
+    while (current && current.id !== rootId && !(rootId === undefined && current.type === 'COMPONENT')) {
+      names.unshift(current.name);
+      current = this.parents.get(current.id);
+    }
+    return names.join('/');
+  }
+
+  private findByPath(root: FigmaNode, path: string): FigmaNode | undefined {
+    if (!path) return root;
+    return path.split('/').reduce<FigmaNode | undefined>(
+      (node, name) => node?.children?.find(child => child.name === name),
+      root
+    );
+  }
+
+  // Készletnél az alapértelmezett variáns, a felülírások ehhez mérve számítanak
+  private getDefaultComponent(root: FigmaNode): FigmaNode {
+    if (root.type !== 'COMPONENT_SET') return root;
+    const variants = this.getVariants(root);
+    return variants.length > 0 ? variants[variants.length - 1].node : root;
+  }
+
+  private getInstances(root: FigmaNode): FigmaNode[] {
+    if (!this.instancesByRoot) {
+      this.instancesByRoot = new Map();
+      this.nodes.forEach(node => {
+        if (node.type !== 'INSTANCE') return;
+        const instanceRoot = this.getInstanceRoot(node);
+        if (!instanceRoot) return;
+        const list = this.instancesByRoot!.get(instanceRoot.id) || [];
+        list.push(node);
+        this.instancesByRoot!.set(instanceRoot.id, list);
+      });
+    }
+    return this.instancesByRoot.get(root.id) || [];
+  }
+
+  private getSolidColor(node: FigmaNode): string | null {
+    const fill = node.fills?.find(paint => paint.visible !== false);
+    if (fill?.type !== 'SOLID' || !fill.color) return null;
+    return this.colorToCSS(fill.color, fill.opacity);
+  }
+
+  private colorToCSS(color: FigmaColor, opacity?: number): string {
+    const alpha = Math.round((color.a ?? 1) * (opacity ?? 1) * 100) / 100;
+    return `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${alpha})`;
+  }
+
+  // Egyszeres idézőjeles literál (union típus, feltétel): a nem biztonságos karakterek \uXXXX-ként,
+  // így a Vue v-if="..." attribútumában és nem ASCII opcióknál is érvényes marad
+  private toStringLiteral(value: string): string {
+    const escaped = value.replace(/[^\w ,.\-/+()]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+    return `'${escaped}'`;
+  }
+
+  private toJsxString(value: string): string {
+    return /["{}<>\n]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+  }
+
+  private index(node: FigmaNode) {
+    this.nodes.set(node.id, node);
+    node.children?.forEach(child => {
+      this.parents.set(child.id, node);
+      this.index(child);
+    });
+  }
+}
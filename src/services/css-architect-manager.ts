@@ -1,4 +1,7 @@
 import { FigmaNode } from '../types/figma';
+import { AutoLayoutTranslator } from './auto-layout-translator';
+import { PaintCssConverter } from './paint-css-converter';
+import { StyleTokenResolver } from './style-token-resolver';
 
 export type CSSArchitecture = 'bem' | 'smacss' | 'itcss' | 'cube-css';
 
@@ -14,6 +17,9 @@ export interface CSSArchitectureConfig {
 export class CSSArchitectManager {
   private architecture: CSSArchitecture;
   private config: CSSArchitectureConfig;
+  private layoutTranslator = new AutoLayoutTranslator();
+  private paintConverter = new PaintCssConverter();
+  private styleTokens?: StyleTokenResolver;
 
   constructor(architecture: CSSArchitecture, config?: Partial<CSSArchitectureConfig>) {
     this.architecture = architecture;
@@ -28,6 +34,11 @@ export class CSSArchitectManager {
     };
   }
 
+  // Nodes using named Figma styles reference the style tokens instead of raw values
+  setStyleTokens(styleTokens: StyleTokenResolver): void {
+    this.styleTokens = styleTokens;
+  }
+
   // Main CSS Generation Method
   generateArchitecturalCSS(node: FigmaNode, componentName: string): string {
     switch (this.architecture) {
@@ -454,7 +465,7 @@ ${this.stylesToCSS(blockStyles)}
 
   // Helper Methods
   private extractBaseStyles(node: FigmaNode): any {
-    return {
+    const styles = {
       display: this.getDisplayValue(node),
       position: 'relative',
       ...this.extractDimensions(node),
@@ -463,6 +474,7 @@ ${this.stylesToCSS(blockStyles)}
       ...this.extractBorders(node),
       ...this.extractShadows(node)
     };
+    return this.styleTokens ? this.styleTokens.bindStyles(node, styles) : styles;
   }
 
   private extractElements(node: FigmaNode): any[] {
@@ -508,10 +520,7 @@ ${this.stylesToCSS(blockStyles)}
   private extractLayoutStyles(node: FigmaNode): any {
     return {
       display: this.getDisplayValue(node),
-      flexDirection: node.layoutMode === 'HORIZONTAL' ? 'row' : 'column',
-      gap: node.itemSpacing ? `${node.itemSpacing}px` : undefined,
-      padding: this.extractPadding(node),
-      ...this.extractDimensions(node)
+      ...this.layoutTranslator.getStyles(node)
     };
   }
 
@@ -561,8 +570,9 @@ ${this.stylesToCSS(blockStyles)}
   }
 
   private getDisplayValue(node: FigmaNode): string {
-    if (node.layoutMode) {
-      return 'flex';
+    const layoutType = this.layoutTranslator.detectLayoutType(node);
+    if (layoutType === 'flex' || layoutType === 'grid') {
+      return layoutType;
     }
     if (node.type === 'TEXT') {
       return 'inline-block';
@@ -571,14 +581,7 @@ ${this.stylesToCSS(blockStyles)}
   }
 
   private extractDimensions(node: FigmaNode): any {
-    const dimensions: any = {};
-    
-    if (node.absoluteBoundingBox) {
-      dimensions.width = `${node.absoluteBoundingBox.width}px`;
-      dimensions.height = `${node.absoluteBoundingBox.height}px`;
-    }
-
-    return dimensions;
+    return this.layoutTranslator.getItemStyles(node);
   }
 
   private extractColors(node: FigmaNode): any {
@@ -588,37 +591,19 @@ ${this.stylesToCSS(blockStyles)}
       colors.backgroundColor = this.colorToCSS(node.backgroundColor);
     }
 
-    if (node.fills && node.fills.length > 0) {
-      const fill = node.fills[0];
-      if (fill.type === 'SOLID' && fill.color) {
-        colors.backgroundColor = this.colorToCSS(fill.color, fill.opacity);
-      }
-    }
+    // Stacked fills, gradients and blend modes via the shared paint converter
+    Object.assign(colors, this.paintConverter.getFillStyles(node), this.paintConverter.getBlendStyles(node));
 
     return colors;
   }
 
   private extractSpacing(node: FigmaNode): any {
-    const spacing: any = {};
-
-    if (node.paddingLeft || node.paddingRight || node.paddingTop || node.paddingBottom) {
-      spacing.padding = this.extractPadding(node);
-    }
-
-    if (node.itemSpacing) {
-      spacing.gap = `${node.itemSpacing}px`;
-    }
-
-    return spacing;
-  }
-
-  private extractPadding(node: FigmaNode): string {
-    const top = node.paddingTop || 0;
-    const right = node.paddingRight || 0;
-    const bottom = node.paddingBottom || 0;
-    const left = node.paddingLeft || 0;
-
-    return `${top}px ${right}px ${bottom}px ${left}px`;
+    const container = this.layoutTranslator.getContainerStyles(node);
+    return Object.fromEntries(
+      ['padding', 'paddingLeft', 'paddingRight', 'gap', 'rowGap', 'columnGap']
+        .filter(key => container[key] !== undefined)
+        .map(key => [key, container[key]])
+    );
   }
 
   private extractBorders(node: FigmaNode): any {
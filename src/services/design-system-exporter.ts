@@ -1,7 +1,11 @@
-import { DesignTokens } from './design-system-extractor';
+import { DesignTokens, ThemeTokens } from './design-system-extractor';
+import { DtcgTokenConverter } from './dtcg-token-converter';
+import { NativeTokenExporter } from './native-token-exporter';
+import { TailwindTokenMapper } from './tailwind-token-mapper';
+import { NAMED_STYLE_NAMESPACE } from './style-token-resolver';
 
 export interface ExportOptions {
-  format: 'css' | 'scss' | 'js' | 'json' | 'tailwind' | 'figma-tokens';
+  format: 'css' | 'scss' | 'js' | 'json' | 'tailwind' | 'figma-tokens' | 'dtcg' | 'style-dictionary' | 'ios' | 'android' | 'compose';
   includeComments: boolean;
   useCustomProperties: boolean;
   prefix?: string;
@@ -31,6 +35,16 @@ export class DesignSystemExporter {
         return this.exportTailwind();
       case 'figma-tokens':
         return this.exportFigmaTokens();
+      case 'dtcg':
+        return this.exportDtcg();
+      case 'style-dictionary':
+        return this.exportStyleDictionary();
+      case 'ios':
+        return new NativeTokenExporter(this.tokens, this.options).exportIOS();
+      case 'android':
+        return new NativeTokenExporter(this.tokens, this.options).exportAndroid();
+      case 'compose':
+        return new NativeTokenExporter(this.tokens, this.options).exportCompose();
       default:
         return this.exportCSS();
     }
@@ -46,6 +60,14 @@ export class DesignSystemExporter {
       content: this.generateCSSTokens()
     });
 
+    // Variable módok témánként
+    if (this.hasThemes()) {
+      files.push({
+        filename: 'themes.css',
+        content: this.generateCSSThemes()
+      });
+    }
+
     // Utility classes
     files.push({
       filename: 'utilities.css',
@@ -97,6 +119,7 @@ export class DesignSystemExporter {
       content: `export const designTokens = ${JSON.stringify(this.tokens, null, 2)};
 
 export const { colors, typography, spacing, shadows, borderRadius, breakpoints, animations } = designTokens;
+export const themes = designTokens.themes || {};
 
 // Utility functions
 export const getColor = (path) => {
@@ -127,10 +150,20 @@ export const getBreakpoint = (key) => breakpoints[key];
 
   // Tailwind config export
   private exportTailwind(): { filename: string; content: string }[] {
-    return [{
-      filename: 'tailwind.config.js',
+    const files = [{
+      filename: 'tailwind.config.ts',
       content: this.generateTailwindConfig()
     }];
+
+    // A témás színek CSS változókra hivatkoznak, ezek értékei itt vannak
+    if (this.hasThemes()) {
+      files.push({
+        filename: 'themes.css',
+        content: this.generateCSSThemes()
+      });
+    }
+
+    return files;
   }
 
   // Figma Tokens export
@@ -141,6 +174,31 @@ export const getBreakpoint = (key) => breakpoints[key];
     }];
   }
 
+  // W3C Design Tokens (DTCG) export: $value/$type, aliasok; a DtcgTokenConverter vissza is olvassa
+  private exportDtcg(): { filename: string; content: string }[] {
+    return [{
+      filename: 'tokens.json',
+      content: JSON.stringify(new DtcgTokenConverter().toDtcg(this.tokens), null, 2)
+    }];
+  }
+
+  // Style Dictionary forrás (value/type, CTI útvonalak); témánként külön forrásfájl a módonkénti buildhez
+  private exportStyleDictionary(): { filename: string; content: string }[] {
+    const files = [{
+      filename: 'tokens/base.json',
+      content: JSON.stringify(this.convertToStyleDictionaryFormat(), null, 2)
+    }];
+
+    Object.entries(this.tokens.themes || {}).forEach(([key, theme]) => {
+      files.push({
+        filename: `tokens/themes/${key}.json`,
+        content: JSON.stringify(this.convertThemeToStyleDictionary(theme), null, 2)
+      });
+    });
+
+    return files;
+  }
+
   // CSS tokens generálás
   private generateCSSTokens(): string {
     const prefix = this.options.prefix || '';
@@ -242,11 +300,89 @@ export const getBreakpoint = (key) => breakpoints[key];
       css += `  --${prefix}easing-${key}: ${value};\n`;
     });
 
+    // Elnevezett Figma stílusok: a generált kód var(--style-color-<név>, ...) alakban hivatkozik rájuk
+    const namedStyles = this.getNamedStyleEntries();
+    if (namedStyles.length > 0) {
+      if (this.options.includeComments) {
+        css += `\n  /* Figma Styles */\n`;
+      }
+      namedStyles.forEach(([name, value]) => {
+        css += `  --${prefix}${name}: ${value};\n`;
+      });
+    }
+
     css += `}\n`;
 
     return css;
   }
 
+  // Témák: az alapmód a :root-on, a többi [data-theme="..."] szelektoron
+  private generateCSSThemes(): string {
+    const prefix = this.options.prefix || '';
+    let css = '';
+
+    if (this.options.includeComments) {
+      css += `/* Themes - Generated from Figma Variables */\n\n`;
+    }
+
+    Object.entries(this.tokens.themes || {}).forEach(([key, theme]) => {
+      const selector = theme.isDefault ? `:root,\n[data-theme="${key}"]` : `[data-theme="${key}"]`;
+
+      if (this.options.includeComments) {
+        css += `/* ${theme.name} */\n`;
+      }
+
+      css += `${selector} {\n`;
+      this.getThemeEntries(theme).forEach(([name, value]) => {
+        css += `  --${prefix}${name}: ${value};\n`;
+      });
+      css += `}\n\n`;
+    });
+
+    return css;
+  }
+
+  // Elnevezett stílusok változónév → érték párokként (a StyleTokenResolver ugyanezekre a nevekre hivatkozik)
+  private getNamedStyleEntries(): [string, string][] {
+    const styles = this.tokens.styles;
+    if (!styles) return [];
+
+    const entries: [string, string][] = [];
+    Object.entries(styles.colors).forEach(([name, value]) => entries.push([`color-${name}`, value]));
+    Object.entries(styles.textStyles).forEach(([name, token]) => {
+      entries.push(
+        [`text-${name}-font-family`, token.fontFamily],
+        [`text-${name}-font-size`, token.fontSize],
+        [`text-${name}-font-weight`, String(token.fontWeight)],
+        [`text-${name}-line-height`, token.lineHeight],
+        [`text-${name}-letter-spacing`, token.letterSpacing]
+      );
+    });
+    Object.entries(styles.shadows).forEach(([name, value]) => entries.push([`shadow-${name}`, value]));
+    Object.entries(styles.grids).forEach(([name, grid]) => {
+      entries.push(
+        [`grid-${name}-columns`, grid.columns],
+        [`grid-${name}-gutter`, grid.gutter],
+        [`grid-${name}-margin`, grid.margin]
+      );
+    });
+    return entries.map(([name, value]) => [`${NAMED_STYLE_NAMESPACE}${name}`, value]);
+  }
+
+  private hasThemes(): boolean {
+    return Object.keys(this.tokens.themes || {}).length > 0;
+  }
+
+  private getThemeEntries(theme: ThemeTokens): [string, string][] {
+    return [
+      ...Object.entries(theme.colors),
+      ...Object.entries(theme.spacing),
+      ...Object.entries(theme.borderRadius),
+      ...Object.entries(theme.typography),
+      ...Object.entries(theme.other),
+    ];
+  }
+
   // CSS utilities generálás
   private generateCSSUtilities(): string {
     let css = '';
@@ -372,6 +508,31 @@ export const getBreakpoint = (key) => breakpoints[key];
     });
     scss += `);\n\n`;
 
+    // Figma styles map
+    const namedStyles = this.getNamedStyleEntries();
+    if (namedStyles.length > 0) {
+      scss += `// Figma Styles\n`;
+      scss += `$styles: (\n`;
+      namedStyles.forEach(([name, value]) => {
+        scss += `  ${name}: (${value}),\n`;
+      });
+      scss += `);\n\n`;
+    }
+
+    // Themes map
+    if (this.hasThemes()) {
+      scss += `// Themes\n`;
+      scss += `$themes: (\n`;
+      Object.entries(this.tokens.themes || {}).forEach(([key, theme]) => {
+        scss += `  ${key}: (\n`;
+        this.getThemeEntries(theme).forEach(([name, value]) => {
+          scss += `    ${name}: ${value},\n`;
+        });
+        scss += `  ),\n`;
+      });
+      scss += `);\n\n`;
+    }
+
     return scss;
   }
 
@@ -454,45 +615,60 @@ export const getBreakpoint = (key) => breakpoints[key];
 `;
   }
 
-  // Tailwind config generálás
+  // Tailwind config generálás: a theme kiterjesztés kulcsai a TailwindTokenMapper osztályneveivel egyeznek
   private generateTailwindConfig(): string {
-    return `/** @type {import('tailwindcss').Config} */
-module.exports = {
+    const prefix = this.options.prefix || '';
+    const extension = new TailwindTokenMapper(this.tokens).getThemeExtension();
+
+    // A témás színek CSS változókra hivatkoznak (themes.css), így módváltáskor is érvényesek
+    const defaultTheme = Object.values(this.tokens.themes || {}).find(theme => theme.isDefault);
+    Object.keys(defaultTheme?.colors || {}).forEach(name => {
+      extension.colors[name] = `var(--${prefix}${name})`;
+    });
+
+    const theme = JSON.stringify(extension, null, 2).replace(/\n/g, '\n    ');
+
+    return `import type { Config } from 'tailwindcss';
+
+const config: Config = {
   content: [
     './src/**/*.{js,ts,jsx,tsx}',
     './pages/**/*.{js,ts,jsx,tsx}',
     './components/**/*.{js,ts,jsx,tsx}',
   ],
   theme: {
-    extend: {
-      colors: {
-        primary: ${JSON.stringify(this.tokens.colors.primary, null, 8)},
-        secondary: ${JSON.stringify(this.tokens.colors.secondary, null, 8)},
-        neutral: ${JSON.stringify(this.tokens.colors.neutral, null, 8)},
-        success: ${JSON.stringify(this.tokens.colors.semantic.success, null, 8)},
-        warning: ${JSON.stringify(this.tokens.colors.semantic.warning, null, 8)},
-        error: ${JSON.stringify(this.tokens.colors.semantic.error, null, 8)},
-        info: ${JSON.stringify(this.tokens.colors.semantic.info, null, 8)},
-      },
-      fontFamily: ${JSON.stringify(this.tokens.typography.fontFamilies, null, 8)},
-      fontSize: ${JSON.stringify(this.tokens.typography.fontSizes, null, 8)},
-      fontWeight: ${JSON.stringify(this.tokens.typography.fontWeights, null, 8)},
-      spacing: ${JSON.stringify(this.tokens.spacing.semantic, null, 8)},
-      boxShadow: ${JSON.stringify(this.tokens.shadows.elevation, null, 8)},
-      borderRadius: ${JSON.stringify(this.tokens.borderRadius, null, 8)},
-      screens: ${JSON.stringify(this.tokens.breakpoints, null, 8)},
-      transitionDuration: ${JSON.stringify(this.tokens.animations.duration, null, 8)},
-      transitionTimingFunction: ${JSON.stringify(this.tokens.animations.easing, null, 8)},
-    },
+    extend: ${theme},
   },
   plugins: [],
 };
+
+export default config;
 `;
   }
 
   // Figma Tokens formátum konverzió
   private convertToFigmaTokensFormat(): any {
+    const themeSets: Record<string, Record<string, unknown>> = {};
+    Object.entries(this.tokens.themes || {}).forEach(([key, theme]) => {
+      themeSets[key] = {
+        colors: this.convertToFigmaTokenValues(theme.colors, 'color'),
+        spacing: this.convertToFigmaTokenValues(theme.spacing, 'spacing'),
+        borderRadius: this.convertToFigmaTokenValues(theme.borderRadius, 'borderRadius'),
+        typography: this.convertToFigmaTokenValues(theme.typography),
+        other: this.convertToFigmaTokenValues(theme.other),
+      };
+    });
+
+    // Tokens Studio téma definíciók: a global set forrás, a mód set aktív
+    const $themes = Object.entries(this.tokens.themes || {}).map(([key, theme]) => ({
+      id: key,
+      name: theme.name,
+      selectedTokenSets: { global: 'source', [key]: 'enabled' },
+    }));
+
     return {
+      ...themeSets,
+      ...($themes.length > 0 ? { $themes } : {}),
       global: {
         colors: {
           primary: this.convertColorScaleToFigmaTokens(this.tokens.colors.primary),
@@ -507,10 +683,98 @@ module.exports = {
         spacing: this.convertToFigmaTokenValues(this.tokens.spacing.semantic),
         borderRadius: this.convertToFigmaTokenValues(this.tokens.borderRadius),
         boxShadow: this.convertToFigmaTokenValues(this.tokens.shadows.elevation),
+        ...(this.tokens.styles ? {
+          styles: {
+            colors: this.convertToFigmaTokenValues(this.tokens.styles.colors, 'color'),
+            typography: this.convertToFigmaTokenValues(this.tokens.styles.textStyles, 'typography'),
+            boxShadow: this.convertToFigmaTokenValues(this.tokens.styles.shadows, 'boxShadow'),
+          }
+        } : {}),
+      }
+    };
+  }
+
+  // Style Dictionary formátum konverzió: a méretek rem alapú számok (size/rem transzform), az idők ms-ban
+  private convertToStyleDictionaryFormat(): Record<string, unknown> {
+    const typography = this.tokens.typography;
+    const colorScales = {
+      primary: this.tokens.colors.primary,
+      secondary: this.tokens.colors.secondary,
+      neutral: this.tokens.colors.neutral,
+      ...this.tokens.colors.semantic,
+    };
+    const styles = this.tokens.styles;
+
+    return {
+      color: {
+        ...Object.fromEntries(Object.entries(colorScales).map(([name, scale]) => [
+          name, this.convertToStyleDictionaryValues(scale, 'color')
+        ])),
+        custom: this.convertToStyleDictionaryValues(this.tokens.colors.custom, 'color'),
+        ...(styles ? { style: this.convertToStyleDictionaryValues(styles.colors, 'color') } : {}),
+      },
+      size: {
+        font: this.convertToStyleDictionarySizes(typography.fontSizes),
+        lineHeight: this.convertToStyleDictionarySizes(typography.lineHeights),
+        letterSpacing: this.convertToStyleDictionarySizes(typography.letterSpacing),
+        spacing: this.convertToStyleDictionarySizes({ ...this.tokens.spacing.scale, ...this.tokens.spacing.semantic }),
+        borderRadius: this.convertToStyleDictionarySizes(this.tokens.borderRadius),
+        breakpoint: this.convertToStyleDictionarySizes(this.tokens.breakpoints),
+      },
+      font: {
+        family: this.convertToStyleDictionaryValues(typography.fontFamilies, 'fontFamily'),
+        weight: this.convertToStyleDictionaryValues(typography.fontWeights, 'fontWeight'),
+      },
+      typography: {
+        ...this.convertToStyleDictionaryValues(typography.textStyles, 'typography'),
+        ...(styles ? { style: this.convertToStyleDictionaryValues(styles.textStyles, 'typography') } : {}),
+      },
+      shadow: {
+        ...this.convertToStyleDictionaryValues({ ...this.tokens.shadows.elevation, ...this.tokens.shadows.colored }, 'shadow'),
+        ...(styles ? { style: this.convertToStyleDictionaryValues(styles.shadows, 'shadow') } : {}),
+      },
+      time: {
+        duration: Object.fromEntries(Object.entries(this.tokens.animations.duration).map(([key, value]) => [
+          key, { value: String(parseFloat(value)), type: 'time', comment: value }
+        ])),
+      },
+      easing: this.convertToStyleDictionaryValues(this.tokens.animations.easing, 'cubicBezier'),
+    };
+  }
+
+  private convertThemeToStyleDictionary(theme: ThemeTokens): Record<string, unknown> {
+    return {
+      theme: {
+        color: this.convertToStyleDictionaryValues(theme.colors, 'color', theme.name),
+        size: {
+          spacing: this.convertToStyleDictionarySizes(theme.spacing),
+          borderRadius: this.convertToStyleDictionarySizes(theme.borderRadius),
+        },
+        typography: this.convertToStyleDictionaryValues(theme.typography, undefined, theme.name),
+        other: this.convertToStyleDictionaryValues(theme.other, undefined, theme.name),
       }
     };
   }
 
+  // px → rem szám (16px alap); a nem px értékek (%, "normal") változatlanul maradnak
+  private convertToStyleDictionarySizes(values: object): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    Object.entries(values).forEach(([key, value]: [string, string]) => {
+      result[key] = value.endsWith('px')
+        ? { value: String(parseFloat(value) / 16), type: 'dimension', comment: value }
+        : { value, type: 'dimension' };
+    });
+    return result;
+  }
+
+  private convertToStyleDictionaryValues(obj: object, type?: string, comment?: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    Object.entries(obj).forEach(([key, value]) => {
+      result[key] = { value, ...(type ? { type } : {}), ...(comment ? { comment } : {}) };
+    });
+    return result;
+  }
+
   private convertColorScaleToFigmaTokens(scale: any): any {
     const result: any = {};
     Object.entries(scale).forEach(([key, value]) => {
@@ -519,10 +783,10 @@ module.exports = {
     return result;
   }
 
-  private convertToFigmaTokenValues(obj: any): any {
+  private convertToFigmaTokenValues(obj: any, type?: string): any {
     const result: any = {};
     Object.entries(obj).forEach(([key, value]) => {
-      result[key] = { value };
+      result[key] = type ? { value, type } : { value };
     });
     return result;
   }
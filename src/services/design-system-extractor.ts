@@ -1,4 +1,18 @@
-import { FigmaApiResponse, FigmaNode, Color, Paint, TypeStyle } from '../types/figma';
+import {
+  FigmaApiResponse,
+  FigmaNode,
+  FigmaComponent,
+  FigmaComponentSet,
+  FigmaLibrary,
+  FigmaLocalVariablesMeta,
+  FigmaVariable,
+  FigmaVariableCollection,
+  FigmaVariableValue,
+  Color,
+  Paint,
+  TypeStyle,
+} from '../types/figma';
+import { StyleTokenResolver } from './style-token-resolver';
 
 export interface DesignTokens {
   colors: ColorTokens;
@@ -8,6 +22,37 @@ export interface DesignTokens {
   borderRadius: BorderRadiusTokens;
   breakpoints: BreakpointTokens;
   animations: AnimationTokens;
+  // Figma Variables módonként (light/dark/brand...), kulcs a mód slug-ja
+  themes?: Record<string, ThemeTokens>;
+  // Elnevezett Figma stílusok (node.styles hivatkozások), ha a fájl használ ilyet
+  styles?: StyleTokens;
+}
+
+// Elnevezett stílusok a stílus nevéből képzett kulccsal ("Brand/Primary" → "brand-primary").
+// CSS változóként: --style-color-<név>, --style-text-<név>-font-size stb., --style-shadow-<név>, --style-grid-<név>-columns
+export interface StyleTokens {
+  colors: Record<string, string>;
+  textStyles: Record<string, TextStyleToken>;
+  shadows: Record<string, string>;
+  grids: Record<string, GridStyleToken>;
+}
+
+export interface GridStyleToken {
+  columns: string;
+  gutter: string;
+  margin: string;
+}
+
+// Egy variable mód feloldott értékei; a kulcsok a variable nevéből képzett slug-ok
+// (pl. "color/bg/primary" → "color-bg-primary"), az aliasok már feloldva
+export interface ThemeTokens {
+  name: string;
+  isDefault: boolean;
+  colors: Record<string, string>;
+  spacing: Record<string, string>;
+  borderRadius: Record<string, string>;
+  typography: Record<string, string>;
+  other: Record<string, string>;
 }
 
 export interface ColorTokens {
@@ -101,16 +146,116 @@ export interface AnimationTokens {
   keyframes: Record<string, string>;
 }
 
+// Egy INSTANCE node feloldott komponense (helyi vagy publikált könyvtári)
+export interface ResolvedComponentInstance {
+  nodeId: string;
+  nodeName: string;
+  componentId: string;
+  componentKey?: string;
+  // Kanonikus név: variánsoknál a komponens set neve
+  name: string;
+  variantName?: string;
+  description: string;
+  componentSetName?: string;
+  libraryFileKey?: string;
+  remote: boolean;
+}
+
 export class DesignSystemExtractor {
   private figmaData: FigmaApiResponse;
+  private libraryComponents = new Map<string, FigmaComponent>();
+  private libraryComponentSets = new Map<string, FigmaComponentSet>();
+  private variables: FigmaLocalVariablesMeta | null = null;
   private extractedColors: Set<string> = new Set();
   private extractedSpacing: Set<number> = new Set();
   private extractedTypography: Map<string, TypeStyle> = new Map();
   private extractedShadows: Set<string> = new Set();
   private extractedBorderRadius: Set<number> = new Set();
+  private namedStyles: StyleTokens | null = null;
 
-  constructor(figmaData: FigmaApiResponse) {
+  // library: publikált team/fájl könyvtár (FigmaApiService.getTeamLibrary / getFileLibrary)
+  constructor(figmaData: FigmaApiResponse, library?: FigmaLibrary) {
     this.figmaData = figmaData;
+    if (library) {
+      this.setLibrary(library);
+    }
+  }
+
+  setLibrary(library: FigmaLibrary): void {
+    this.libraryComponents = new Map(library.components.map(component => [component.key, component]));
+    // Team könyvtárban a node id csak fájlon belül egyedi, ezért a kulcs a fájllal együtt
+    this.libraryComponentSets = new Map(library.componentSets.map(set => [`${set.file_key}:${set.node_id}`, set]));
+  }
+
+  // variables: GET /files/:key/variables/local (FigmaApiService.getLocalVariables)
+  setVariables(variables: FigmaLocalVariablesMeta): void {
+    this.variables = variables;
+  }
+
+  // Az összes INSTANCE node feloldása a helyi és a könyvtári komponensekre
+  resolveComponentInstances(): ResolvedComponentInstance[] {
+    const instances: ResolvedComponentInstance[] = [];
+
+    const visit = (node: FigmaNode) => {
+      const resolved = this.resolveInstance(node);
+      if (resolved) {
+        instances.push(resolved);
+      }
+      node.children?.forEach(visit);
+    };
+
+    if (this.figmaData.document) {
+      visit(this.figmaData.document);
+    }
+
+    return instances;
+  }
+
+  resolveInstance(node: FigmaNode): ResolvedComponentInstance | null {
+    if (node.type !== 'INSTANCE' || !node.componentId) return null;
+
+    // A fájl components térképe node id szerint indexel, a könyvtár kulcs szerint
+    const local = this.figmaData.components?.[node.componentId];
+    const published = local?.key ? this.libraryComponents.get(local.key) : undefined;
+    const component = published || local;
+
+    const localSetId = local?.componentSetId;
+    const localSet = localSetId ? this.figmaData.componentSets?.[localSetId] : undefined;
+    const publishedSetFrame = published?.containing_frame?.containingComponentSet;
+    const publishedSet = publishedSetFrame
+      ? this.libraryComponentSets.get(`${published?.file_key}:${publishedSetFrame.nodeId}`)
+      : undefined;
+    const componentSetName = publishedSet?.name || publishedSetFrame?.name || localSet?.name;
+
+    return {
+      nodeId: node.id,
+      nodeName: node.name,
+      componentId: node.componentId,
+      componentKey: local?.key,
+      name: componentSetName || component?.name || node.name,
+      variantName: componentSetName ? component?.name : undefined,
+      description: component?.description || publishedSet?.description || localSet?.description || '',
+      componentSetName,
+      libraryFileKey: published?.file_key,
+      remote: !!local?.remote || !!published,
+    };
+  }
+
+  // Üres dokumentum tokenjei: az alapértelmezett skálák, ezekkel egészül ki a hiányos DTCG import
+  static createDefaultTokens(): DesignTokens {
+    return new DesignSystemExtractor({
+      name: '',
+      role: '',
+      lastModified: '',
+      editorType: 'figma',
+      thumbnailUrl: '',
+      version: '',
+      document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [] },
+      components: {},
+      componentSets: {},
+      schemaVersion: 0,
+      styles: {},
+    }).extractDesignTokens();
   }
 
   // Fő extrakciós metódus
@@ -118,17 +263,156 @@ export class DesignSystemExtractor {
     this.analyzeDocument(this.figmaData.document);
     this.analyzeStyles();
 
+    const themes = this.generateThemeTokens();
+    const colors = this.generateColorTokens();
+    const defaultTheme = themes && Object.values(themes).find(theme => theme.isDefault);
+    if (defaultTheme) {
+      // A variable színek az alap tokenek között is megjelennek, a nevükön
+      colors.custom = { ...colors.custom, ...defaultTheme.colors };
+    }
+
     return {
-      colors: this.generateColorTokens(),
+      colors,
       typography: this.generateTypographyTokens(),
       spacing: this.generateSpacingTokens(),
       shadows: this.generateShadowTokens(),
       borderRadius: this.generateBorderRadiusTokens(),
       breakpoints: this.generateBreakpointTokens(),
       animations: this.generateAnimationTokens(),
+      ...(themes ? { themes } : {}),
+      ...(this.namedStyles ? { styles: this.namedStyles } : {}),
     };
   }
 
+  // Témák a variable módokból: minden több módú kollekció minden módja egy téma.
+  // Egy témában minden variable szerepel – az egymódú kollekciók (primitívek) az
+  // alapértéküket adják, az aliasok a téma azonos nevű módjában oldódnak fel.
+  private generateThemeTokens(): Record<string, ThemeTokens> | undefined {
+    if (!this.variables) return undefined;
+
+    const collections = Object.values(this.variables.variableCollections);
+    const variables = Object.values(this.variables.variables);
+    if (collections.length === 0 || variables.length === 0) return undefined;
+
+    const themed = collections.filter(collection => collection.modes.length > 1);
+    const themeModes = new Map<string, { name: string; isDefault: boolean }>();
+
+    (themed.length > 0 ? themed : collections.slice(0, 1)).forEach(collection => {
+      collection.modes.forEach(mode => {
+        const key = this.slugify(mode.name);
+        const existing = themeModes.get(key);
+        themeModes.set(key, {
+          name: mode.name,
+          isDefault: !!existing?.isDefault || mode.modeId === collection.defaultModeId,
+        });
+      });
+    });
+
+    // Ha egyik kollekcióban sem az alapmód egyezik, az első mód legyen az alap
+    const modes = Array.from(themeModes.values());
+    if (!modes.some(mode => mode.isDefault)) {
+      modes[0].isDefault = true;
+    }
+
+    const themes: Record<string, ThemeTokens> = {};
+    themeModes.forEach((mode, key) => {
+      const theme: ThemeTokens = {
+        name: mode.name,
+        isDefault: mode.isDefault,
+        colors: {},
+        spacing: {},
+        borderRadius: {},
+        typography: {},
+        other: {},
+      };
+
+      variables.forEach(variable => {
+        const value = this.resolveVariableValue(variable, key);
+        if (value === undefined) return;
+        this.addThemeToken(theme, variable, value);
+      });
+
+      themes[key] = theme;
+    });
+
+    return themes;
+  }
+
+  private resolveVariableValue(
+    variable: FigmaVariable,
+    themeKey: string,
+    seen: Set<string> = new Set()
+  ): Exclude<FigmaVariableValue, { type: 'VARIABLE_ALIAS' }> | undefined {
+    // Körkörös alias védelem
+    if (seen.has(variable.id)) return undefined;
+    seen.add(variable.id);
+
+    const collection = this.variables?.variableCollections[variable.variableCollectionId];
+    const modeId = collection ? this.getModeIdForTheme(collection, themeKey) : Object.keys(variable.valuesByMode)[0];
+    const value = variable.valuesByMode[modeId] ?? Object.values(variable.valuesByMode)[0];
+
+    if (this.isVariableAlias(value)) {
+      const target = this.variables?.variables[value.id];
+      return target ? this.resolveVariableValue(target, themeKey, seen) : undefined;
+    }
+
+    return value;
+  }
+
+  private getModeIdForTheme(collection: FigmaVariableCollection, themeKey: string): string {
+    const mode = collection.modes.find(mode => this.slugify(mode.name) === themeKey);
+    return mode?.modeId || collection.defaultModeId;
+  }
+
+  private isVariableAlias(value: FigmaVariableValue | undefined): value is { type: 'VARIABLE_ALIAS'; id: string } {
+    return typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+  }
+
+  // A variable típusa és scope-jai alapján kerül a megfelelő csoportba
+  private addThemeToken(
+    theme: ThemeTokens,
+    variable: FigmaVariable,
+    value: Exclude<FigmaVariableValue, { type: 'VARIABLE_ALIAS' }>
+  ): void {
+    const name = this.slugify(variable.name);
+    const scopes = variable.scopes || [];
+
+    if (variable.resolvedType === 'COLOR' && typeof value === 'object') {
+      theme.colors[name] = this.colorToHex(value);
+      return;
+    }
+
+    if (variable.resolvedType === 'FLOAT' && typeof value === 'number') {
+      if (scopes.includes('CORNER_RADIUS')) {
+        theme.borderRadius[name] = `${value}px`;
+      } else if (scopes.some(scope => scope === 'GAP' || scope === 'WIDTH_HEIGHT')) {
+        theme.spacing[name] = `${value}px`;
+      } else if (scopes.some(scope => scope === 'FONT_SIZE' || scope === 'LINE_HEIGHT' || scope === 'LETTER_SPACING')) {
+        theme.typography[name] = `${value}px`;
+      } else if (scopes.includes('FONT_WEIGHT')) {
+        theme.typography[name] = String(value);
+      } else {
+        theme.other[name] = String(value);
+      }
+      return;
+    }
+
+    if (variable.resolvedType === 'STRING' && scopes.some(scope => scope === 'FONT_FAMILY' || scope === 'FONT_STYLE')) {
+      theme.typography[name] = String(value);
+      return;
+    }
+
+    theme.other[name] = String(value);
+  }
+
+  private slugify(name: string): string {
+    return name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
   // Dokumentum elemzése
   private analyzeDocument(node: FigmaNode): void {
     // Színek gyűjtése
@@ -152,17 +436,10 @@ export class DesignSystemExtractor {
     }
   }
 
-  // Figma styles elemzése
+  // Figma styles elemzése: az elnevezett FILL/TEXT/EFFECT/GRID stílusok a nevükön lesznek tokenek
   private analyzeStyles(): void {
-    Object.values(this.figmaData.styles || {}).forEach(style => {
-      if (style.styleType === 'FILL') {
-        // Színstílusok feldolgozása
-      } else if (style.styleType === 'TEXT') {
-        // Szövegstílusok feldolgozása
-      } else if (style.styleType === 'EFFECT') {
-        // Effekt stílusok feldolgozása
-      }
-    });
+    const resolver = new StyleTokenResolver(this.figmaData.document, this.figmaData.styles || {});
+    this.namedStyles = resolver.hasStyles() ? resolver.getTokens() : null;
   }
 
   // Színek kinyerése node-ból
@@ -11,17 +11,24 @@ export interface FigmaNode {
   readonly fills?: readonly Paint[];
   readonly strokes?: readonly Paint[];
   readonly style?: TypeStyle;
-  readonly layoutMode?: 'VERTICAL' | 'HORIZONTAL';
+  readonly layoutMode?: 'NONE' | 'VERTICAL' | 'HORIZONTAL';
+  readonly primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  readonly counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
   readonly itemSpacing?: number;
   readonly paddingLeft?: number;
   readonly paddingRight?: number;
   readonly paddingTop?: number;
   readonly paddingBottom?: number;
+  // Figma API values (LEFT_RIGHT / TOP_BOTTOM stretch) plus the older MINIMUM / STRETCH names
   readonly constraints?: {
-    readonly horizontal?: 'MINIMUM' | 'CENTER' | 'SCALE' | 'STRETCH';
-    readonly vertical?: 'MINIMUM' | 'CENTER' | 'SCALE' | 'STRETCH';
+    readonly horizontal?: 'LEFT' | 'RIGHT' | 'LEFT_RIGHT' | 'MINIMUM' | 'CENTER' | 'SCALE' | 'STRETCH';
+    readonly vertical?: 'TOP' | 'BOTTOM' | 'TOP_BOTTOM' | 'MINIMUM' | 'CENTER' | 'SCALE' | 'STRETCH';
   };
   readonly absoluteBoundingBox?: Rectangle;
+  readonly characters?: string;
+  readonly visible?: boolean;
+  // Prototype link target; set on clickable layers
+  readonly transitionNodeID?: string;
 }
 
 export interface FigmaFile {
@@ -31,7 +38,8 @@ export interface FigmaFile {
 }
 
 export interface Paint {
-  readonly type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'IMAGE';
+  readonly type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND' | 'IMAGE' | 'EMOJI';
+  readonly visible?: boolean;
   readonly color?: RGBA;
   readonly gradientStops?: readonly GradientStop[];
   readonly opacity?: number;
@@ -54,6 +62,7 @@ export interface TypeStyle {
   readonly fontSize: number;
   readonly fontWeight: number;
   readonly lineHeight?: number;
+  readonly lineHeightPx?: number;
   readonly letterSpacing?: number;
 }
 
@@ -197,18 +206,16 @@ export class SemanticAnalyzer {
       );
 
       if (patternMatch) {
-        // Check contextual rules if present
-        if (rule.contextualRules) {
-          const contextualMatch = rule.contextualRules.find(cr => 
-            cr.condition(node, depth, parent)
-          );
-          
-          if (contextualMatch && contextualMatch.priority > highestPriority) {
-            bestMatch = rule.role;
-            highestPriority = contextualMatch.priority;
-          }
-        } else {
+        // Contextual rules raise the priority; a plain pattern match still counts with priority 0
+        const contextualMatch = rule.contextualRules?.find(cr => 
+          cr.condition(node, depth, parent)
+        );
+        const priority = contextualMatch ? contextualMatch.priority : 0;
+
+        // On equal priority the later rule wins
+        if (priority >= highestPriority) {
           bestMatch = rule.role;
+          highestPriority = priority;
         }
       }
     }
@@ -439,11 +446,13 @@ export class TypographyAnalyzer {
 
     for (const [key, style] of this.styles) {
       const styleName = this.generateStyleName(style);
+      // The REST API reports lineHeightPx with float noise (19.599999999999998)
+      const lineHeight = style.lineHeightPx ?? style.lineHeight;
       mutableScale[styleName] = {
         fontFamily: style.fontFamily,
         fontSize: `${style.fontSize}px`,
         fontWeight: style.fontWeight,
-        lineHeight: style.lineHeight ? `${style.lineHeight}px` : undefined,
+        lineHeight: lineHeight ? `${Math.round(lineHeight * 100) / 100}px` : undefined,
         letterSpacing: style.letterSpacing ? `${style.letterSpacing}px` : undefined,
         usage: style.usage as 'heading' | 'body' | 'caption' | 'button' | 'label'
       };
@@ -481,7 +490,7 @@ export class LayoutAnalyzer {
     const layout: MutableLayoutProperties = {};
 
     // Determine display type
-    if (node.layoutMode) {
+    if (node.layoutMode && node.layoutMode !== 'NONE') {
       layout.display = 'flex';
       layout.flexDirection = node.layoutMode === 'VERTICAL' ? 'column' : 'row';
       
@@ -501,13 +510,13 @@ export class LayoutAnalyzer {
     
     // Extract dimensions with responsive considerations
     if (node.constraints) {
-      if (node.constraints.horizontal === 'STRETCH') {
+      if (this.stretchesHorizontally(node)) {
         layout.width = '100%';
       } else if (node.absoluteBoundingBox) {
         layout.width = `${node.absoluteBoundingBox.width}px`;
       }
 
-      if (node.constraints.vertical === 'STRETCH') {
+      if (node.constraints.vertical === 'STRETCH' || node.constraints.vertical === 'TOP_BOTTOM') {
         layout.height = '100%';
       } else if (node.absoluteBoundingBox) {
         layout.height = `${node.absoluteBoundingBox.height}px`;
@@ -518,14 +527,25 @@ export class LayoutAnalyzer {
   }
 
   private inferJustifyContent(node: FigmaNode): string {
-    // This would analyze the actual positioning of children
-    // For now, return a sensible default
-    return 'flex-start';
+    switch (node.primaryAxisAlignItems) {
+      case 'CENTER': return 'center';
+      case 'MAX': return 'flex-end';
+      case 'SPACE_BETWEEN': return 'space-between';
+      default: return 'flex-start';
+    }
   }
 
   private inferAlignItems(node: FigmaNode): string {
-    // This would analyze cross-axis alignment
-    return 'stretch';
+    switch (node.counterAxisAlignItems) {
+      case 'CENTER': return 'center';
+      case 'MAX': return 'flex-end';
+      case 'BASELINE': return 'baseline';
+      default: return 'flex-start';
+    }
+  }
+
+  private stretchesHorizontally(node: FigmaNode): boolean {
+    return node.constraints?.horizontal === 'STRETCH' || node.constraints?.horizontal === 'LEFT_RIGHT';
   }
 
   private inferBlockDisplayType(node: FigmaNode): 'block' | 'inline-block' {
@@ -565,7 +585,7 @@ export class LayoutAnalyzer {
       const desktopRules: Record<string, string | number> = {};
 
       // Horizontal constraints
-      if (node.constraints.horizontal === 'STRETCH') {
+      if (this.stretchesHorizontally(node)) {
         mobileRules.width = '100%';
         tabletRules.width = '100%';
         desktopRules.width = '100%';
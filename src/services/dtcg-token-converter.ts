@@ -0,0 +1,681 @@
+import {
+  ColorScale,
+  DesignSystemExtractor,
+  DesignTokens,
+  GridStyleToken,
+  StyleTokens,
+  TextStyleToken,
+  ThemeTokens,
+} from './design-system-extractor';
+
+// W3C Design Tokens (DTCG) dokumentum: csoportok ($type öröklődik) és $value-s tokenek
+export interface DtcgToken {
+  $value: unknown;
+  $type?: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+export interface DtcgGroup {
+  $type?: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+interface DtcgDimension {
+  value: number;
+  unit: string;
+}
+
+interface DtcgShadow {
+  color: string;
+  offsetX: DtcgDimension;
+  offsetY: DtcgDimension;
+  blur: DtcgDimension;
+  spread: DtcgDimension;
+  inset?: boolean;
+}
+
+// Ami a DTCG típusokba veszteségesen fér bele (eredeti CSS érték, téma adatok), ide kerül
+const EXTENSION = 'com.design-system-extractor';
+
+const EASING_CURVES: Record<string, number[]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const GENERIC_FONT_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+
+const COLOR_SCALES = ['primary', 'secondary', 'neutral'] as const;
+const SEMANTIC_SCALES = ['success', 'warning', 'error', 'info'] as const;
+
+// DesignTokens ↔ W3C DTCG tokens.json. A csoportok a DesignTokens szerkezetét követik, így a
+// visszaolvasás (fromDtcg) ugyanazt adja vissza; az ismétlődő értékek aliasok ({colors.primary.500}).
+export class DtcgTokenConverter {
+  // A legutóbbi fromDtcg kihagyott vagy alapértékkel pótolt bejegyzései
+  private issues: string[] = [];
+
+  toDtcg(tokens: DesignTokens): DtcgGroup {
+    const colorPaths = this.indexColors(tokens);
+    const typography = tokens.typography;
+
+    const document: DtcgGroup = {
+      $description: 'Design tokens generated from Figma',
+      colors: {
+        $type: 'color',
+        ...Object.fromEntries(COLOR_SCALES.map(scale => [scale, this.colorGroup(tokens.colors[scale])])),
+        semantic: Object.fromEntries(SEMANTIC_SCALES.map(scale => [scale, this.colorGroup(tokens.colors.semantic[scale])])),
+        custom: this.colorGroup(tokens.colors.custom, colorPaths, 'colors.custom'),
+      },
+      typography: {
+        fontFamilies: this.group('fontFamily', typography.fontFamilies, value => this.toFontFamily(value)),
+        fontSizes: this.group('dimension', typography.fontSizes, value => this.toDimension(value)),
+        fontWeights: this.group('fontWeight', typography.fontWeights, value => value),
+        lineHeights: this.group('dimension', typography.lineHeights, value => this.toDimension(value)),
+        letterSpacing: this.group('dimension', typography.letterSpacing, value => this.toDimension(value)),
+        textStyles: {
+          $type: 'typography',
+          ...this.mapValues(typography.textStyles, token => this.toTypographyToken(token, tokens)),
+        },
+      },
+      spacing: {
+        $type: 'dimension',
+        scale: this.mapValues(tokens.spacing.scale, value => ({ $value: this.toDimension(value) })),
+        semantic: this.mapValues(tokens.spacing.semantic, value => ({ $value: this.toDimension(value) })),
+      },
+      shadows: {
+        $type: 'shadow',
+        elevation: this.mapValues(tokens.shadows.elevation, value => ({ $value: this.toShadow(value) })),
+        colored: this.mapValues(tokens.shadows.colored, value => ({ $value: this.toShadow(value) })),
+      },
+      borderRadius: this.group('dimension', tokens.borderRadius, value => this.toDimension(value)),
+      breakpoints: this.group('dimension', tokens.breakpoints, value => this.toDimension(value)),
+      animations: {
+        duration: this.group('duration', tokens.animations.duration, value => this.toDimension(value)),
+        easing: this.group('cubicBezier', tokens.animations.easing, value => this.toCubicBezier(value)),
+        // A keyframe hivatkozásoknak nincs DTCG típusa
+        $extensions: { [EXTENSION]: { keyframes: tokens.animations.keyframes } },
+      },
+    };
+
+    if (tokens.themes) {
+      document.themes = this.mapValues(tokens.themes, theme => this.toThemeGroup(theme, colorPaths));
+    }
+    if (tokens.styles) {
+      document.styles = this.toStylesGroup(tokens.styles, tokens, colorPaths);
+    }
+
+    return document;
+  }
+
+  // Aliasok feloldásával; a hiányzó csoportok üresek, így más eszközből származó fájl is beolvasható.
+  // A rögzített kulcsú csoportok (skálák, breakpointok) hiányzó lépései az alapértékeket kapják
+  fromDtcg(root: DtcgGroup): DesignTokens {
+    this.issues = [];
+    const defaults = DesignSystemExtractor.createDefaultTokens();
+    const animations = this.readGroup(root, 'animations');
+    const themes = this.childGroups(root, 'themes');
+    const styles = this.getChild(root, 'styles');
+
+    return {
+      colors: {
+        primary: this.readKeys(root, 'colors.primary', 'color', defaults.colors.primary),
+        secondary: this.readKeys(root, 'colors.secondary', 'color', defaults.colors.secondary),
+        neutral: this.readKeys(root, 'colors.neutral', 'color', defaults.colors.neutral),
+        semantic: {
+          success: this.readKeys(root, 'colors.semantic.success', 'color', defaults.colors.semantic.success),
+          warning: this.readKeys(root, 'colors.semantic.warning', 'color', defaults.colors.semantic.warning),
+          error: this.readKeys(root, 'colors.semantic.error', 'color', defaults.colors.semantic.error),
+          info: this.readKeys(root, 'colors.semantic.info', 'color', defaults.colors.semantic.info),
+        },
+        custom: this.readValues(root, 'colors.custom', 'color'),
+      },
+      typography: {
+        fontFamilies: this.readValues(root, 'typography.fontFamilies', 'fontFamily'),
+        fontSizes: this.readValues(root, 'typography.fontSizes', 'dimension'),
+        fontWeights: this.readNumbers(root, 'typography.fontWeights', 'fontWeight'),
+        lineHeights: this.readValues(root, 'typography.lineHeights', 'dimension'),
+        letterSpacing: this.readValues(root, 'typography.letterSpacing', 'dimension'),
+        textStyles: this.readTextStyles(root, 'typography.textStyles'),
+      },
+      spacing: {
+        scale: this.readValues(root, 'spacing.scale', 'dimension'),
+        semantic: this.readKeys(root, 'spacing.semantic', 'dimension', defaults.spacing.semantic),
+      },
+      shadows: {
+        elevation: this.readValues(root, 'shadows.elevation', 'shadow'),
+        colored: this.readValues(root, 'shadows.colored', 'shadow'),
+      },
+      borderRadius: this.readKeys(root, 'borderRadius', 'dimension', defaults.borderRadius),
+      breakpoints: this.readKeys(root, 'breakpoints', 'dimension', defaults.breakpoints),
+      animations: {
+        duration: this.readValues(root, 'animations.duration', 'duration'),
+        easing: this.readValues(root, 'animations.easing', 'cubicBezier'),
+        keyframes: this.readStringRecord(this.getExtension(animations)?.keyframes, 'animations.keyframes'),
+      },
+      ...(themes.length > 0 ? {
+        themes: Object.fromEntries(themes.map(key => [key, this.readTheme(root, `themes.${key}`)])),
+      } : {}),
+      ...(styles ? { styles: this.readStyles(root) } : {}),
+    };
+  }
+
+  // A legutóbbi fromDtcg hibás, ismeretlen vagy hiányzó bejegyzései ("<útvonal>: <ok>")
+  getIssues(): string[] {
+    return [...this.issues];
+  }
+
+  // --- Export ---
+
+  private group<V extends object>(type: string, values: V, convert: (value: V[keyof V]) => unknown): DtcgGroup {
+    return { $type: type, ...this.mapValues(values, value => ({ $value: convert(value) })) };
+  }
+
+  // A már máshol szereplő szín alias lesz, kivéve ha önmagára mutatna
+  private colorGroup(values: Record<string, string> | ColorScale, paths?: Map<string, string>, ownPath?: string): DtcgGroup {
+    return this.mapValues(values, (value: string, key) => {
+      const path = paths?.get(value.toLowerCase());
+      const alias = path && path !== `${ownPath}.${key}` ? `{${path}}` : undefined;
+      return { $value: alias || this.toColor(value) };
+    });
+  }
+
+  // Színérték → első előfordulás útvonala (skálák, majd saját színek)
+  private indexColors(tokens: DesignTokens): Map<string, string> {
+    const paths = new Map<string, string>();
+    const add = (path: string, value: string) => {
+      if (!paths.has(value.toLowerCase())) paths.set(value.toLowerCase(), path);
+    };
+
+    COLOR_SCALES.forEach(scale => Object.entries(tokens.colors[scale]).forEach(([step, value]) => add(`colors.${scale}.${step}`, value)));
+    SEMANTIC_SCALES.forEach(scale => {
+      Object.entries(tokens.colors.semantic[scale]).forEach(([step, value]) => add(`colors.semantic.${scale}.${step}`, value));
+    });
+    Object.entries(tokens.colors.custom).forEach(([name, value]) => add(`colors.custom.${name}`, value));
+    return paths;
+  }
+
+  // A betűcsalád, méret és vastagság alias, ha van ilyen token; a CSS sormagasság és a kisbetű/nagybetű kiterjesztésben
+  private toTypographyToken(token: TextStyleToken, tokens: DesignTokens): DtcgToken {
+    const typography = tokens.typography;
+    const aliasFor = (group: string, values: Record<string, string | number>, value: string | number) => {
+      const key = Object.keys(values).find(candidate => values[candidate] === value);
+      return key !== undefined ? `{typography.${group}.${key}}` : undefined;
+    };
+    const fontSize = parseFloat(token.fontSize);
+
+    return {
+      $value: {
+        fontFamily: aliasFor('fontFamilies', typography.fontFamilies, token.fontFamily) || this.toFontFamily(token.fontFamily),
+        fontSize: aliasFor('fontSizes', typography.fontSizes, token.fontSize) || this.toDimension(token.fontSize),
+        fontWeight: aliasFor('fontWeights', typography.fontWeights, token.fontWeight) || token.fontWeight,
+        letterSpacing: this.toDimension(token.letterSpacing),
+        lineHeight: token.lineHeight.endsWith('px') && fontSize
+          ? Math.round(parseFloat(token.lineHeight) / fontSize * 1000) / 1000
+          : parseFloat(token.lineHeight) || 1.2,
+      },
+      $extensions: {
+        [EXTENSION]: {
+          lineHeight: token.lineHeight,
+          ...(token.textTransform ? { textTransform: token.textTransform } : {}),
+        },
+      },
+    };
+  }
+
+  private toThemeGroup(theme: ThemeTokens, colorPaths: Map<string, string>): DtcgGroup {
+    const strings: Record<string, Record<string, string>> = {};
+    const typed = (groupName: 'typography' | 'other', values: Record<string, string>): DtcgGroup => {
+      const group: DtcgGroup = {};
+      Object.entries(values).forEach(([name, value]) => {
+        const token = this.toUntypedToken(value);
+        if (token) {
+          group[name] = token;
+        } else {
+          strings[groupName] = { ...strings[groupName], [name]: value };
+        }
+      });
+      return group;
+    };
+
+    return {
+      $description: theme.name,
+      colors: { $type: 'color', ...this.colorGroup(theme.colors, colorPaths) },
+      spacing: this.group('dimension', theme.spacing, value => this.toDimension(value)),
+      borderRadius: this.group('dimension', theme.borderRadius, value => this.toDimension(value)),
+      typography: typed('typography', theme.typography),
+      other: typed('other', theme.other),
+      $extensions: { [EXTENSION]: { isDefault: theme.isDefault, ...(Object.keys(strings).length > 0 ? { strings } : {}) } },
+    };
+  }
+
+  // Variable értékek típus nélkül: szín, méret vagy szám; a többi (szöveg) nem DTCG token
+  private toUntypedToken(value: string): DtcgToken | undefined {
+    if (this.isColor(value)) return { $type: 'color', $value: this.toColor(value) };
+    if (/^-?\d+(\.\d+)?(px|rem)$/.test(value)) return { $type: 'dimension', $value: this.toDimension(value) };
+    if (/^-?\d+(\.\d+)?$/.test(value)) return { $type: 'number', $value: Number(value) };
+    return undefined;
+  }
+
+  private toStylesGroup(styles: StyleTokens, tokens: DesignTokens, colorPaths: Map<string, string>): DtcgGroup {
+    const colors: DtcgGroup = { $type: 'color' };
+    Object.entries(styles.colors).forEach(([name, value]) => {
+      if (/^(linear|radial|conic)-gradient\(/.test(value)) {
+        colors[name] = { $type: 'gradient', $value: this.toGradient(value), $extensions: { [EXTENSION]: { css: value } } };
+      } else {
+        const path = colorPaths.get(value.toLowerCase());
+        colors[name] = { $value: path ? `{${path}}` : this.toColor(value) };
+      }
+    });
+
+    return {
+      colors,
+      textStyles: { $type: 'typography', ...this.mapValues(styles.textStyles, token => this.toTypographyToken(token, tokens)) },
+      shadows: { $type: 'shadow', ...this.mapValues(styles.shadows, value => ({ $value: this.toShadow(value) })) },
+      grids: this.mapValues(styles.grids, grid => ({
+        gutter: { $type: 'dimension', $value: this.toDimension(grid.gutter) },
+        margin: { $type: 'dimension', $value: this.toDimension(grid.margin) },
+        columns: {
+          $type: 'number',
+          $value: Number(grid.columns.match(/repeat\((\d+)/)?.[1] || 1),
+          $extensions: { [EXTENSION]: { css: grid.columns } },
+        },
+      })),
+    };
+  }
+
+  // #rrggbb változatlan, rgba() → #rrggbbaa
+  private toColor(value: string): string {
+    const rgba = value.match(/^rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\s*\)$/);
+    if (!rgba) return value;
+    const channels = [rgba[1], rgba[2], rgba[3]].map(channel => Number(channel).toString(16).padStart(2, '0'));
+    const alpha = rgba[4] !== undefined ? Math.round(Number(rgba[4]) * 255) : 255;
+    return `#${channels.join('')}${alpha < 255 ? alpha.toString(16).padStart(2, '0') : ''}`;
+  }
+
+  private isColor(value: string): boolean {
+    return /^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value) || /^rgba?\(/.test(value);
+  }
+
+  // "24px" → { value: 24, unit: "px" }; a "normal" betűköz 0
+  private toDimension(value: string): DtcgDimension {
+    const match = value.match(/^(-?\d+(?:\.\d+)?)([a-z%]*)$/);
+    return match ? { value: Number(match[1]), unit: match[2] || 'px' } : { value: 0, unit: 'px' };
+  }
+
+  // '"Inter", sans-serif' → ["Inter", "sans-serif"]
+  private toFontFamily(value: string): string | string[] {
+    const families = value.split(',').map(family => family.trim().replace(/^["']|["']$/g, ''));
+    return families.length === 1 ? families[0] : families;
+  }
+
+  private toCubicBezier(value: string): number[] {
+    if (EASING_CURVES[value]) return EASING_CURVES[value];
+    const match = value.match(/^cubic-bezier\(([^)]+)\)$/);
+    return match ? match[1].split(',').map(Number) : EASING_CURVES.ease;
+  }
+
+  // CSS box-shadow lista → DTCG shadow (egy vagy több réteg)
+  private toShadow(value: string): DtcgShadow | DtcgShadow[] {
+    const layers = this.splitTopLevel(value).map(layer => {
+      const inset = /^inset\s/.test(layer);
+      const parts = layer.replace(/^inset\s+/, '');
+      const colorStart = parts.search(/(#|rgba?\(|[a-z]+$)/);
+      const lengths = parts.slice(0, colorStart).trim().split(/\s+/).filter(Boolean);
+      const [offsetX = '0px', offsetY = '0px', blur = '0px', spread = '0px'] = lengths;
+
+      return {
+        color: this.toColor(parts.slice(colorStart).trim()),
+        offsetX: this.toDimension(offsetX),
+        offsetY: this.toDimension(offsetY),
+        blur: this.toDimension(blur),
+        spread: this.toDimension(spread),
+        ...(inset ? { inset: true } : {}),
+      };
+    });
+    return layers.length === 1 ? layers[0] : layers;
+  }
+
+  private toGradient(value: string): Array<{ color: string; position: number }> {
+    const inner = value.slice(value.indexOf('(') + 1, value.lastIndexOf(')'));
+    // Az irány/alak (180deg, ellipse ... at ..., from ...) kimarad, csak a színstopok maradnak
+    return this.splitTopLevel(inner)
+      .filter(part => /^(#|rgba?\()/.test(part))
+      .map(stop => {
+        const position = stop.match(/\s(-?\d+(?:\.\d+)?)%$/);
+        return {
+          color: this.toColor(position ? stop.slice(0, position.index).trim() : stop),
+          position: position ? Number(position[1]) / 100 : 0,
+        };
+      });
+  }
+
+  // Vesszők mentén, a zárójeleken belülieket kihagyva
+  private splitTopLevel(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+  }
+
+  // --- Import ---
+
+  private readValues(root: DtcgGroup, path: string, fallbackType: string): Record<string, string> {
+    const group = this.readGroup(root, path);
+    const values: Record<string, string> = {};
+    if (!group) return values;
+
+    Object.keys(group).filter(key => !key.startsWith('$')).forEach(key => {
+      const resolved = this.readToken(root, `${path}.${key}`, fallbackType);
+      if (resolved) values[key] = String(this.fromDtcgValue(resolved.value, resolved.type, resolved.token));
+    });
+    return values;
+  }
+
+  // Rögzített kulcsú csoport (ColorScale, BreakpointTokens...): csak a várt kulcsok, a hiányzók az alapértékkel
+  private readKeys<K extends string | number>(root: DtcgGroup, path: string, fallbackType: string, defaults: Record<K, string>): Record<K, string> {
+    const group = this.readGroup(root, path);
+    const values = this.readValues(root, path, fallbackType);
+    const result = { ...defaults };
+    const keys = Object.keys(defaults);
+
+    Object.keys(values).filter(key => !keys.includes(key)).forEach(key => this.report(`${path}.${key}`, 'ismeretlen kulcs, kihagyva'));
+    (Object.keys(result) as K[]).forEach(key => {
+      const value = values[String(key)];
+      if (value !== undefined) {
+        result[key] = value;
+      } else if (group && !(String(key) in group)) {
+        // A hibás értékű lépést a readToken már jelentette
+        this.report(`${path}.${String(key)}`, 'hiányzik, az alapérték marad');
+      }
+    });
+    return result;
+  }
+
+  private readNumbers(root: DtcgGroup, path: string, fallbackType: string): Record<string, number> {
+    const numbers: Record<string, number> = {};
+    Object.entries(this.readValues(root, path, fallbackType)).forEach(([key, value]) => {
+      if (isNaN(Number(value))) {
+        this.report(`${path}.${key}`, `nem szám (${value}), kihagyva`);
+      } else {
+        numbers[key] = Number(value);
+      }
+    });
+    return numbers;
+  }
+
+  // Kiterjesztésben tárolt név → szöveg térkép; a nem szöveges bejegyzések kimaradnak
+  private readStringRecord(value: unknown, path: string): Record<string, string> {
+    const record: Record<string, string> = {};
+    if (value === undefined) return record;
+    if (!this.isRecord(value)) {
+      this.report(path, 'nem objektum, kihagyva');
+      return record;
+    }
+
+    Object.entries(value).forEach(([key, entry]) => {
+      if (typeof entry === 'string') {
+        record[key] = entry;
+      } else {
+        this.report(`${path}.${key}`, 'nem szöveg, kihagyva');
+      }
+    });
+    return record;
+  }
+
+  // Feloldott token, ha az értéke illik a típusához; a feloldhatatlan alias és a hibás érték kimarad
+  private readToken(root: DtcgGroup, path: string, fallbackType: string): { value: unknown; type: string; token: DtcgToken } | undefined {
+    const token = this.getChild(root, path);
+    // Alcsoport (nincs $value): nem token
+    if (!this.isRecord(token) || !('$value' in token)) return undefined;
+
+    const resolved = this.resolveToken(root, path);
+    if (!resolved) {
+      this.report(path, 'feloldhatatlan alias, kihagyva');
+      return undefined;
+    }
+
+    const type = resolved.type || fallbackType;
+    if (typeof this.getExtension(resolved.token)?.css !== 'string' && !this.isValidValue(resolved.value, type)) {
+      this.report(path, `érvénytelen ${type} érték, kihagyva`);
+      return undefined;
+    }
+    return { ...resolved, type };
+  }
+
+  private readTextStyles(root: DtcgGroup, path: string): Record<string, TextStyleToken> {
+    const group = this.readGroup(root, path);
+    const styles: Record<string, TextStyleToken> = {};
+    if (!group) return styles;
+
+    Object.keys(group).filter(key => !key.startsWith('$')).forEach(key => {
+      const resolved = this.readToken(root, `${path}.${key}`, 'typography');
+      if (resolved && this.isRecord(resolved.value)) styles[key] = this.fromTypography(root, resolved.value, resolved.token);
+    });
+    return styles;
+  }
+
+  private fromTypography(root: DtcgGroup, value: Record<string, unknown>, token: DtcgToken): TextStyleToken {
+    const extension = this.getExtension(token);
+    const field = (name: string, type: string) => {
+      const raw = value[name];
+      if (typeof raw === 'string' && this.isAlias(raw)) {
+        const resolved = this.resolveToken(root, raw.slice(1, -1));
+        return resolved ? this.fromDtcgValue(resolved.value, type, resolved.token) : undefined;
+      }
+      return raw === undefined ? undefined : this.fromDtcgValue(raw, type);
+    };
+
+    const fontSize = String(field('fontSize', 'dimension') ?? '16px');
+    const letterSpacing = String(field('letterSpacing', 'dimension') ?? '0px');
+    const lineHeight = (typeof extension?.lineHeight === 'string' ? extension.lineHeight : undefined)
+      ?? (typeof value.lineHeight === 'number' ? `${Math.round(value.lineHeight * parseFloat(fontSize) * 100) / 100}px` : '1.5');
+
+    return {
+      fontFamily: String(field('fontFamily', 'fontFamily') ?? 'sans-serif'),
+      fontSize,
+      fontWeight: Number(field('fontWeight', 'fontWeight') ?? 400),
+      lineHeight,
+      // A 0 betűköz a kinyert tokenekben "normal"
+      letterSpacing: parseFloat(letterSpacing) === 0 ? 'normal' : letterSpacing,
+      ...(typeof extension?.textTransform === 'string' ? { textTransform: extension.textTransform } : {}),
+    };
+  }
+
+  private readTheme(root: DtcgGroup, path: string): ThemeTokens {
+    const group = this.readGroup(root, path)!;
+    const extension = this.getExtension(group);
+    const strings = this.isRecord(extension?.strings) ? extension.strings : {};
+    const untyped = (name: 'typography' | 'other') => ({
+      ...this.readValues(root, `${path}.${name}`, 'number'),
+      ...this.readStringRecord(strings[name], `${path}.${name}`),
+    });
+
+    return {
+      name: group.$description || path.split('.').pop()!,
+      isDefault: !!extension?.isDefault,
+      colors: this.readValues(root, `${path}.colors`, 'color'),
+      spacing: this.readValues(root, `${path}.spacing`, 'dimension'),
+      borderRadius: this.readValues(root, `${path}.borderRadius`, 'dimension'),
+      typography: untyped('typography'),
+      other: untyped('other'),
+    };
+  }
+
+  private readStyles(root: DtcgGroup): StyleTokens {
+    const grids: Record<string, GridStyleToken> = {};
+    this.childGroups(root, 'styles.grids').forEach(name => {
+      const path = `styles.grids.${name}`;
+      const columns = this.readToken(root, `${path}.columns`, 'number');
+      const count = columns ? Number(columns.value) : 1;
+      const css = this.getExtension(columns?.token)?.css;
+      grids[name] = {
+        columns: typeof css === 'string' ? css : `repeat(${count}, minmax(0, 1fr))`,
+        gutter: this.readValues(root, path, 'dimension').gutter || '0px',
+        margin: this.readValues(root, path, 'dimension').margin || '0px',
+      };
+    });
+
+    return {
+      colors: this.readValues(root, 'styles.colors', 'color'),
+      textStyles: this.readTextStyles(root, 'styles.textStyles'),
+      shadows: this.readValues(root, 'styles.shadows', 'shadow'),
+      grids,
+    };
+  }
+
+  // Token feloldása útvonal alapján, aliasláncokkal; a típus a tokené vagy a legközelebbi csoporté
+  private resolveToken(root: DtcgGroup, path: string, depth = 0): { value: unknown; type?: string; token: DtcgToken } | undefined {
+    const token = this.getChild(root, path) as DtcgToken | undefined;
+    if (!token || !('$value' in token) || depth > 10) return undefined;
+
+    if (typeof token.$value === 'string' && this.isAlias(token.$value)) {
+      const target = this.resolveToken(root, token.$value.slice(1, -1), depth + 1);
+      return target ? { ...target, type: token.$type || target.type } : undefined;
+    }
+    return { value: token.$value, type: token.$type || this.inheritedType(root, path), token };
+  }
+
+  private inheritedType(root: DtcgGroup, path: string): string | undefined {
+    const segments = path.split('.');
+    for (let length = segments.length - 1; length > 0; length--) {
+      const group = this.getChild(root, segments.slice(0, length).join('.')) as DtcgGroup | undefined;
+      if (group?.$type) return group.$type;
+    }
+    return undefined;
+  }
+
+  // DTCG érték → a DesignTokens-ben használt CSS érték
+  private fromDtcgValue(value: unknown, type: string, token?: DtcgToken): string | number {
+    const css = this.getExtension(token)?.css;
+    if (typeof css === 'string') return css;
+
+    switch (type) {
+      case 'color':
+        return this.fromColor(value);
+      case 'dimension':
+      case 'duration':
+        return typeof value === 'object' && value !== null
+          ? `${(value as DtcgDimension).value}${(value as DtcgDimension).unit}`
+          : String(value);
+      case 'fontFamily':
+        return Array.isArray(value)
+          ? value.map(family => GENERIC_FONT_FAMILIES.has(family) ? family : `"${family}"`).join(', ')
+          : String(value);
+      case 'fontWeight':
+      case 'number':
+        return typeof value === 'number' ? value : String(value);
+      case 'cubicBezier': {
+        const curve = (value as number[]).join(',');
+        const keyword = Object.keys(EASING_CURVES).find(name => EASING_CURVES[name].join(',') === curve);
+        return keyword || `cubic-bezier(${(value as number[]).join(', ')})`;
+      }
+      case 'shadow':
+        return (Array.isArray(value) ? value : [value]).map((shadow: DtcgShadow) => {
+          const length = (dimension: DtcgDimension) => `${dimension.value}${dimension.unit}`;
+          return `${shadow.inset ? 'inset ' : ''}${length(shadow.offsetX)} ${length(shadow.offsetY)} ${length(shadow.blur)} ${length(shadow.spread)} ${this.fromColor(shadow.color)}`;
+        }).join(', ');
+      case 'gradient':
+        return `linear-gradient(180deg, ${(value as Array<{ color: unknown; position: number }>)
+          .map(stop => `${this.fromColor(stop.color)} ${Math.round(stop.position * 100)}%`)
+          .join(', ')})`;
+      default:
+        return String(value);
+    }
+  }
+
+  // #rrggbbaa → rgba(); a színtér objektum (2025-ös DTCG) sRGB komponensekből
+  private fromColor(value: unknown): string {
+    if (typeof value === 'object' && value !== null && 'components' in value) {
+      const { components, alpha = 1 } = value as { components: number[]; alpha?: number };
+      const [r, g, b] = components.map(component => Math.round(component * 255));
+      return alpha < 1 ? `rgba(${r}, ${g}, ${b}, ${alpha})` : `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+    }
+
+    const hex = String(value).match(/^#([0-9a-f]{6})([0-9a-f]{2})$/i);
+    if (!hex) return String(value);
+    const [r, g, b] = [0, 2, 4].map(offset => parseInt(hex[1].slice(offset, offset + 2), 16));
+    return `rgba(${r}, ${g}, ${b}, ${Math.round(parseInt(hex[2], 16) / 255 * 100) / 100})`;
+  }
+
+  // A $value alakja a DTCG típus szerint (a fromDtcgValue ezekre az alakokra számít)
+  private isValidValue(value: unknown, type: string): boolean {
+    const isDimension = (candidate: unknown) => typeof candidate === 'string' || typeof candidate === 'number'
+      || (this.isRecord(candidate) && typeof candidate.value === 'number' && typeof candidate.unit === 'string');
+
+    switch (type) {
+      case 'color':
+        return typeof value === 'string' || (this.isRecord(value) && Array.isArray(value.components));
+      case 'dimension':
+      case 'duration':
+        return isDimension(value);
+      case 'fontFamily':
+        return typeof value === 'string' || (Array.isArray(value) && value.every(family => typeof family === 'string'));
+      case 'fontWeight':
+      case 'number':
+        return typeof value === 'number' || typeof value === 'string';
+      case 'cubicBezier':
+        return Array.isArray(value) && value.length === 4 && value.every(point => typeof point === 'number');
+      case 'shadow':
+        return (Array.isArray(value) ? value : [value]).every(shadow => this.isRecord(shadow)
+          && ['offsetX', 'offsetY', 'blur', 'spread'].every(key => this.isRecord(shadow[key]) && isDimension(shadow[key])));
+      case 'gradient':
+        return Array.isArray(value) && value.every(stop => this.isRecord(stop) && typeof stop.position === 'number');
+      case 'typography':
+        return this.isRecord(value);
+      default:
+        return value !== null && typeof value !== 'object';
+    }
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private report(path: string, reason: string): void {
+    this.issues.push(`${path}: ${reason}`);
+  }
+
+  private isAlias(value: string): boolean {
+    return /^\{[^{}]+\}$/.test(value);
+  }
+
+  private readGroup(root: DtcgGroup, path: string): DtcgGroup | undefined {
+    return this.getChild(root, path) as DtcgGroup | undefined;
+  }
+
+  private getChild(root: DtcgGroup, path: string): unknown {
+    return path.split('.').reduce<unknown>((node, key) => (
+      this.isRecord(node) ? node[key] : undefined
+    ), root);
+  }
+
+  private childGroups(root: DtcgGroup, path: string): string[] {
+    const group = this.readGroup(root, path);
+    return group ? Object.keys(group).filter(key => !key.startsWith('$')) : [];
+  }
+
+  private getExtension(node?: DtcgGroup | DtcgToken): Record<string, unknown> | undefined {
+    const extension = node?.$extensions?.[EXTENSION];
+    return this.isRecord(extension) ? extension : undefined;
+  }
+
+  private mapValues<V extends object, R>(values: V, convert: (value: V[keyof V], key: string) => R): Record<string, R> {
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, convert(value, key)]));
+  }
+}
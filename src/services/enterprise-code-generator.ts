@@ -1,7 +1,12 @@
-import { FigmaNode, FigmaApiResponse, GeneratedComponent, ComponentMetadata } from '../types/figma';
+import { FigmaNode, FigmaApiResponse, FigmaLibrary, GeneratedComponent, ComponentMetadata } from '../types/figma';
 import { PerformanceOptimizer, OptimizationConfig } from './performance-optimizer';
 import { ComponentLibraryManager } from './component-library-manager';
 import { CSSArchitectManager } from './css-architect-manager';
+import { SvelteGenerator } from './svelte-generator';
+import { AngularGenerator } from './angular-generator';
+import { VueGenerator } from './vue-generator';
+import { StyleTokenResolver } from './style-token-resolver';
+import { LibraryInstanceResolver } from './library-instance-resolver';
 
 export interface EnterpriseGenerationConfig {
   // Performance Settings
@@ -105,6 +110,13 @@ export class EnterpriseCodeGenerator {
   private optimizer: PerformanceOptimizer;
   private libraryManager: ComponentLibraryManager;
   private cssArchitect: CSSArchitectManager;
+  // Named styles of the file being generated; set per generateComponents() run
+  private styleTokens?: StyleTokenResolver;
+  // Published team/file library; its instances render as the library component
+  private library: FigmaLibrary | null = null;
+  private libraryInstances?: LibraryInstanceResolver;
+  // imageRef → URL map (FigmaApiService.getImageFills); without it images stay as src/alt props
+  private imageFills: Record<string, string> = {};
 
   constructor(config: EnterpriseGenerationConfig) {
     this.config = config;
@@ -113,6 +125,15 @@ export class EnterpriseCodeGenerator {
     this.cssArchitect = new CSSArchitectManager(config.cssArchitecture);
   }
 
+  // Library loaded on the Design System panel (FigmaApiService.getTeamLibrary / getFileLibrary)
+  setLibrary(library: FigmaLibrary | null) {
+    this.library = library;
+  }
+
+  setImageFills(imageFills: Record<string, string>) {
+    this.imageFills = imageFills;
+  }
+
   // Main Generation Pipeline
   async generateEnterprise(figmaData: FigmaApiResponse): Promise<GenerationResult> {
     console.log('🚀 Starting Enterprise Code Generation Pipeline...');
@@ -187,6 +208,9 @@ export class EnterpriseCodeGenerator {
   // Component Generation with Enterprise Features
   private generateComponents(figmaData: FigmaApiResponse): GeneratedComponent[] {
     const components: GeneratedComponent[] = [];
+    this.styleTokens = new StyleTokenResolver(figmaData.document, figmaData.styles);
+    this.cssArchitect.setStyleTokens(this.styleTokens);
+    this.libraryInstances = this.library ? new LibraryInstanceResolver(figmaData, this.library) : undefined;
 
     // Process main components
     Object.entries(figmaData.components || {}).forEach(([key, component]) => {
@@ -204,6 +228,15 @@ export class EnterpriseCodeGenerator {
       components.push(layoutComponent);
     });
 
+    // Record the source branch so output can be traced back before merge
+    if (figmaData.branchKey) {
+      components.forEach(component => {
+        if (component.metadata) {
+          component.metadata.figmaBranchKey = figmaData.branchKey;
+        }
+      });
+    }
+
     return components;
   }
 
@@ -237,19 +270,24 @@ export class EnterpriseCodeGenerator {
   }
 
   private generateEnterpriseJSX(node: FigmaNode, componentName: string): string {
+    // Vue, Svelte and Angular render the node tree with the shared markup core
+    if (this.config.framework !== 'react') {
+      const generator = this.config.framework === 'vue'
+        ? new VueGenerator(this.imageFills, this.styleTokens, this.libraryInstances)
+        : this.config.framework === 'svelte'
+          ? new SvelteGenerator(this.imageFills, this.styleTokens, this.libraryInstances)
+          : new AngularGenerator(this.imageFills, this.styleTokens, this.libraryInstances);
+      return generator.generate(node, {
+        componentName,
+        tailwind: this.config.styling === 'tailwind',
+      }).code;
+    }
+
     const props = this.extractEnterpriseProps(node);
     const children = this.generateEnterpriseChildren(node);
     const hooks = this.generateRequiredHooks(node);
     const imports = this.generateEnterpriseImports(node);
 
-    if (this.config.framework === 'react') {
-      return this.generateReactComponent(componentName, props, children, hooks, imports);
-    } else if (this.config.framework === 'vue') {
-      return this.generateVueComponent(componentName, props, children);
-    } else if (this.config.framework === 'angular') {
-      return this.generateAngularComponent(componentName, props, children);
-    }
-
     return this.generateReactComponent(componentName, props, children, hooks, imports);
   }
 
@@ -611,53 +649,6 @@ export type ${componentName}Ref = HTMLDivElement;
     return deps;
   }
 
-  private generateVueComponent(componentName: string, props: any[], children: string): string {
-    return `
-<template>
-  <div class="${componentName.toLowerCase()}">
-    ${children}
-  </div>
-</template>
-
-<script lang="ts" setup>
-interface Props {
-  ${props.map(p => `${p.name}?: ${p.type}`).join('\n  ')}
-}
-
-defineProps<Props>()
-</script>
-
-<style scoped>
-.${componentName.toLowerCase()} {
-  /* Component styles */
-}
-</style>
-`;
-  }
-
-  private generateAngularComponent(componentName: string, props: any[], children: string): string {
-    return `
-import { Component, Input } from '@angular/core';
-
-@Component({
-  selector: 'app-${componentName.toLowerCase()}',
-  template: \`
-    <div class="${componentName.toLowerCase()}">
-      ${children}
-    </div>
-  \`,
-  styles: [\`
-    .${componentName.toLowerCase()} {
-      /* Component styles */
-    }
-  \`]
-})
-export class ${componentName}Component {
-  ${props.map(p => `@Input() ${p.name}?: ${p.type};`).join('\n  ')}
-}
-`;
-  }
-
   private generatePropsInterface(props: any[], componentName: string): string {
     return `
 interface ${componentName}Props {
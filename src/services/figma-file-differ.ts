@@ -0,0 +1,218 @@
+import { FigmaFile, FigmaNode } from '../types/figma';
+
+export type FigmaNodeChangeType = 'added' | 'removed' | 'moved' | 'restyled';
+
+export interface FigmaNodeChange {
+  type: FigmaNodeChangeType;
+  nodeId: string;
+  name: string;
+  nodeType: string;
+  // A legfelső frame/komponens, amelyben a változás történt
+  rootId: string | null;
+  fromParentId?: string;
+  toParentId?: string;
+  changedProperties?: string[];
+}
+
+export interface FigmaFileDiff {
+  fromVersion: string;
+  toVersion: string;
+  added: FigmaNodeChange[];
+  removed: FigmaNodeChange[];
+  moved: FigmaNodeChange[];
+  restyled: FigmaNodeChange[];
+  affectedRootIds: string[];
+  affectedNodeIds: string[];
+  hasChanges: boolean;
+}
+
+interface IndexedNode {
+  node: FigmaNode;
+  parentId: string | null;
+  rootId: string | null;
+}
+
+// Stílust és megjelenést befolyásoló mezők, ezek változása "restyled"
+const STYLE_PROPERTIES: Array<keyof FigmaNode> = [
+  'fills',
+  'strokes',
+  'strokeWeight',
+  'strokeAlign',
+  'strokeDashes',
+  'effects',
+  'opacity',
+  'blendMode',
+  'visible',
+  'cornerRadius',
+  'rectangleCornerRadii',
+  'styles',
+  'style',
+  'characters',
+  'characterStyleOverrides',
+  'styleOverrideTable',
+  'layoutMode',
+  'layoutWrap',
+  'layoutSizingHorizontal',
+  'layoutSizingVertical',
+  'primaryAxisAlignItems',
+  'counterAxisAlignItems',
+  'paddingLeft',
+  'paddingRight',
+  'paddingTop',
+  'paddingBottom',
+  'itemSpacing',
+  'constraints',
+  'componentProperties',
+  'vectorPaths',
+];
+
+export class FigmaFileDiffer {
+  // Két FigmaFile dokumentum strukturális összehasonlítása
+  diff(previous: FigmaFile, current: FigmaFile): FigmaFileDiff {
+    const before = this.indexDocument(previous.document);
+    const after = this.indexDocument(current.document);
+
+    const added: FigmaNodeChange[] = [];
+    const removed: FigmaNodeChange[] = [];
+    const moved: FigmaNodeChange[] = [];
+    const restyled: FigmaNodeChange[] = [];
+
+    after.forEach((entry, id) => {
+      const old = before.get(id);
+
+      if (!old) {
+        // Csak a beszúrt részfa gyökerét jelentjük, a gyerekei vele együtt érkeztek
+        if (!entry.parentId || before.has(entry.parentId)) {
+          added.push(this.createChange('added', entry, { toParentId: entry.parentId ?? undefined }));
+        }
+        return;
+      }
+
+      if (old.parentId !== entry.parentId || this.positionChanged(old, entry, before, after)) {
+        moved.push(this.createChange('moved', entry, {
+          fromParentId: old.parentId ?? undefined,
+          toParentId: entry.parentId ?? undefined,
+        }));
+      }
+
+      const changedProperties = STYLE_PROPERTIES.filter(
+        property => !this.isEqual(old.node[property], entry.node[property])
+      );
+      if (this.sizeChanged(old.node, entry.node)) {
+        changedProperties.push('size');
+      }
+      if (changedProperties.length > 0) {
+        restyled.push(this.createChange('restyled', entry, { changedProperties }));
+      }
+    });
+
+    before.forEach((entry, id) => {
+      if (after.has(id)) return;
+      if (!entry.parentId || after.has(entry.parentId)) {
+        removed.push(this.createChange('removed', entry, { fromParentId: entry.parentId ?? undefined }));
+      }
+    });
+
+    // Az érintett node-ok mindig az új dokumentumra vonatkoznak, eltávolításnál a szülő
+    const affectedNodeIds = new Set<string>();
+    const affectedRootIds = new Set<string>();
+
+    [...added, ...moved, ...restyled].forEach(change => {
+      affectedNodeIds.add(change.nodeId);
+      if (change.rootId) affectedRootIds.add(change.rootId);
+    });
+
+    removed.forEach(change => {
+      if (change.fromParentId && after.has(change.fromParentId)) {
+        affectedNodeIds.add(change.fromParentId);
+        const rootId = after.get(change.fromParentId)?.rootId;
+        if (rootId) affectedRootIds.add(rootId);
+      }
+    });
+
+    return {
+      fromVersion: previous.version,
+      toVersion: current.version,
+      added,
+      removed,
+      moved,
+      restyled,
+      affectedRootIds: Array.from(affectedRootIds),
+      affectedNodeIds: Array.from(affectedNodeIds),
+      hasChanges: added.length + removed.length + moved.length + restyled.length > 0,
+    };
+  }
+
+  // Node-ok indexelése azonosító szerint, szülővel és gyökér frame-mel
+  private indexDocument(document: FigmaNode): Map<string, IndexedNode> {
+    const index = new Map<string, IndexedNode>();
+
+    const visit = (node: FigmaNode, parent: FigmaNode | null, rootId: string | null) => {
+      // Az oldalak (CANVAS) közvetlen gyerekei a generálható gyökerek
+      const nodeRootId = rootId ?? (parent?.type === 'CANVAS' ? node.id : null);
+
+      index.set(node.id, {
+        node,
+        parentId: parent?.id ?? null,
+        rootId: nodeRootId,
+      });
+
+      node.children?.forEach(child => visit(child, node, nodeRootId));
+    };
+
+    if (document) {
+      visit(document, null, null);
+    }
+
+    return index;
+  }
+
+  private createChange(
+    type: FigmaNodeChangeType,
+    entry: IndexedNode,
+    extra: Partial<FigmaNodeChange> = {}
+  ): FigmaNodeChange {
+    return {
+      type,
+      nodeId: entry.node.id,
+      name: entry.node.name,
+      nodeType: entry.node.type,
+      rootId: entry.rootId,
+      ...extra,
+    };
+  }
+
+  // Szülőhöz viszonyított elmozdulás, hogy a szülő mozgatása ne jelölje a gyerekeket is
+  private positionChanged(
+    old: IndexedNode,
+    current: IndexedNode,
+    before: Map<string, IndexedNode>,
+    after: Map<string, IndexedNode>
+  ): boolean {
+    const oldBox = old.node.absoluteBoundingBox;
+    const newBox = current.node.absoluteBoundingBox;
+    if (!oldBox || !newBox) return false;
+
+    const oldParentBox = old.parentId ? before.get(old.parentId)?.node.absoluteBoundingBox : undefined;
+    const newParentBox = current.parentId ? after.get(current.parentId)?.node.absoluteBoundingBox : undefined;
+
+    const oldX = oldBox.x - (oldParentBox?.x ?? 0);
+    const oldY = oldBox.y - (oldParentBox?.y ?? 0);
+    const newX = newBox.x - (newParentBox?.x ?? 0);
+    const newY = newBox.y - (newParentBox?.y ?? 0);
+
+    return Math.abs(oldX - newX) > 0.5 || Math.abs(oldY - newY) > 0.5;
+  }
+
+  private sizeChanged(previous: FigmaNode, current: FigmaNode): boolean {
+    const oldBox = previous.absoluteBoundingBox;
+    const newBox = current.absoluteBoundingBox;
+    if (!oldBox || !newBox) return !!oldBox !== !!newBox;
+
+    return Math.abs(oldBox.width - newBox.width) > 0.5 || Math.abs(oldBox.height - newBox.height) > 0.5;
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
@@ -0,0 +1,185 @@
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureSummary {
+  fileKey: string;
+  responses: number;
+  images: number;
+  recordedAt: string;
+}
+
+interface FixtureRecord {
+  key: string;
+  fileKey: string;
+  kind: 'json' | 'image';
+  recordedAt: string;
+  data?: unknown;
+  blob?: Blob;
+}
+
+const DB_VERSION = 1;
+const STORE_NAME = 'fixtures';
+const MODE_STORAGE_KEY = 'figma-fixture-mode';
+
+// Recorded Figma API responses (JSON bodies and rendered image bytes) in
+// IndexedDB, so generators can be developed against real files offline
+export class FigmaFixtureStore {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Object URLs handed out for replayed images, revoked when the fixture changes
+  private imageUrls = new Map<string, { fileKey: string; url: string }>();
+
+  constructor(dbName = 'figma-fixtures') {
+    this.dbName = dbName;
+  }
+
+  async saveJson(fileKey: string, key: string, data: unknown): Promise<void> {
+    await this.put({ key: `json:${key}`, fileKey, kind: 'json', recordedAt: new Date().toISOString(), data });
+  }
+
+  async loadJson<T>(key: string): Promise<T | null> {
+    const record = await this.get(`json:${key}`);
+    return record ? (record.data as T) : null;
+  }
+
+  async saveImage(fileKey: string, key: string, blob: Blob): Promise<void> {
+    await this.put({ key: `image:${key}`, fileKey, kind: 'image', recordedAt: new Date().toISOString(), blob });
+    this.revokeImageUrl(key);
+  }
+
+  async loadImage(key: string): Promise<Blob | null> {
+    const record = await this.get(`image:${key}`);
+    return record?.blob ?? null;
+  }
+
+  // The same object URL is reused while the fixture is unchanged
+  async loadImageUrl(key: string): Promise<string | null> {
+    const cached = this.imageUrls.get(key);
+    if (cached) return cached.url;
+
+    const record = await this.get(`image:${key}`);
+    if (!record?.blob) return null;
+
+    const url = URL.createObjectURL(record.blob);
+    this.imageUrls.set(key, { fileKey: record.fileKey, url });
+    return url;
+  }
+
+  revokeImageUrls(fileKey?: string): void {
+    this.imageUrls.forEach((entry, key) => {
+      if (!fileKey || entry.fileKey === fileKey) this.revokeImageUrl(key);
+    });
+  }
+
+  async listFixtures(): Promise<FixtureSummary[]> {
+    const records = await this.getAll();
+    const summaries = new Map<string, FixtureSummary>();
+
+    records.forEach(record => {
+      const summary = summaries.get(record.fileKey) || {
+        fileKey: record.fileKey,
+        responses: 0,
+        images: 0,
+        recordedAt: record.recordedAt,
+      };
+      if (record.kind === 'json') summary.responses++;
+      else summary.images++;
+      if (record.recordedAt > summary.recordedAt) summary.recordedAt = record.recordedAt;
+      summaries.set(record.fileKey, summary);
+    });
+
+    return Array.from(summaries.values());
+  }
+
+  async clear(fileKey?: string): Promise<void> {
+    this.revokeImageUrls(fileKey);
+    const db = await this.open();
+    const records = fileKey ? (await this.getAll()).filter(record => record.fileKey === fileKey) : null;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      if (records) {
+        records.forEach(record => store.delete(record.key));
+      } else {
+        store.clear();
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private revokeImageUrl(key: string): void {
+    const entry = this.imageUrls.get(key);
+    if (!entry) return;
+
+    URL.revokeObjectURL(entry.url);
+    this.imageUrls.delete(key);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async put(record: FixtureRecord): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async get(key: string): Promise<FixtureRecord | null> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve((request.result as FixtureRecord) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async getAll(): Promise<FixtureRecord[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as FixtureRecord[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const figmaFixtureStore = new FigmaFixtureStore();
+
+// The mode is persisted so every FigmaApiService instance starts in the same mode
+export function loadFixtureMode(): FixtureMode {
+  if (typeof localStorage === 'undefined') return 'off';
+  const stored = localStorage.getItem(MODE_STORAGE_KEY);
+  return stored === 'record' || stored === 'replay' ? stored : 'off';
+}
+
+export function saveFixtureMode(mode: FixtureMode): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(MODE_STORAGE_KEY, mode);
+}
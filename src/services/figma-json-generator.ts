@@ -1,4 +1,5 @@
 import { FigmaFile, FigmaNode } from '../types/figma';
+import { PaintCssConverter } from './paint-css-converter';
 
 interface FigmaElementInfo {
   id: string;
@@ -100,6 +101,8 @@ interface FigmaAnalysisResult {
   exportInfo: {
     generatedAt: string;
     figmaFileId: string;
+    scopeNodeId?: string;
+    branchKey?: string;
     totalPages: number;
     totalFrames: number;
     analysisVersion: string;
@@ -108,6 +111,7 @@ interface FigmaAnalysisResult {
 
 export class FigmaJsonGenerator {
   private figmaFile: FigmaFile;
+  private paintConverter = new PaintCssConverter();
 
   constructor(figmaFile: FigmaFile) {
     this.figmaFile = figmaFile;
@@ -198,15 +202,8 @@ export class FigmaJsonGenerator {
   private extractNodeStyles(node: any): any {
     const styles: any = {};
 
-    // Background/Fill colors
-    if (node.fills && node.fills.length > 0) {
-      const fill = node.fills[0];
-      if (fill.type === 'SOLID' && fill.color) {
-        styles.background = this.rgbaToHex(fill.color.r, fill.color.g, fill.color.b, fill.color.a || 1);
-      } else if (fill.type === 'GRADIENT_LINEAR') {
-        styles.background = this.extractGradient(fill);
-      }
-    }
+    // Fills (solid colors, gradients, stacked layers; text color for TEXT) and blend mode
+    Object.assign(styles, this.paintConverter.getFillStyles(node), this.paintConverter.getBlendStyles(node));
 
     // Text styles
     if (node.style) {
@@ -472,8 +469,9 @@ export class FigmaJsonGenerator {
       // Extract gradients
       if (node.fills) {
         node.fills.forEach((fill: any) => {
-          if (fill.type === 'GRADIENT_LINEAR') {
-            gradients.add(this.extractGradient(fill));
+          const gradient = fill.type.startsWith('GRADIENT_') && this.extractGradient(fill, node);
+          if (gradient) {
+            gradients.add(gradient);
           }
         });
       }
@@ -515,6 +513,8 @@ export class FigmaJsonGenerator {
     return {
       generatedAt: new Date().toISOString(),
       figmaFileId: this.figmaFile.mainFileKey || 'unknown',
+      scopeNodeId: this.figmaFile.scopeNodeId,
+      branchKey: this.figmaFile.branchKey,
       totalPages,
       totalFrames,
       analysisVersion: '1.0.0'
@@ -532,14 +532,9 @@ export class FigmaJsonGenerator {
     return a < 1 ? `${hex}${toHex(a)}` : hex;
   }
 
-  private extractGradient(fill: any): string {
+  // Angle and stop positions come from the gradient handles, relative to the node's size
+  private extractGradient(fill: any, node?: any): string {
     if (!fill.gradientStops || fill.gradientStops.length < 2) return '';
-    
-    const stops = fill.gradientStops.map((stop: any) => {
-      const color = this.rgbaToHex(stop.color.r, stop.color.g, stop.color.b, stop.color.a);
-      return `${color} ${Math.round(stop.position * 100)}%`;
-    }).join(', ');
-    
-    return `linear-gradient(135deg, ${stops})`;
+    return this.paintConverter.paintToCSS(fill, node) || '';
   }
 }
\ No newline at end of file
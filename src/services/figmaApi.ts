@@ -1,4 +1,7 @@
-import { FigmaFile, FigmaFileResponse } from '../types/figma';
+import { FigmaBranch, FigmaComponent, FigmaComponentSet, FigmaFile, FigmaFileResponse, FigmaFileNodesEntry, FigmaFileNodesResponse, FigmaImageFillsResponse, FigmaLibrary, FigmaLibraryComponentSetsMeta, FigmaLibraryComponentsMeta, FigmaLibraryCursor, FigmaLibraryResponse, FigmaLibraryStylesMeta, FigmaLocalVariablesMeta, FigmaNode, FigmaPublishedVariablesMeta, FigmaStyle, FigmaVersion, FigmaVersionsResponse } from '../types/figma';
+import { RequestScheduler } from './request-scheduler';
+import { supabase } from '../integrations/supabase/client';
+import { figmaFixtureStore, FixtureMode, loadFixtureMode, saveFixtureMode } from './figma-fixture-store';
 
 export class FigmaApiError extends Error {
   constructor(
@@ -18,10 +21,12 @@ export class FigmaApiService {
   private useProxy = true; // Use proxy by default for security
   private proxyBaseUrl = '/functions/v1/figma-proxy';
   
-  // Rate limiting
-  private lastRequestTime = 0;
-  private requestCount = 0;
-  private resetTime = Date.now() + 60000; // Reset every minute
+  // Queues requests against Figma's rate limit instead of failing them
+  private scheduler = new RequestScheduler();
+
+  // Record real responses or replay them offline; unless set on this instance
+  // the mode persisted in localStorage applies, so all instances follow the settings
+  private fixtureMode: FixtureMode | null = null;
 
   constructor(token?: string, enableMock = false) {
     if (token) {
@@ -60,30 +65,17 @@ export class FigmaApiService {
     this.mockMode = enabled;
   }
 
-  // Rate limiting check
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    
-    // Reset counter every minute
-    if (now > this.resetTime) {
-      this.requestCount = 0;
-      this.resetTime = now + 60000;
-    }
-    
-    // Figma allows ~500 requests per minute
-    if (this.requestCount >= 450) {
-      const waitTime = this.resetTime - now;
-      throw new FigmaApiError(`Rate limit exceeded. Try again in ${Math.ceil(waitTime / 1000)} seconds.`, 429);
-    }
-    
-    // Minimum delay between requests (100ms)
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < 100) {
-      await new Promise(resolve => setTimeout(resolve, 100 - timeSinceLastRequest));
+  getFixtureMode(): FixtureMode {
+    return this.fixtureMode ?? loadFixtureMode();
+  }
+
+  setFixtureMode(mode: FixtureMode): void {
+    this.fixtureMode = mode;
+    saveFixtureMode(mode);
+    // Replayed image URLs are only valid while replaying
+    if (mode !== 'replay') {
+      figmaFixtureStore.revokeImageUrls();
     }
-    
-    this.requestCount++;
-    this.lastRequestTime = Date.now();
   }
 
   validateToken(token: string): boolean {
@@ -101,19 +93,27 @@ export class FigmaApiService {
     return match ? match[1] : null;
   }
 
-  async getFile(fileId: string): Promise<FigmaFile> {
+  // geometry: 'paths' adds fillGeometry/strokeGeometry to vector nodes for inline SVG output
+  async getFile(fileId: string, options: { version?: string; geometry?: 'paths' } = {}): Promise<FigmaFile> {
     if (!fileId) {
       throw new FigmaApiError('File ID is required', 400);
     }
 
+    const params = new URLSearchParams();
+    if (options.version) params.set('version', options.version);
+    if (options.geometry) params.set('geometry', options.geometry);
+    const query = params.toString() ? `?${params.toString()}` : '';
+
     // Mock mode for development
     if (this.mockMode) {
       await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
       return this.getMockFile(fileId);
     }
 
-    // Check rate limiting
-    await this.checkRateLimit();
+    // Replay a recorded response instead of hitting the network
+    if (this.getFixtureMode() === 'replay') {
+      return this.toFigmaFile(await this.replayJson<FigmaFileResponse>(`/files/${fileId}${query}`));
+    }
 
     // Check if we need direct token for non-proxy mode
     if (!this.useProxy && !this.apiToken) {
@@ -125,14 +125,12 @@ export class FigmaApiService {
       
       if (this.useProxy) {
         // Use proxy mode - no token needed on frontend
-        response = await fetch(`${this.proxyBaseUrl}/files/${fileId}`, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
+        response = await this.scheduler.fetch(`${this.proxyBaseUrl}/files/${fileId}${query}`, {
+          headers: await this.getProxyHeaders(),
         });
       } else {
         // Direct mode - use token
-        response = await fetch(`${this.baseUrl}/files/${fileId}`, {
+        response = await this.scheduler.fetch(`${this.baseUrl}/files/${fileId}${query}`, {
           headers: {
             'X-Figma-Token': this.apiToken,
             'Content-Type': 'application/json',
@@ -183,21 +181,9 @@ export class FigmaApiService {
         );
       }
 
-      return {
-        name: data.name,
-        role: data.role || 'viewer',
-        lastModified: data.lastModified,
-        editorType: data.editorType || 'figma',
-        thumbnailUrl: data.thumbnailUrl,
-        version: data.version,
-        document: data.document,
-        components: data.components,
-        componentSets: data.componentSets || {},
-        schemaVersion: data.schemaVersion,
-        styles: data.styles,
-        mainFileKey: data.mainFileKey,
-        branches: data.branches,
-      };
+      await this.recordJson(`/files/${fileId}${query}`, data);
+
+      return this.toFigmaFile(data);
     } catch (error) {
       if (error instanceof FigmaApiError) {
         throw error;
@@ -215,7 +201,91 @@ export class FigmaApiService {
     }
   }
 
-  async getFileNodes(fileId: string, nodeIds: string[]): Promise<any> {
+  private toFigmaFile(data: FigmaFileResponse): FigmaFile {
+    return {
+      name: data.name,
+      role: data.role || 'viewer',
+      lastModified: data.lastModified,
+      editorType: data.editorType || 'figma',
+      thumbnailUrl: data.thumbnailUrl,
+      version: data.version,
+      document: data.document,
+      components: data.components,
+      componentSets: data.componentSets || {},
+      schemaVersion: data.schemaVersion,
+      styles: data.styles,
+      mainFileKey: data.mainFileKey,
+      branches: data.branches,
+    };
+  }
+
+  async getFileNodes(fileId: string, nodeIds: string[]): Promise<Record<string, FigmaFileNodesEntry | null>> {
+    const data = await this.fetchFileNodes(fileId, nodeIds);
+    return data.nodes;
+  }
+
+  // Fetches a single node subtree and returns it shaped like a whole file,
+  // so analysis, generation and export only see the linked frame
+  async getFileSubtree(fileId: string, nodeId: string, options: { version?: string; geometry?: 'paths' } = {}): Promise<FigmaFile> {
+    const data = await this.fetchFileNodes(fileId, [nodeId], options);
+    const entry = data.nodes?.[nodeId];
+
+    if (!entry?.document) {
+      throw new FigmaApiError(`Node ${nodeId} not found in file`, 404, data);
+    }
+
+    return {
+      name: data.name,
+      role: data.role || 'viewer',
+      lastModified: data.lastModified,
+      editorType: data.editorType || 'figma',
+      thumbnailUrl: data.thumbnailUrl,
+      version: data.version,
+      document: this.wrapSubtree(entry.document),
+      components: entry.components || {},
+      componentSets: entry.componentSets || {},
+      schemaVersion: entry.schemaVersion,
+      styles: entry.styles || {},
+      scopeNodeId: nodeId,
+    };
+  }
+
+  // Whole file when no node is given, otherwise only the node subtree.
+  // version: an earlier version in the same scope, so it can be diffed against the current one
+  async getScopedFile(fileId: string, nodeId?: string, branchKey?: string, version?: string): Promise<FigmaFile> {
+    // Branches are separate files on the API side, addressed by their own key
+    const sourceKey = branchKey || fileId;
+    const file = nodeId
+      ? await this.getFileSubtree(sourceKey, nodeId, { version, geometry: 'paths' })
+      : await this.getFile(sourceKey, { version, geometry: 'paths' });
+
+    return branchKey ? { ...file, mainFileKey: fileId, branchKey } : file;
+  }
+
+  async getFileBranches(fileId: string): Promise<FigmaBranch[]> {
+    if (!fileId) {
+      throw new FigmaApiError('File ID is required', 400);
+    }
+
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return this.getMockFile(fileId).branches || [];
+    }
+
+    // depth=1 keeps the response small, only the branch list is needed
+    const data = await this.requestJson<FigmaFileResponse>(
+      `/files/${fileId}?branch_data=true&depth=1`,
+      'Failed to fetch branches'
+    );
+    return data.branches || [];
+  }
+
+  private async fetchFileNodes(
+    fileId: string,
+    nodeIds: string[],
+    options: { version?: string; geometry?: 'paths' } = {}
+  ): Promise<FigmaFileNodesResponse> {
     if (!fileId || nodeIds.length === 0) {
       throw new FigmaApiError('File ID and node IDs are required', 400);
     }
@@ -223,11 +293,215 @@ export class FigmaApiService {
     // Mock mode
     if (this.mockMode) {
       await new Promise(resolve => setTimeout(resolve, 300));
-      return { nodes: {} }; // Mock response
+      return this.getMockFileNodes(fileId, nodeIds);
+    }
+
+    const params = new URLSearchParams({ ids: nodeIds.join(',') });
+    if (options.version) params.set('version', options.version);
+    if (options.geometry) params.set('geometry', options.geometry);
+    return this.requestJson<FigmaFileNodesResponse>(
+      `/files/${fileId}/nodes?${params.toString()}`,
+      'Failed to fetch nodes'
+    );
+  }
+
+  async getFileVersions(fileId: string): Promise<FigmaVersion[]> {
+    if (!fileId) {
+      throw new FigmaApiError('File ID is required', 400);
     }
 
-    // Check rate limiting
-    await this.checkRateLimit();
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return this.getMockVersions();
+    }
+
+    // Versions are paged; next_page is an absolute API URL until the oldest version
+    const versions: FigmaVersion[] = [];
+    let path: string | null = `/files/${fileId}/versions`;
+
+    while (path) {
+      const data: FigmaVersionsResponse = await this.requestJson<FigmaVersionsResponse>(path, 'Failed to fetch versions');
+      const page = data.versions || [];
+      versions.push(...page);
+      path = page.length > 0 ? this.toApiPath(data.pagination?.next_page) : null;
+    }
+
+    return versions;
+  }
+
+  // Absolute Figma API URL (e.g. pagination links) → path relative to the API base, so it works through the proxy too
+  private toApiPath(url?: string): string | null {
+    if (!url) return null;
+
+    const parsed = new URL(url, this.baseUrl);
+    return `${parsed.pathname.replace(/^\/v1(?=\/)/, '')}${parsed.search}`;
+  }
+
+  // Image fills are referenced by imageRef in paints, this resolves them to URLs
+  async getImageFills(fileId: string): Promise<Record<string, string>> {
+    if (!fileId) {
+      throw new FigmaApiError('File ID is required', 400);
+    }
+
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return {};
+    }
+
+    const data = await this.requestJson<FigmaImageFillsResponse>(
+      `/files/${fileId}/images`,
+      'Failed to fetch image fills'
+    );
+    return data.meta?.images || {};
+  }
+
+  // Published components, component sets and styles of a team library, all pages
+  async getTeamLibrary(teamId: string): Promise<FigmaLibrary> {
+    const [components, componentSets, styles] = await Promise.all([
+      this.getTeamComponents(teamId),
+      this.getTeamComponentSets(teamId),
+      this.getTeamStyles(teamId),
+    ]);
+    return { components, componentSets, styles };
+  }
+
+  async getTeamComponents(teamId: string): Promise<FigmaComponent[]> {
+    if (!teamId) {
+      throw new FigmaApiError('Team ID is required', 400);
+    }
+
+    return this.fetchLibraryPages<FigmaLibraryComponentsMeta, FigmaComponent>(
+      `/teams/${teamId}/components`,
+      meta => meta.components,
+      'Failed to fetch team components'
+    );
+  }
+
+  async getTeamComponentSets(teamId: string): Promise<FigmaComponentSet[]> {
+    if (!teamId) {
+      throw new FigmaApiError('Team ID is required', 400);
+    }
+
+    return this.fetchLibraryPages<FigmaLibraryComponentSetsMeta, FigmaComponentSet>(
+      `/teams/${teamId}/component_sets`,
+      meta => meta.component_sets,
+      'Failed to fetch team component sets'
+    );
+  }
+
+  async getTeamStyles(teamId: string): Promise<FigmaStyle[]> {
+    if (!teamId) {
+      throw new FigmaApiError('Team ID is required', 400);
+    }
+
+    return this.fetchLibraryPages<FigmaLibraryStylesMeta, FigmaStyle>(
+      `/teams/${teamId}/styles`,
+      meta => meta.styles,
+      'Failed to fetch team styles'
+    );
+  }
+
+  // Published items of a single library file; these endpoints are not paginated
+  async getFileLibrary(fileId: string): Promise<FigmaLibrary> {
+    if (!fileId) {
+      throw new FigmaApiError('File ID is required', 400);
+    }
+
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { components: [], componentSets: [], styles: [] };
+    }
+
+    const [components, componentSets, styles] = await Promise.all([
+      this.requestJson<FigmaLibraryResponse<FigmaLibraryComponentsMeta>>(`/files/${fileId}/components`, 'Failed to fetch file components'),
+      this.requestJson<FigmaLibraryResponse<FigmaLibraryComponentSetsMeta>>(`/files/${fileId}/component_sets`, 'Failed to fetch file component sets'),
+      this.requestJson<FigmaLibraryResponse<FigmaLibraryStylesMeta>>(`/files/${fileId}/styles`, 'Failed to fetch file styles'),
+    ]);
+
+    return {
+      components: components.meta?.components || [],
+      componentSets: componentSets.meta?.component_sets || [],
+      styles: styles.meta?.styles || [],
+    };
+  }
+
+  // Team library endpoints page with an "after" cursor
+  private async fetchLibraryPages<M extends { cursor?: FigmaLibraryCursor }, T>(
+    path: string,
+    select: (meta: M) => T[] | undefined,
+    failureMessage: string
+  ): Promise<T[]> {
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return [];
+    }
+
+    const items: T[] = [];
+    let after: number | undefined;
+
+    do {
+      const query = `?page_size=100${after !== undefined ? `&after=${after}` : ''}`;
+      const data = await this.requestJson<FigmaLibraryResponse<M>>(`${path}${query}`, failureMessage);
+      const page = select(data.meta) || [];
+      items.push(...page);
+      after = page.length > 0 ? data.meta?.cursor?.after : undefined;
+    } while (after !== undefined);
+
+    return items;
+  }
+
+  // Variables with their values per mode; needs file edit access on the Figma side
+  async getLocalVariables(fileId: string): Promise<FigmaLocalVariablesMeta> {
+    if (!fileId) {
+      throw new FigmaApiError('File ID is required', 400);
+    }
+
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { variables: {}, variableCollections: {} };
+    }
+
+    const data = await this.requestJson<FigmaLibraryResponse<FigmaLocalVariablesMeta>>(
+      `/files/${fileId}/variables/local`,
+      'Failed to fetch local variables'
+    );
+    return {
+      variables: data.meta?.variables || {},
+      variableCollections: data.meta?.variableCollections || {},
+    };
+  }
+
+  async getPublishedVariables(fileId: string): Promise<FigmaPublishedVariablesMeta> {
+    if (!fileId) {
+      throw new FigmaApiError('File ID is required', 400);
+    }
+
+    // Mock mode
+    if (this.mockMode) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { variables: {}, variableCollections: {} };
+    }
+
+    const data = await this.requestJson<FigmaLibraryResponse<FigmaPublishedVariablesMeta>>(
+      `/files/${fileId}/variables/published`,
+      'Failed to fetch published variables'
+    );
+    return {
+      variables: data.meta?.variables || {},
+      variableCollections: data.meta?.variableCollections || {},
+    };
+  }
+
+  // Shared GET for JSON endpoints, routed through the proxy or directly to Figma
+  private async requestJson<T>(path: string, failureMessage: string): Promise<T> {
+    if (this.getFixtureMode() === 'replay') {
+      return this.replayJson<T>(path);
+    }
 
     // Check if we need direct token for non-proxy mode
     if (!this.useProxy && !this.apiToken) {
@@ -235,28 +509,19 @@ export class FigmaApiService {
     }
 
     try {
-      const idsParam = nodeIds.join(',');
       let response: Response;
-      
+
       if (this.useProxy) {
-        response = await fetch(
-          `${this.proxyBaseUrl}/files/${fileId}/nodes?ids=${encodeURIComponent(idsParam)}`,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        response = await this.scheduler.fetch(`${this.proxyBaseUrl}${path}`, {
+          headers: await this.getProxyHeaders(),
+        });
       } else {
-        response = await fetch(
-          `${this.baseUrl}/files/${fileId}/nodes?ids=${encodeURIComponent(idsParam)}`,
-          {
-            headers: {
-              'X-Figma-Token': this.apiToken,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        response = await this.scheduler.fetch(`${this.baseUrl}${path}`, {
+          headers: {
+            'X-Figma-Token': this.apiToken,
+            'Content-Type': 'application/json',
+          },
+        });
       }
 
       if (!response.ok) {
@@ -269,14 +534,39 @@ export class FigmaApiService {
       }
 
       const data = await response.json();
-      return data.nodes;
+
+      if (data?.error) {
+        throw new FigmaApiError(
+          data.err || data.message || 'Unknown API error',
+          data.status || 500,
+          data
+        );
+      }
+
+      await this.recordJson(path, data);
+
+      return data as T;
     } catch (error) {
       if (error instanceof FigmaApiError) {
         throw error;
       }
 
-      throw new FigmaApiError(`Failed to fetch nodes: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+      throw new FigmaApiError(`${failureMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+    }
+  }
+
+  // Generators walk document > pages > frames, so the subtree gets a synthetic
+  // document and page around it unless it already is one
+  private wrapSubtree(node: FigmaNode): FigmaNode {
+    if (node.type === 'DOCUMENT') {
+      return node;
     }
+
+    const page: FigmaNode = node.type === 'CANVAS'
+      ? node
+      : { id: `${node.id}:page`, name: 'Page', type: 'CANVAS', children: [node] };
+
+    return { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [page] };
   }
 
   async getImages(fileId: string, nodeIds: string[], options: { format?: 'jpg' | 'png' | 'svg' | 'pdf'; scale?: number } = {}): Promise<Record<string, string>> {
@@ -290,8 +580,12 @@ export class FigmaApiService {
       return mockImages;
     }
 
-    // Check rate limiting
-    await this.checkRateLimit();
+    const format = options.format || 'png';
+    const scale = options.scale || 1;
+
+    if (this.getFixtureMode() === 'replay') {
+      return this.replayImages(fileId, nodeIds, format, scale);
+    }
 
     // Check if we need direct token for non-proxy mode
     if (!this.useProxy && !this.apiToken) {
@@ -301,23 +595,21 @@ export class FigmaApiService {
     try {
       const params = new URLSearchParams({
         ids: nodeIds.join(','),
-        format: options.format || 'png',
-        scale: String(options.scale || 1),
+        format,
+        scale: String(scale),
       });
 
       let response: Response;
       
       if (this.useProxy) {
-        response = await fetch(
+        response = await this.scheduler.fetch(
           `${this.proxyBaseUrl}/images/${fileId}?${params}`,
           {
-            headers: {
-              'Content-Type': 'application/json',
-            },
+            headers: await this.getProxyHeaders(),
           }
         );
       } else {
-        response = await fetch(
+        response = await this.scheduler.fetch(
           `${this.baseUrl}/images/${fileId}?${params}`,
           {
             headers: {
@@ -338,6 +630,11 @@ export class FigmaApiService {
       }
 
       const data = await response.json();
+
+      if (this.getFixtureMode() === 'record' && data.images) {
+        await this.recordImages(fileId, data.images, format, scale);
+      }
+
       return data.images;
     } catch (error) {
       if (error instanceof FigmaApiError) {
@@ -348,6 +645,112 @@ export class FigmaApiService {
     }
   }
 
+  // The signed-in user's session lets the proxy use their own Figma token when enabled
+  private async getProxyHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    try {
+      const { data } = await supabase.auth.getSession();
+      if (data.session?.access_token) {
+        headers.Authorization = `Bearer ${data.session.access_token}`;
+      }
+    } catch {
+      // Anonymous requests fall back to the shared proxy token
+    }
+
+    return headers;
+  }
+
+  private getFixtureFileKey(path: string): string {
+    const match = path.match(/^\/(?:files|images|teams)\/([^/?]+)/);
+    return match ? match[1] : 'unknown';
+  }
+
+  private getImageFixtureKey(fileId: string, nodeId: string, format: string, scale: number): string {
+    return `${fileId}:${nodeId}:${format}@${scale}`;
+  }
+
+  // Fixtures are keyed by the API path, so query parameters must match the recording
+  private async replayJson<T>(path: string): Promise<T> {
+    const data = await figmaFixtureStore.loadJson<T>(path);
+    if (!data) {
+      throw new FigmaApiError(`No recorded fixture for ${path} - record it first with fixture mode set to record`, 404);
+    }
+    return data;
+  }
+
+  // Recording must never break a successful request
+  private async recordJson(path: string, data: unknown): Promise<void> {
+    if (this.getFixtureMode() !== 'record') return;
+
+    try {
+      await figmaFixtureStore.saveJson(this.getFixtureFileKey(path), path, data);
+    } catch (error) {
+      console.warn('Failed to record Figma fixture:', path, error);
+    }
+  }
+
+  // Rendered image URLs expire, so the bytes themselves are stored
+  private async recordImages(fileId: string, images: Record<string, string | null>, format: string, scale: number): Promise<void> {
+    await Promise.all(Object.entries(images).map(async ([nodeId, url]) => {
+      if (!url) return;
+
+      try {
+        const blob = await this.downloadImage(url);
+        await figmaFixtureStore.saveImage(fileId, this.getImageFixtureKey(fileId, nodeId, format, scale), blob);
+      } catch (error) {
+        console.warn('Failed to record Figma image fixture:', nodeId, error);
+      }
+    }));
+  }
+
+  private async replayImages(fileId: string, nodeIds: string[], format: string, scale: number): Promise<Record<string, string>> {
+    const images: Record<string, string> = {};
+
+    for (const nodeId of nodeIds) {
+      const url = await figmaFixtureStore.loadImageUrl(this.getImageFixtureKey(fileId, nodeId, format, scale));
+      if (url) {
+        images[nodeId] = url;
+      }
+    }
+
+    if (Object.keys(images).length === 0) {
+      throw new FigmaApiError(`No recorded image fixtures for file ${fileId} (${format}@${scale}x)`, 404);
+    }
+
+    return images;
+  }
+
+  // Rendered image URLs point at S3 without CORS headers, so in proxy mode
+  // the bytes are relayed through the edge function
+  async downloadImage(imageUrl: string): Promise<Blob> {
+    const isLocal = imageUrl.startsWith('blob:') || imageUrl.startsWith('data:');
+    const url = this.useProxy && !isLocal && !this.mockMode
+      ? `${this.proxyBaseUrl}/image-proxy?url=${encodeURIComponent(imageUrl)}`
+      : imageUrl;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new FigmaApiError(
+          errorData?.error || `Image download failed with status ${response.status}`,
+          response.status,
+          errorData
+        );
+      }
+      return await response.blob();
+    } catch (error) {
+      if (error instanceof FigmaApiError) {
+        throw error;
+      }
+
+      throw new FigmaApiError(`Failed to download image: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+    }
+  }
+
   private getErrorMessage(status: number, errorData?: any): string {
     switch (status) {
       case 400:
@@ -372,18 +775,30 @@ export class FigmaApiService {
     return /^[a-zA-Z0-9]{22,25}$/.test(key);
   }
 
-  parseFileUrl(url: string): { fileId: string; nodeId?: string } | null {
-    const figmaUrlPattern = /^https:\/\/(?:www\.)?figma\.com\/(file|design)\/([a-zA-Z0-9]+)(?:\/[^?]*)?(?:\?[^#]*)?(?:#(.*))?$/;
-    const match = url.match(figmaUrlPattern);
+  parseFileUrl(url: string): { fileId: string; nodeId?: string; branchKey?: string } | null {
+    const figmaUrlPattern = /^https:\/\/(?:www\.)?figma\.com\/(file|design)\/([a-zA-Z0-9]+)(\/[^?#]*)?(?:\?([^#]*))?(?:#(.*))?$/;
+    const match = url.trim().match(figmaUrlPattern);
 
     if (!match) {
       return null;
     }
 
-    const [, , fileId, hash] = match;
+    const [, , fileId, path, query, hash] = match;
     let nodeId: string | undefined;
 
-    if (hash) {
+    // Branch links look like /design/<fileKey>/branch/<branchKey>/<name>
+    const branchMatch = path?.match(/^\/branch\/([a-zA-Z0-9]+)/);
+    const branchKey = branchMatch ? branchMatch[1] : undefined;
+
+    if (query) {
+      // Current share links use ?node-id=123-456, the API expects 123:456
+      const queryNodeId = new URLSearchParams(query).get('node-id');
+      if (queryNodeId && /^\d+[-:]\d+$/.test(queryNodeId)) {
+        nodeId = queryNodeId.replace('-', ':');
+      }
+    }
+
+    if (!nodeId && hash) {
       // Extract node ID from hash (usually in format like "123:456")
       const nodeMatch = hash.match(/(\d+:\d+)/);
       if (nodeMatch) {
@@ -391,7 +806,7 @@ export class FigmaApiService {
       }
     }
 
-    return { fileId, nodeId };
+    return { fileId, nodeId, branchKey };
   }
 
   async testConnection(): Promise<boolean> {
@@ -401,7 +816,7 @@ export class FigmaApiService {
     
     try {
       // Test with a simple API call that doesn't require a specific file
-      const response = await fetch(`${this.baseUrl}/me`, {
+      const response = await this.scheduler.fetch(`${this.baseUrl}/me`, {
         headers: {
           'X-Figma-Token': this.apiToken,
           'Content-Type': 'application/json',
@@ -414,6 +829,63 @@ export class FigmaApiService {
     }
   }
 
+  private getMockFileNodes(fileId: string, nodeIds: string[]): FigmaFileNodesResponse {
+    const mockFile = this.getMockFile(fileId);
+
+    const findNode = (node: FigmaNode, id: string): FigmaNode | null => {
+      if (node.id === id) return node;
+      for (const child of node.children || []) {
+        const found = findNode(child, id);
+        if (found) return found;
+      }
+      return null;
+    };
+
+    const nodes: Record<string, FigmaFileNodesEntry | null> = {};
+    nodeIds.forEach(nodeId => {
+      const document = findNode(mockFile.document, nodeId);
+      nodes[nodeId] = document
+        ? {
+            document,
+            components: mockFile.components,
+            componentSets: mockFile.componentSets,
+            schemaVersion: mockFile.schemaVersion,
+            styles: mockFile.styles,
+          }
+        : null;
+    });
+
+    return {
+      name: mockFile.name,
+      role: mockFile.role,
+      lastModified: mockFile.lastModified,
+      editorType: mockFile.editorType,
+      thumbnailUrl: mockFile.thumbnailUrl,
+      version: mockFile.version,
+      nodes,
+    };
+  }
+
+  private getMockVersions(): FigmaVersion[] {
+    const user = { id: 'mock-user', handle: 'Mock User', img_url: '' };
+    return [
+      {
+        id: '2',
+        created_at: new Date().toISOString(),
+        label: null,
+        description: null,
+        user,
+      },
+      {
+        id: '1',
+        created_at: new Date(Date.now() - 86400000).toISOString(),
+        label: 'Initial version',
+        description: null,
+        user,
+      },
+    ];
+  }
+
   private getMockFile(fileId: string): FigmaFile {
     return {
       name: `Mock Figma File ${fileId}`,
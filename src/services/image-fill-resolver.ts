@@ -0,0 +1,74 @@
+import { FigmaNode, FigmaPaint } from '../types/figma';
+
+// Figma scaleMode → CSS object-fit; a háttérképes megfelelő a PaintCssConverter-ben
+const SCALE_MODE_OBJECT_FIT: Record<NonNullable<FigmaPaint['scaleMode']>, string> = {
+  FILL: 'cover',
+  FIT: 'contain',
+  TILE: 'none',
+  STRETCH: 'fill',
+};
+
+// Az IMAGE kitöltések imageRef azonosítóit URL-re oldja fel (GET /files/:key/images),
+// és nyilvántartja a generált kódban ténylegesen hivatkozott képeket
+export class ImageFillResolver {
+  private imageFills: Record<string, string>;
+  private usedAssets = new Set<string>();
+
+  constructor(imageFills: Record<string, string> = {}) {
+    this.imageFills = imageFills;
+  }
+
+  // Az első látható IMAGE kitöltés
+  getImageFill(node: FigmaNode): FigmaPaint | undefined {
+    return node.fills?.find(fill => fill.type === 'IMAGE' && fill.visible !== false);
+  }
+
+  hasImageFill(node: FigmaNode): boolean {
+    return !!this.getImageFill(node);
+  }
+
+  // Levél elem képpel → <img>, gyerekekkel rendelkező elem → background-image
+  shouldRenderAsImg(node: FigmaNode): boolean {
+    return this.hasImageFill(node) && (!node.children || node.children.length === 0);
+  }
+
+  resolve(node: FigmaNode): string | null {
+    const fill = this.getImageFill(node);
+    const ref = fill?.gifRef || fill?.imageRef;
+    return ref ? this.resolveRef(ref) : null;
+  }
+
+  // Egy festés imageRef-je (nem csak az első kép kitöltésé, pl. egymásra rakott rétegeknél)
+  resolveRef(ref: string): string | null {
+    const url = this.imageFills[ref];
+    if (!url) return null;
+
+    this.usedAssets.add(url);
+    return url;
+  }
+
+  getObjectFit(node: FigmaNode): string {
+    return SCALE_MODE_OBJECT_FIT[this.getImageFill(node)?.scaleMode || 'FILL'];
+  }
+
+  // Egy részfában hivatkozott, feloldott kép URL-ek
+  collectAssets(node: FigmaNode): string[] {
+    const assets = new Set<string>();
+
+    const visit = (current: FigmaNode) => {
+      const fill = this.getImageFill(current);
+      const ref = fill?.gifRef || fill?.imageRef;
+      if (ref && this.imageFills[ref]) {
+        assets.add(this.imageFills[ref]);
+      }
+      current.children?.forEach(visit);
+    };
+
+    visit(node);
+    return Array.from(assets);
+  }
+
+  getUsedAssets(): string[] {
+    return Array.from(this.usedAssets);
+  }
+}
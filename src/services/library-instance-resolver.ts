@@ -0,0 +1,105 @@
+import { FigmaApiResponse, FigmaLibrary, FigmaNode } from '../types/figma';
+import { DesignSystemExtractor } from './design-system-extractor';
+import { ComponentPropsResolver } from './component-props-resolver';
+
+// A könyvtári komponensek modulja a generált fájlok mellett; a példányok innen importálnak
+export const LIBRARY_IMPORT_PATH = './library';
+
+// Sablonnyelv a példány használatához (a MarkupDialect html nélkül: ott nincs komponens)
+export type LibraryInstanceDialect = 'jsx' | 'svelte' | 'vue' | 'angular';
+
+export interface LibraryInstance {
+  // Kanonikus név PascalCase-ben, variánsnál a komponens set neve: "Button / Primary" → ButtonPrimary
+  name: string;
+  description: string;
+  libraryFileKey: string;
+  properties: Array<{ name: string; value: string | boolean }>;
+}
+
+export interface LibraryInstanceUsage {
+  name: string;
+  markup: string;
+}
+
+// INSTANCE node → a betöltött könyvtár komponensének használata (<Button variant="primary" />),
+// hogy a generátorok a példány rétegeit ne másolják ki újra
+export class LibraryInstanceResolver {
+  private extractor: DesignSystemExtractor;
+  private propsResolver = new ComponentPropsResolver();
+
+  // library: publikált team/fájl könyvtár (FigmaApiService.getTeamLibrary / getFileLibrary)
+  constructor(figmaData: FigmaApiResponse, library: FigmaLibrary) {
+    this.extractor = new DesignSystemExtractor(figmaData, library);
+  }
+
+  // Csak a könyvtárban megtalált komponens példánya; helyi vagy ismeretlen komponensnél null
+  resolve(node: FigmaNode): LibraryInstance | null {
+    const resolved = this.extractor.resolveInstance(node);
+    if (!resolved?.libraryFileKey) return null;
+
+    return {
+      name: this.toComponentName(resolved.name),
+      description: resolved.description,
+      libraryFileKey: resolved.libraryFileKey,
+      properties: this.propsResolver.getPropertyValues(node),
+    };
+  }
+
+  // A példány a sablonnyelven, a leírás dokumentációs kommentként.
+  // attributes: a generátor saját kötései (pl. v-if="showIcon"), szóközzel kezdve
+  render(node: FigmaNode, dialect: LibraryInstanceDialect, indent = '', attributes = ''): LibraryInstanceUsage | null {
+    const instance = this.resolve(node);
+    if (!instance) return null;
+
+    const props = instance.properties.map(property => ` ${this.toAttribute(property.name, property.value, dialect)}`).join('');
+    const description = instance.description.replace(/\s+/g, ' ').trim();
+
+    // JSX-ben a komment a tagon belül marad, így gyökérként vagy slot tartalomként is egyetlen elem
+    if (dialect === 'jsx') {
+      const comment = description ? ` /** ${description.replace(/\*\//g, '* /')} */` : '';
+      return { name: instance.name, markup: `${indent}<${instance.name}${comment}${attributes}${props} />` };
+    }
+
+    const comment = description ? `${indent}<!-- ${description.replace(/--/g, '- -')} -->\n` : '';
+    const element = dialect === 'angular'
+      ? `<app-${this.toKebabCase(instance.name)}${attributes}${props}></app-${this.toKebabCase(instance.name)}>`
+      : `<${instance.name}${attributes}${props} />`;
+    return { name: instance.name, markup: `${comment}${indent}${element}` };
+  }
+
+  private toAttribute(name: string, value: string | boolean, dialect: LibraryInstanceDialect): string {
+    if (typeof value === 'boolean') {
+      if (dialect === 'vue') return `:${name}="${value}"`;
+      if (dialect === 'angular') return `[${name}]="${value}"`;
+      return `${name}={${value}}`;
+    }
+    if (dialect === 'jsx' || dialect === 'svelte') {
+      return /["{}<>\n]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+    }
+    // Vue és Angular sablonban a {{ }} interpolációt, Angularban a @ blokkot is escape-elni kell
+    const escaped = value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/{/g, '&#123;')
+      .replace(/}/g, '&#125;');
+    return `${name}="${dialect === 'angular' ? escaped.replace(/@/g, '&#64;') : escaped}"`;
+  }
+
+  private toComponentName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9]/g, ' ')
+      .split(' ')
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+      .replace(/^[0-9]/, 'Component$&')
+      || 'Component';
+  }
+
+  private toKebabCase(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .toLowerCase();
+  }
+}
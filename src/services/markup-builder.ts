@@ -0,0 +1,428 @@
+import { FigmaNode, FigmaColor } from '../types/figma';
+import { ImageFillResolver } from './image-fill-resolver';
+import { PaintCssConverter } from './paint-css-converter';
+import { SvgRenderer } from './svg-renderer';
+import { AutoLayoutTranslator } from './auto-layout-translator';
+import { RichTextRenderer } from './rich-text-renderer';
+import { StyleTokenResolver } from './style-token-resolver';
+import { LibraryInstanceResolver } from './library-instance-resolver';
+
+// A célkeretrendszer sablonnyelve: attribútum nevek, önzáró elemek és szöveg escape ettől függ
+export type MarkupDialect = 'jsx' | 'html' | 'svelte' | 'vue' | 'angular';
+
+export interface MarkupOptions {
+  dialect: MarkupDialect;
+  // Tailwind: utility osztályok a class attribútumban, CSS szabályok nélkül
+  tailwind?: boolean;
+  // A gyökér frame kitölti a tárolót, így a gyermekek constraints-ei érvényesülnek (képernyőknél)
+  fluidRoot?: boolean;
+  // Keretrendszer-specifikus kötések node-onként (pl. Vue: v-if, {{ prop }}, slot)
+  bind?: (node: FigmaNode) => MarkupBinding | undefined;
+}
+
+export interface MarkupBinding {
+  // Az elemre kerülő további attribútumok, pl. v-if="showIcon"
+  attributes?: string[];
+  // A node szövege helyett, pl. {{ label }}
+  content?: string;
+  // Az elem egy nevesített <slot> alapértelmezett tartalma lesz (Vue, Svelte)
+  slot?: string;
+  // A node típusából adódó tag helyett, pl. szemantikus <header>, <h2>
+  tag?: string;
+}
+
+export interface MarkupResult {
+  markup: string;
+  // Osztályonkénti CSS szabályok; Tailwind módban üres
+  css: string;
+  // A markupban hivatkozott kép URL-ek (image fills)
+  assets: string[];
+}
+
+// Egyfájlos keretrendszer komponens (Svelte, Angular) beállításai
+export interface ComponentFileOptions {
+  // Alapértelmezés a gyökér node neve
+  componentName?: string;
+  tailwind?: boolean;
+}
+
+export interface ComponentFile {
+  name: string;
+  fileName: string;
+  code: string;
+  // A komponensbe ágyazott CSS külön is (előnézethez, összesítéshez)
+  styles: string;
+  assets: string[];
+}
+
+// Közös node → markup mag: a React (JSX), Svelte, Vue és Angular generátorok ugyanazt a fabejárást,
+// elrendezést és stílus kinyerést használják, csak a sablon szintaxis különbözik
+export class MarkupBuilder {
+  private imageResolver: ImageFillResolver;
+  private paintConverter: PaintCssConverter;
+  private svgRenderer = new SvgRenderer();
+  private layoutTranslator = new AutoLayoutTranslator();
+  private richText = new RichTextRenderer();
+  private styleTokens?: StyleTokenResolver;
+  private libraryInstances?: LibraryInstanceResolver;
+  // A markupban példányként használt könyvtári komponensek (importokhoz)
+  private libraryComponents = new Set<string>();
+  // node id → szülő node, az elrendezés a szülő auto layoutjától függ
+  private parents = new Map<string, FigmaNode>();
+  // node id → egyedi osztálynév (azonos nevű rétegek -2, -3 utótagot kapnak)
+  private classNames = new Map<string, string>();
+  private nodes: FigmaNode[] = [];
+  private fluidRootId: string | null = null;
+
+  // imageFills: imageRef → URL térkép (FigmaApiService.getImageFills)
+  // styleTokens: elnevezett Figma stílusok, a hivatkozó node-ok CSS értékei tokenre mutatnak
+  // libraryInstances: a betöltött könyvtár komponenseinek példányai a kanonikus nevükkel renderelődnek
+  constructor(imageFills: Record<string, string> = {}, styleTokens?: StyleTokenResolver, libraryInstances?: LibraryInstanceResolver) {
+    this.imageResolver = new ImageFillResolver(imageFills);
+    this.paintConverter = new PaintCssConverter(this.imageResolver);
+    this.styleTokens = styleTokens;
+    this.libraryInstances = libraryInstances;
+  }
+
+  build(root: FigmaNode, options: MarkupOptions, indent = ''): MarkupResult {
+    this.prepare(root, options);
+    return {
+      markup: this.renderNode(root, options, indent),
+      css: options.tailwind ? '' : this.generateCss(),
+      assets: this.getAssets(),
+    };
+  }
+
+  // Szülő térkép, osztálynevek és a CSS-hez bejárt node-ok; build() előtt külön is hívható.
+  // Több gyökér (pl. egy készlet variánsai) közös osztálynév-térrel, szülő nélkül
+  prepare(roots: FigmaNode | FigmaNode[], options: Pick<MarkupOptions, 'fluidRoot'> = {}) {
+    const rootList = Array.isArray(roots) ? roots : [roots];
+    this.parents.clear();
+    this.classNames.clear();
+    this.libraryComponents.clear();
+    this.nodes = [];
+    this.fluidRootId = options.fluidRoot && rootList.length === 1 ? rootList[0].id : null;
+
+    const used = new Map<string, number>();
+    const visit = (node: FigmaNode) => {
+      this.nodes.push(node);
+      const base = this.toClassName(node);
+      const count = (used.get(base) || 0) + 1;
+      used.set(base, count);
+      this.classNames.set(node.id, count === 1 ? base : `${base}-${count}`);
+
+      // Az inline SVG-be rajzolt és a könyvtári példányok rétegei nem kapnak saját osztályt
+      if (node.children && !this.svgRenderer.canRender(node) && !this.libraryInstances?.resolve(node)) {
+        node.children.forEach(child => {
+          this.parents.set(child.id, node);
+          visit(child);
+        });
+      }
+    };
+    rootList.forEach(visit);
+  }
+
+  getAssets(): string[] {
+    return this.imageResolver.getUsedAssets();
+  }
+
+  // A legutóbbi prepare() óta renderelt könyvtári komponensek neve, ábécérendben
+  getLibraryComponents(): string[] {
+    return [...this.libraryComponents].sort();
+  }
+
+  getNodes(): FigmaNode[] {
+    return this.nodes;
+  }
+
+  getParent(node: FigmaNode): FigmaNode | undefined {
+    return this.parents.get(node.id);
+  }
+
+  // Kép kitöltésű levél elem vagy IMAGE node: <img> (React Native: <Image>)
+  rendersAsImage(node: FigmaNode): boolean {
+    return node.type === 'IMAGE' || this.imageResolver.shouldRenderAsImg(node);
+  }
+
+  // Vektorok és csak vektorokból álló csoportok: inline SVG
+  rendersAsSvg(node: FigmaNode): boolean {
+    return this.svgRenderer.canRender(node);
+  }
+
+  // Feloldott kép URL, ha van; a hivatkozott képek az assets listába kerülnek
+  getImageSource(node: FigmaNode): string | null {
+    return this.imageResolver.resolve(node);
+  }
+
+  getClassName(node: FigmaNode): string {
+    return this.classNames.get(node.id) || this.toClassName(node);
+  }
+
+  // Osztályonként egy szabály, a sorrend a fabejárásé
+  generateCss(): string {
+    let css = '';
+    this.nodes.forEach(node => {
+      const styles = this.getNodeStyles(node);
+      if (Object.keys(styles).length > 0) {
+        css += `.${this.getClassName(node)} {\n`;
+        Object.entries(styles).forEach(([property, value]) => {
+          css += `  ${this.camelToKebab(property)}: ${value};\n`;
+        });
+        css += '}\n\n';
+      }
+    });
+    return css;
+  }
+
+  // Egy node és gyermekei a választott sablonnyelven (rekurzívan)
+  renderNode(node: FigmaNode, options: MarkupOptions, indent = ''): string {
+    const binding = options.bind?.(node) || {};
+    const attributes = (binding.attributes || []).map(attribute => ` ${attribute}`).join('');
+
+    // Slotnál a feltétel a <slot> elemre kerül, az elem maga az alapértelmezett tartalom
+    if (binding.slot) {
+      return `${indent}<slot name="${binding.slot}"${attributes}>
+${this.renderElement(node, options, `${indent}  `, '', binding)}
+${indent}</slot>`;
+    }
+    return this.renderElement(node, options, indent, attributes, binding);
+  }
+
+  private renderElement(node: FigmaNode, options: MarkupOptions, indent: string, attributes: string, binding: MarkupBinding): string {
+    const jsx = options.dialect === 'jsx';
+    const tag = binding.tag || this.getHtmlTag(node);
+    const content = binding.content;
+    const className = options.tailwind
+      ? this.layoutTranslator.toTailwindClasses(this.getNodeStyles(node)).join(' ')
+      : this.getClassName(node);
+    const classAttr = `${className ? ` ${jsx ? 'className' : 'class'}="${className}"` : ''}${attributes}`;
+
+    // Könyvtári komponens példánya: <Button variant="primary" />, a rétegei nem kerülnek a markupba
+    const usage = options.dialect !== 'html' ? this.libraryInstances?.render(node, options.dialect, indent, attributes) : null;
+    if (usage) {
+      this.libraryComponents.add(usage.name);
+      return usage.markup;
+    }
+
+    // Kép kitöltésű levél elem → <img>, feloldott URL híján placeholder
+    if (this.rendersAsImage(node)) {
+      const src = this.imageResolver.resolve(node) || '/placeholder.svg';
+      return `${indent}<img${classAttr} src="${src}" alt="${this.escapeAttribute(node.name || 'Image', options.dialect)}" />`;
+    }
+
+    // Vektorok és csak vektorokból álló csoportok (ikonok) inline SVG-ként
+    if (this.rendersAsSvg(node)) {
+      const svg = this.svgRenderer.render(node, { className, jsx, indent });
+      return attributes ? svg.replace('<svg', `<svg${attributes}`) : svg;
+    }
+
+    // Kötött szöveg: a prop értéke a Figma szöveg helyett
+    if (content !== undefined) {
+      return `${indent}<${tag}${classAttr}>${content}</${tag}>`;
+    }
+
+    // Vegyes stílusú szöveg, linkek és listák tagolt tartalomként
+    if (this.richText.isRich(node)) {
+      const content = this.richText.render(node, { jsx, indent: `${indent}  ` });
+      return `${indent}<${tag}${classAttr}>
+${options.dialect === 'angular' ? content.replace(/@/g, '&#64;') : content}
+${indent}</${tag}>`;
+    }
+
+    if (node.type === 'TEXT' && node.characters) {
+      return `${indent}<${tag}${classAttr}>${this.escapeText(node.characters, options.dialect)}</${tag}>`;
+    }
+
+    if (node.children && node.children.length > 0) {
+      const children = node.children.map(child => this.renderNode(child, options, `${indent}  `)).join('\n');
+      return `${indent}<${tag}${classAttr}>
+${children}
+${indent}</${tag}>`;
+    }
+
+    // Üres elem: JSX-ben önzáró, HTML alapú sablonokban explicit záró tag
+    return jsx ? `${indent}<${tag}${classAttr} />` : `${indent}<${tag}${classAttr}></${tag}>`;
+  }
+
+  // Egy node CSS deklarációi (camelCase); a szülő elrendezése a prepare() során gyűjtött szülő térképből
+  getNodeStyles(node: FigmaNode): Record<string, string> {
+    const styles: Record<string, string> = {};
+    const parent = this.parents.get(node.id);
+
+    // Méret, flex és grid elrendezés a közös auto layout fordítóval
+    Object.assign(styles, this.layoutTranslator.getStyles(node, parent));
+
+    // Auto layout és grid nélküli szülőben a constraints szerinti abszolút pozícionálás
+    if (parent && this.layoutTranslator.detectLayoutType(parent) === 'absolute') {
+      Object.assign(styles, this.layoutTranslator.getConstraintStyles(node, parent));
+    } else if (this.layoutTranslator.detectLayoutType(node) === 'absolute' && !styles.position) {
+      styles.position = 'relative';
+    }
+
+    // A gyökér frame kitölti az ablakot, így a gyermekek constraints-ei érvényesülnek
+    if (node.id === this.fluidRootId) {
+      styles.width = '100%';
+      if (styles.height && styles.height.endsWith('px')) {
+        styles.minHeight = styles.height;
+        delete styles.height;
+      }
+    }
+
+    // Az SVG maga rajzolja a kitöltést és a körvonalat
+    const isSvg = this.svgRenderer.canRender(node);
+
+    // Fills: egymásra rakott színek, gradiensek és képek háttérrétegként (szövegnél betűszín),
+    // <img> elemnél object-fit és a kép szűrői
+    if (!isSvg && node.fills && node.fills.length > 0) {
+      const renderAsImage = this.imageResolver.shouldRenderAsImg(node);
+      Object.assign(styles, this.paintConverter.getFillStyles(node, renderAsImage));
+      if (renderAsImage) {
+        styles.objectFit = this.imageResolver.getObjectFit(node);
+      }
+    } else if (!isSvg && node.backgroundColor) { // Fallback, ha nincs fills
+      styles.backgroundColor = this.colorToCSS(node.backgroundColor);
+    }
+
+    // Border / Strokes
+    if (!isSvg && node.strokes && node.strokes.length > 0 && node.strokeWeight !== undefined) {
+      const solidStroke = node.strokes.find(stroke => stroke.type === 'SOLID' && stroke.visible !== false);
+      if (solidStroke && solidStroke.color) {
+        styles.border = `${node.strokeWeight}px solid ${this.colorToCSS(solidStroke.color)}`;
+        // TODO: strokeAlign (INSIDE, OUTSIDE, CENTER) kezelése
+      }
+    }
+
+    // Border radius
+    if (node.cornerRadius !== undefined && node.cornerRadius > 0) {
+      styles.borderRadius = `${node.cornerRadius}px`;
+    }
+
+    // Opacity
+    if (node.opacity !== undefined && node.opacity !== 1) {
+      styles.opacity = node.opacity.toString();
+    }
+    Object.assign(styles, this.paintConverter.getBlendStyles(node));
+
+    // Szöveg stílusok
+    if (node.type === 'TEXT' && node.style) {
+      const style = node.style;
+      if (style.fontFamily) {
+        styles.fontFamily = `"${style.fontFamily}", sans-serif`;
+      }
+      if (style.fontSize) {
+        styles.fontSize = `${style.fontSize}px`;
+      }
+      if (style.fontWeight) {
+        styles.fontWeight = style.fontWeight.toString();
+      }
+      if (style.fills && style.fills.length > 0) {
+        const textFill = style.fills.find(fill => fill.type === 'SOLID' && fill.visible !== false);
+        if (textFill && textFill.color) {
+          styles.color = this.colorToCSS(textFill.color);
+        }
+      }
+      if (style.textAlignHorizontal) {
+        styles.textAlign = style.textAlignHorizontal.toLowerCase();
+      }
+      if (style.lineHeightPx) {
+        styles.lineHeight = `${style.lineHeightPx}px`;
+      } else if (style.lineHeightPercent) {
+        styles.lineHeight = `${style.lineHeightPercent}%`;
+      }
+      if (style.letterSpacing) {
+        styles.letterSpacing = `${style.letterSpacing}px`;
+      }
+      if (style.textDecoration) {
+        styles.textDecoration = style.textDecoration.toLowerCase().replace('_', '-');
+      }
+      if (style.textCase) {
+        if (style.textCase === 'UPPER') styles.textTransform = 'uppercase';
+        if (style.textCase === 'LOWER') styles.textTransform = 'lowercase';
+        if (style.textCase === 'TITLE') styles.textTransform = 'capitalize';
+      }
+    }
+
+    // Effektek (pl. árnyékok)
+    if (node.effects && node.effects.length > 0) {
+      const dropShadows = node.effects.filter(e => e.type === 'DROP_SHADOW' && e.visible !== false);
+      if (dropShadows.length > 0) {
+        styles.boxShadow = dropShadows.map(shadow => {
+          const color = this.colorToCSS(shadow.color || { r: 0, g: 0, b: 0, a: 0.25 });
+          const offsetX = shadow.offset?.x || 0;
+          const offsetY = shadow.offset?.y || 0;
+          const blurRadius = shadow.radius || 0;
+          const spread = shadow.spread || 0;
+          return `${offsetX}px ${offsetY}px ${blurRadius}px ${spread}px ${color}`;
+        }).join(', ');
+      }
+      // TODO: Inner shadow, layer blur, background blur
+    }
+
+    return this.styleTokens ? this.styleTokens.bindStyles(node, styles) : styles;
+  }
+
+  private toClassName(node: FigmaNode): string {
+    const baseName = node.name || node.type || 'element';
+    return baseName
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '-') // Nem alfanumerikus karakterek cseréje kötőjelre
+      .replace(/^-+|-+$/g, '') // Kezdő/záró kötőjelek eltávolítása
+      .replace(/-+/g, '-') // Több kötőjel egyre cserélése
+      || 'element';
+  }
+
+  private getHtmlTag(node: FigmaNode): string {
+    switch (node.type) {
+      case 'TEXT':
+        return this.richText.hasList(node) ? 'div' : 'span';
+      case 'FRAME':
+      case 'RECTANGLE':
+      case 'ELLIPSE':
+      case 'GROUP':
+      case 'COMPONENT':
+      case 'INSTANCE':
+        return 'div';
+      case 'VECTOR':
+        return 'svg';
+      case 'IMAGE':
+        return 'img';
+      default:
+        return 'div';
+    }
+  }
+
+  // { és } minden sablonnyelvben kifejezést nyit, Angularban a @ vezérlési blokkot
+  private escapeText(text: string, dialect: MarkupDialect): string {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/{/g, '&#123;')
+      .replace(/}/g, '&#125;');
+    return dialect === 'angular' ? escaped.replace(/@/g, '&#64;') : escaped;
+  }
+
+  private escapeAttribute(text: string, dialect: MarkupDialect): string {
+    return this.escapeText(text, dialect).replace(/"/g, '&quot;');
+  }
+
+  private colorToCSS(color: FigmaColor): string {
+    if (typeof color === 'string') return color; // Ha már CSS string
+    if (color.r !== undefined && color.g !== undefined && color.b !== undefined) {
+      const r = Math.round(color.r * 255);
+      const g = Math.round(color.g * 255);
+      const b = Math.round(color.b * 255);
+      const a = color.a !== undefined ? color.a : 1;
+      if (a < 1) {
+        return `rgba(${r}, ${g}, ${b}, ${a.toFixed(2)})`; // Kerekítés 2 tizedesjegyre
+      } else {
+        return `rgb(${r}, ${g}, ${b})`;
+      }
+    }
+    return 'transparent';
+  }
+
+  private camelToKebab(str: string): string {
+    return str.replace(/([a-z0-9]|(?=[A-Z]))([A-Z])/g, '$1-$2').toLowerCase();
+  }
+}
@@ -0,0 +1,509 @@
+import { DesignTokens, TextStyleToken } from './design-system-extractor';
+import type { ExportOptions } from './design-system-exporter';
+
+type ExportFile = { filename: string; content: string };
+
+interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface NativeShadow {
+  color: RgbaColor;
+  x: number;
+  y: number;
+  blur: number;
+}
+
+interface NativeTextStyle {
+  name: string;
+  family?: string;
+  generic: 'sans-serif' | 'serif' | 'monospace';
+  size: number;
+  weight: number;
+  lineHeight?: number;
+  letterSpacing: number;
+  uppercase: boolean;
+}
+
+const GENERIC_FAMILIES = ['sans-serif', 'serif', 'monospace'] as const;
+
+const SWIFT_WEIGHTS: Record<number, string> = {
+  100: 'ultraLight',
+  200: 'thin',
+  300: 'light',
+  400: 'regular',
+  500: 'medium',
+  600: 'semibold',
+  700: 'bold',
+  800: 'heavy',
+  900: 'black',
+};
+
+// SwiftUI beépített Color/Font tagjai: az azonos nevű token "Token" utótagot kap
+const SWIFT_RESERVED = new Set([
+  'primary', 'secondary', 'accentColor', 'black', 'white', 'gray', 'red', 'orange', 'yellow', 'green', 'mint',
+  'teal', 'cyan', 'blue', 'indigo', 'purple', 'pink', 'brown', 'clear', 'largeTitle', 'title', 'title2', 'title3',
+  'headline', 'subheadline', 'body', 'callout', 'footnote', 'caption', 'caption2', 'default', 'init', 'self',
+]);
+
+// DesignTokens → natív platformok: iOS (SwiftUI + asset catalog), Android erőforrás XML és Jetpack Compose.
+// A módok közül csak az alapértelmezett és a sötét téma kerül át, mert a platformok csak világos/sötét megjelenést ismernek;
+// a töréspontok webes fogalmak, ezek kimaradnak
+export class NativeTokenExporter {
+  private tokens: DesignTokens;
+  private options: ExportOptions;
+
+  constructor(tokens: DesignTokens, options: ExportOptions) {
+    this.tokens = tokens;
+    this.options = options;
+  }
+
+  // Swift Color/Font kiterjesztések + Colors.xcassets colorset-ek (sötét megjelenéssel, ha van sötét téma)
+  exportIOS(): ExportFile[] {
+    const files: ExportFile[] = [
+      { filename: 'DesignTokens.swift', content: this.generateSwift() },
+      { filename: 'Colors.xcassets/Contents.json', content: this.assetCatalogJSON({}) },
+    ];
+
+    const { light, dark } = this.getThemeColors();
+    this.getColorEntries().forEach(([name, color]) => {
+      files.push({ filename: `Colors.xcassets/${this.assetName(name)}.colorset/Contents.json`, content: this.colorsetJSON(color) });
+    });
+    Object.entries(light).forEach(([name, color]) => {
+      files.push({
+        filename: `Colors.xcassets/${this.assetName(name)}.colorset/Contents.json`,
+        content: this.colorsetJSON(color, dark[name]),
+      });
+    });
+
+    return files;
+  }
+
+  // res/values: colors, dimens, themes (TextAppearance stílusok); a sötét téma színei values-night alá
+  exportAndroid(): ExportFile[] {
+    const { light, dark } = this.getThemeColors();
+    const colors = [...this.getColorEntries(), ...Object.entries(light)];
+
+    const files: ExportFile[] = [
+      { filename: 'res/values/colors.xml', content: this.generateColorsXML(colors) },
+      { filename: 'res/values/dimens.xml', content: this.generateDimensXML() },
+      { filename: 'res/values/themes.xml', content: this.generateThemesXML() },
+    ];
+
+    if (Object.keys(dark).length > 0) {
+      files.push({ filename: 'res/values-night/colors.xml', content: this.generateColorsXML(Object.entries(dark)) });
+    }
+
+    return files;
+  }
+
+  exportCompose(): ExportFile[] {
+    return [{ filename: 'DesignTokens.kt', content: this.generateCompose() }];
+  }
+
+  // --- iOS ---
+
+  private generateSwift(): string {
+    const { light } = this.getThemeColors();
+    const colorNames = [...this.getColorEntries().map(([name]) => name), ...Object.keys(light)];
+    let swift = this.header('//');
+
+    swift += `import SwiftUI\n\n`;
+    swift += `public extension Color {\n`;
+    colorNames.forEach(name => {
+      swift += `    static let ${this.swiftName(name)} = Color("${this.assetName(name)}")\n`;
+    });
+    swift += `}\n\n`;
+
+    swift += `public extension Font {\n`;
+    this.getTextStyles().forEach(style => {
+      if (this.options.includeComments) {
+        swift += `    /// ${this.describeTextStyle(style)}\n`;
+      }
+      const weight = SWIFT_WEIGHTS[this.roundWeight(style.weight)];
+      const font = style.family
+        ? `Font.custom("${style.family}", size: ${style.size}).weight(.${weight})`
+        : `Font.system(size: ${style.size}, weight: .${weight}${style.generic === 'sans-serif' ? '' : `, design: .${style.generic === 'serif' ? 'serif' : 'monospaced'}`})`;
+      swift += `    static let ${this.swiftName(style.name)} = ${font}\n`;
+    });
+    swift += `}\n\n`;
+
+    swift += `public struct ShadowToken {\n`;
+    swift += `    public let color: Color\n    public let radius: CGFloat\n    public let x: CGFloat\n    public let y: CGFloat\n`;
+    swift += `}\n\n`;
+
+    swift += `public enum DesignTokens {\n`;
+    swift += this.swiftEnum('Spacing', 'CGFloat', this.getSpacingEntries().map(([name, px]) => [name, `${px}`]));
+    swift += this.swiftEnum('Radius', 'CGFloat', this.getRadiusEntries().map(([name, px]) => [name, `${px}`]));
+    // A SwiftUI shadow radius kb. a CSS blur fele
+    swift += this.swiftEnum('Shadow', 'ShadowToken', this.getShadowEntries().map(([name, shadow]) => [
+      name,
+      `ShadowToken(color: ${this.swiftColor(shadow.color)}, radius: ${this.round(shadow.blur / 2)}, x: ${shadow.x}, y: ${shadow.y})`,
+    ]));
+    swift += this.swiftEnum('Duration', 'TimeInterval', this.getDurationEntries().map(([name, ms]) => [name, `${ms / 1000}`]));
+    swift += `}\n`;
+
+    return swift;
+  }
+
+  private swiftEnum(name: string, type: string, entries: [string, string][]): string {
+    if (entries.length === 0) return '';
+    const members = entries.map(([key, value]) => `        public static let ${this.swiftName(key)}: ${type} = ${value}\n`).join('');
+    return `    public enum ${name} {\n${members}    }\n`;
+  }
+
+  private swiftColor(color: RgbaColor): string {
+    const channel = (value: number) => this.round(value / 255, 3);
+    return `Color(.sRGB, red: ${channel(color.r)}, green: ${channel(color.g)}, blue: ${channel(color.b)}, opacity: ${this.round(color.a, 3)})`;
+  }
+
+  private colorsetJSON(color: RgbaColor, dark?: RgbaColor): string {
+    const entry = (value: RgbaColor) => ({
+      'color-space': 'srgb',
+      components: {
+        red: (value.r / 255).toFixed(3),
+        green: (value.g / 255).toFixed(3),
+        blue: (value.b / 255).toFixed(3),
+        alpha: value.a.toFixed(3),
+      },
+    });
+
+    return this.assetCatalogJSON({
+      colors: [
+        { idiom: 'universal', color: entry(color) },
+        ...(dark ? [{ idiom: 'universal', appearances: [{ appearance: 'luminosity', value: 'dark' }], color: entry(dark) }] : []),
+      ],
+    });
+  }
+
+  private assetCatalogJSON(content: Record<string, unknown>): string {
+    return JSON.stringify({ ...content, info: { author: 'xcode', version: 1 } }, null, 2);
+  }
+
+  // --- Android ---
+
+  private generateColorsXML(colors: [string, RgbaColor][]): string {
+    const items = colors.map(([name, color]) => `    <color name="${this.resourceName(name)}">${this.argbHex(color, '#')}</color>`);
+    return this.resourcesXML(items);
+  }
+
+  private generateDimensXML(): string {
+    const items: string[] = [];
+    const section = (title: string, entries: string[]) => {
+      if (entries.length === 0) return;
+      if (this.options.includeComments) items.push(`    <!-- ${title} -->`);
+      items.push(...entries);
+    };
+
+    section('Spacing', this.getSpacingEntries().map(([name, px]) => this.dimen(`spacing-${name}`, `${px}dp`)));
+    section('Border Radius', this.getRadiusEntries().map(([name, px]) => this.dimen(`radius-${name}`, `${px}dp`)));
+    section('Font Sizes', Object.entries(this.tokens.typography.fontSizes)
+      .filter(([, value]) => value.endsWith('px'))
+      .map(([name, value]) => this.dimen(`font-size-${name}`, `${parseFloat(value)}sp`)));
+    // Az Android elevation a CSS blur fele, mint a React Native kimenetben
+    section('Elevation', this.getShadowEntries().map(([name, shadow]) => this.dimen(`elevation-${name}`, `${Math.max(1, Math.round(shadow.blur / 2))}dp`)));
+    section('Durations (ms)', this.getDurationEntries().map(([name, ms]) => (
+      `    <integer name="${this.resourceName(`duration-${name}`)}">${Math.round(ms)}</integer>`
+    )));
+
+    return this.resourcesXML(items);
+  }
+
+  private generateThemesXML(): string {
+    const colorNames = new Set(this.getColorEntries().map(([name]) => name));
+    const colorRef = (name: string) => colorNames.has(name) ? `@color/${this.resourceName(name)}` : undefined;
+    const themeItems = [
+      ['colorPrimary', colorRef('primary-500')],
+      ['colorSecondary', colorRef('secondary-500')],
+      ['colorError', colorRef('error-500')],
+      ['android:colorBackground', colorRef('neutral-50')],
+      ['colorOnSurface', colorRef('neutral-900')],
+    ].filter((item): item is [string, string] => !!item[1]);
+
+    const items = [
+      `    <style name="Theme.DesignTokens" parent="Theme.Material3.DayNight.NoActionBar">`,
+      ...themeItems.map(([name, value]) => `        <item name="${name}">${value}</item>`),
+      `    </style>`,
+    ];
+
+    this.getTextStyles().forEach(style => {
+      items.push('');
+      if (this.options.includeComments) items.push(`    <!-- ${this.describeTextStyle(style)} -->`);
+      items.push(`    <style name="TextAppearance.DesignTokens.${this.pascalName(style.name)}" parent="TextAppearance.Material3.BodyMedium">`);
+      // Egyedi betűcsaládhoz res/font erőforrás kell azonos névvel
+      items.push(`        <item name="android:fontFamily">${style.family ? `@font/${this.resourceName(style.family, false)}` : style.generic}</item>`);
+      items.push(`        <item name="android:textSize">${style.size}sp</item>`);
+      items.push(`        <item name="android:textFontWeight">${this.roundWeight(style.weight)}</item>`);
+      if (style.lineHeight) items.push(`        <item name="android:lineHeight">${style.lineHeight}sp</item>`);
+      // Az Android betűköz em-ben értendő
+      if (style.letterSpacing) items.push(`        <item name="android:letterSpacing">${this.round(style.letterSpacing / style.size, 4)}</item>`);
+      if (style.uppercase) items.push(`        <item name="android:textAllCaps">true</item>`);
+      items.push(`    </style>`);
+    });
+
+    return this.resourcesXML(items);
+  }
+
+  private dimen(name: string, value: string): string {
+    return `    <dimen name="${this.resourceName(name)}">${value}</dimen>`;
+  }
+
+  private resourcesXML(items: string[]): string {
+    const comment = this.options.includeComments ? `<!-- Design Tokens - Generated from Figma -->\n` : '';
+    return `<?xml version="1.0" encoding="utf-8"?>\n${comment}<resources>\n${items.join('\n')}\n</resources>\n`;
+  }
+
+  // --- Jetpack Compose ---
+
+  private generateCompose(): string {
+    const themes = Object.values(this.tokens.themes || {});
+    let kotlin = this.header('//');
+
+    kotlin += `package designtokens
+
+import androidx.compose.ui.graphics.Color
+import androidx.compose.ui.text.TextStyle
+import androidx.compose.ui.text.font.FontFamily
+import androidx.compose.ui.text.font.FontWeight
+import androidx.compose.ui.unit.dp
+import androidx.compose.ui.unit.sp
+
+object DesignTokens {
+`;
+
+    const toColor = ([name, color]: [string, RgbaColor]): [string, string] => [name, `Color(${this.argbHex(color, '0x')})`];
+    const objects = [
+      this.kotlinObject('Colors', this.getColorEntries().map(toColor)),
+      // Compose-ban minden mód elérhető, a váltás az alkalmazás témáján múlik
+      ...themes.map(theme => this.kotlinObject(`${this.pascalName(theme.name)}Colors`, this.parseColors(theme.colors).map(toColor))),
+      this.kotlinObject('Spacing', this.getSpacingEntries().map(([name, px]) => [name, `${px}.dp`])),
+      this.kotlinObject('Radius', this.getRadiusEntries().map(([name, px]) => [name, `${px}.dp`])),
+      this.kotlinObject('Elevation', this.getShadowEntries().map(([name, shadow]) => [name, `${Math.max(1, Math.round(shadow.blur / 2))}.dp`])),
+      this.kotlinObject('Typography', this.getTextStyles().map(style => {
+        const family = style.family ? 'FontFamily.Default' : { 'sans-serif': 'FontFamily.SansSerif', serif: 'FontFamily.Serif', monospace: 'FontFamily.Monospace' }[style.generic];
+        const properties = [
+          `fontFamily = ${family}${style.family ? ` /* ${style.family} */` : ''}`,
+          `fontSize = ${style.size}.sp`,
+          `fontWeight = FontWeight(${this.roundWeight(style.weight)})`,
+          ...(style.lineHeight ? [`lineHeight = ${style.lineHeight}.sp`] : []),
+          ...(style.letterSpacing ? [`letterSpacing = ${style.letterSpacing}.sp`] : []),
+        ];
+        return [style.name, `TextStyle(\n            ${properties.join(',\n            ')},\n        )`];
+      })),
+      this.kotlinObject('Duration', this.getDurationEntries().map(([name, ms]) => [name, `${Math.round(ms)}`]), 'const val'),
+    ];
+
+    kotlin += `${objects.filter(Boolean).join('\n')}}\n`;
+    return kotlin;
+  }
+
+  private kotlinObject(name: string, entries: [string, string][], declaration = 'val'): string {
+    if (entries.length === 0) return '';
+    const members = entries.map(([key, value]) => `        ${declaration} ${this.pascalName(key)} = ${value}\n`).join('');
+    return `    object ${name} {\n${members}    }\n`;
+  }
+
+  // --- Token gyűjtés ---
+
+  // Skálák, saját színek és az elnevezett (tömör) színstílusok; a színátmenetek kimaradnak
+  private getColorEntries(): [string, RgbaColor][] {
+    const colors = this.tokens.colors;
+    const entries: [string, string][] = [];
+    const scales = { primary: colors.primary, secondary: colors.secondary, neutral: colors.neutral, ...colors.semantic };
+
+    Object.entries(scales).forEach(([scale, values]) => {
+      Object.entries(values).forEach(([step, value]) => entries.push([`${scale}-${step}`, value as string]));
+    });
+    Object.entries(colors.custom).forEach(([name, value]) => entries.push([name, value]));
+    Object.entries(this.tokens.styles?.colors || {}).forEach(([name, value]) => entries.push([name, value]));
+
+    // Ütközéskor az első előfordulás marad; a témás (módonként változó) szín felülírja az azonos nevűt
+    const { light } = this.getThemeColors();
+    const unique = new Map<string, RgbaColor>();
+    entries.forEach(([name, value]) => {
+      const color = this.parseColor(value);
+      if (color && !unique.has(name) && !light[name]) unique.set(name, color);
+    });
+    return Array.from(unique.entries());
+  }
+
+  // Az alapértelmezett téma (világos) és a sötét mód színei azonos kulcsokkal
+  private getThemeColors(): { light: Record<string, RgbaColor>; dark: Record<string, RgbaColor> } {
+    const themes = Object.values(this.tokens.themes || {});
+    const light = themes.find(theme => theme.isDefault) || themes[0];
+    const dark = themes.find(theme => theme !== light && /dark|night|sötét/i.test(theme.name));
+
+    return {
+      light: Object.fromEntries(light ? this.parseColors(light.colors) : []),
+      // A sötét módból hiányzó színek a világos értéket kapják, így minden colorset-nek van sötét változata
+      dark: Object.fromEntries(dark ? this.parseColors({ ...light.colors, ...dark.colors }) : []),
+    };
+  }
+
+  private parseColors(values: Record<string, string>): [string, RgbaColor][] {
+    return Object.entries(values)
+      .map(([name, value]): [string, RgbaColor | undefined] => [name, this.parseColor(value)])
+      .filter((entry): entry is [string, RgbaColor] => !!entry[1]);
+  }
+
+  private getSpacingEntries(): [string, number][] {
+    const scale = Object.entries(this.tokens.spacing.scale).map(([key, value]): [string, string] => [`scale-${key}`, value]);
+    return this.pxEntries([...Object.entries(this.tokens.spacing.semantic), ...scale]);
+  }
+
+  private getRadiusEntries(): [string, number][] {
+    return this.pxEntries(Object.entries(this.tokens.borderRadius));
+  }
+
+  private pxEntries(entries: [string, string][]): [string, number][] {
+    return entries
+      .filter(([, value]) => value.endsWith('px'))
+      .map(([name, value]) => [name, parseFloat(value)]);
+  }
+
+  private getShadowEntries(): [string, NativeShadow][] {
+    const shadows = { ...this.tokens.shadows.elevation, ...this.tokens.shadows.colored, ...this.tokens.styles?.shadows };
+    return Object.entries(shadows)
+      .map(([name, value]): [string, NativeShadow | undefined] => [name, this.parseShadow(value)])
+      .filter((entry): entry is [string, NativeShadow] => !!entry[1]);
+  }
+
+  private getDurationEntries(): [string, number][] {
+    return Object.entries(this.tokens.animations.duration).map(([name, value]) => [
+      name,
+      value.endsWith('ms') ? parseFloat(value) : parseFloat(value) * 1000,
+    ]);
+  }
+
+  // Kinyert és elnevezett szövegstílusok; a px-ben nem értelmezhető méretűek kimaradnak
+  private getTextStyles(): NativeTextStyle[] {
+    const styles = { ...this.tokens.typography.textStyles, ...this.tokens.styles?.textStyles };
+    return Object.entries(styles)
+      .filter(([, style]) => style.fontSize.endsWith('px'))
+      .map(([name, style]) => this.toNativeTextStyle(name, style));
+  }
+
+  private toNativeTextStyle(name: string, style: TextStyleToken): NativeTextStyle {
+    const families = style.fontFamily.split(',').map(family => family.trim().replace(/^["']|["']$/g, ''));
+    const generic = GENERIC_FAMILIES.find(family => families.includes(family)) || 'sans-serif';
+    const family = families.find(candidate => !GENERIC_FAMILIES.includes(candidate as typeof GENERIC_FAMILIES[number]));
+    const size = parseFloat(style.fontSize);
+
+    // A px sormagasság marad, a szorzó a betűméretből számolódik, a "normal" a platform alapértéke
+    let lineHeight: number | undefined;
+    if (style.lineHeight.endsWith('px')) {
+      lineHeight = parseFloat(style.lineHeight);
+    } else if (!isNaN(parseFloat(style.lineHeight))) {
+      lineHeight = this.round(parseFloat(style.lineHeight) * size);
+    }
+
+    return {
+      name,
+      family,
+      generic,
+      size,
+      weight: style.fontWeight,
+      lineHeight,
+      letterSpacing: style.letterSpacing.endsWith('px') ? parseFloat(style.letterSpacing) : 0,
+      uppercase: style.textTransform === 'uppercase',
+    };
+  }
+
+  private describeTextStyle(style: NativeTextStyle): string {
+    const details = [`${style.family || style.generic} ${style.size}px / ${style.weight}`];
+    if (style.lineHeight) details.push(`line-height ${style.lineHeight}px`);
+    if (style.letterSpacing) details.push(`letter-spacing ${style.letterSpacing}px`);
+    return details.join(', ');
+  }
+
+  // --- Értékek ---
+
+  // #rrggbb, #rrggbbaa, rgb() és rgba() alakok; a színátmenet és a var() nem szín
+  private parseColor(value: string): RgbaColor | undefined {
+    const hex = value.match(/^#([0-9a-f]{6})([0-9a-f]{2})?$/i);
+    if (hex) {
+      const [r, g, b] = [0, 2, 4].map(offset => parseInt(hex[1].slice(offset, offset + 2), 16));
+      return { r, g, b, a: hex[2] ? this.round(parseInt(hex[2], 16) / 255) : 1 };
+    }
+
+    const rgba = value.match(/^rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\s*\)$/);
+    if (rgba) {
+      return { r: Number(rgba[1]), g: Number(rgba[2]), b: Number(rgba[3]), a: rgba[4] !== undefined ? Number(rgba[4]) : 1 };
+    }
+
+    return undefined;
+  }
+
+  // CSS box-shadow első, nem inset rétege; a platformok egy árnyékot tudnak
+  private parseShadow(value: string): NativeShadow | undefined {
+    const layers = value.split(/,(?![^(]*\))/).map(layer => layer.trim());
+    for (const layer of layers) {
+      const match = layer.match(/^(-?[\d.]+)(?:px)?\s+(-?[\d.]+)(?:px)?\s+([\d.]+)(?:px)?(?:\s+-?[\d.]+(?:px)?)?\s+(.+)$/);
+      const color = match && this.parseColor(match[4]);
+      if (match && color) {
+        return { color, x: Number(match[1]), y: Number(match[2]), blur: Number(match[3]) };
+      }
+    }
+    return undefined;
+  }
+
+  private argbHex(color: RgbaColor, prefix: string): string {
+    const hex = [Math.round(color.a * 255), color.r, color.g, color.b]
+      .map(channel => channel.toString(16).padStart(2, '0').toUpperCase())
+      .join('');
+    return `${prefix}${hex}`;
+  }
+
+  private roundWeight(weight: number): number {
+    return Math.min(900, Math.max(100, Math.round(weight / 100) * 100));
+  }
+
+  private round(value: number, digits = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+
+  private header(comment: string): string {
+    return this.options.includeComments ? `${comment} Design Tokens - Generated from Figma\n\n` : '';
+  }
+
+  // --- Elnevezés ---
+
+  // "2xl" → "xxl", hogy az azonosító ne számmal kezdődjön
+  private words(name: string): string[] {
+    return name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.replace(/^(\d)x([ls])$/i, (_, count: string, size: string) => `${'x'.repeat(Number(count))}${size}`));
+  }
+
+  private swiftName(name: string): string {
+    const [first = 'token', ...rest] = this.words(name);
+    const identifier = first.charAt(0).toLowerCase() + first.slice(1) + rest.map(word => this.capitalize(word)).join('');
+    const safe = /^\d/.test(identifier) ? `_${identifier}` : identifier;
+    return SWIFT_RESERVED.has(safe) ? `${safe}Token` : safe;
+  }
+
+  private pascalName(name: string): string {
+    const identifier = this.words(name).map(word => this.capitalize(word)).join('') || 'Token';
+    return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+  }
+
+  // Android erőforrásnév: kisbetű és aláhúzás, a prefix (pl. "ds-") a könyvtári resourcePrefix-nek felel meg
+  private resourceName(name: string, usePrefix = true): string {
+    const prefix = usePrefix ? this.options.prefix || '' : '';
+    const resource = `${prefix}${name}`.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[a-z]/.test(resource) ? resource : `token_${resource}`;
+  }
+
+  private assetName(name: string): string {
+    return `${this.options.prefix || ''}${name}`;
+  }
+
+  private capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+}
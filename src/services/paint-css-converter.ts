@@ -0,0 +1,334 @@
+import { FigmaColor, FigmaColorStop, FigmaImageFilters, FigmaNode, FigmaPaint, FigmaVector } from '../types/figma';
+import { ImageFillResolver } from './image-fill-resolver';
+
+// Egy CSS háttérréteg; a meg nem adott méret/pozíció/ismétlés a CSS alapértéke
+interface BackgroundLayer {
+  image: string;
+  size?: string;
+  position?: string;
+  repeat?: string;
+  blendMode?: string;
+}
+
+interface BoxSize {
+  width: number;
+  height: number;
+}
+
+// Figma blendMode → CSS; a LINEAR_BURN/LINEAR_DODGE-nak nincs CSS párja, a legközelebbi módra esnek
+const BLEND_MODES: Record<string, string> = {
+  NORMAL: 'normal',
+  DARKEN: 'darken',
+  MULTIPLY: 'multiply',
+  LINEAR_BURN: 'multiply',
+  COLOR_BURN: 'color-burn',
+  LIGHTEN: 'lighten',
+  SCREEN: 'screen',
+  LINEAR_DODGE: 'screen',
+  COLOR_DODGE: 'color-dodge',
+  OVERLAY: 'overlay',
+  SOFT_LIGHT: 'soft-light',
+  HARD_LIGHT: 'hard-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity',
+};
+
+const SCALE_MODE_SIZE: Record<NonNullable<FigmaPaint['scaleMode']>, string> = {
+  FILL: 'cover',
+  FIT: 'contain',
+  TILE: 'auto',
+  STRETCH: '100% 100%',
+};
+
+// Figma festések (fills) → CSS. A Figma a listát alulról felfelé rakja, a CSS háttérrétegek fentről lefelé;
+// a gradiensek szöge és a stopok helye a gradientHandlePositions fogópontokból, a node méretével számolva
+export class PaintCssConverter {
+  private imageResolver?: ImageFillResolver;
+
+  constructor(imageResolver?: ImageFillResolver) {
+    this.imageResolver = imageResolver;
+  }
+
+  // A node kitöltései CSS deklarációkként (camelCase). Szövegnél a kitöltés a betűszín, gradiens esetén
+  // háttérre vágva; az <img>-ként renderelt elemnél a kép szűrői a filter tulajdonságba kerülnek
+  getFillStyles(node: FigmaNode, renderAsImage = false): Record<string, string> {
+    const styles: Record<string, string> = {};
+    const paints = this.getVisiblePaints(node.fills);
+    const size = this.getBoxSize(node);
+
+    if (node.type === 'TEXT') {
+      Object.assign(styles, this.getTextFillStyles(paints, size));
+    } else if (renderAsImage) {
+      const image = paints.find(paint => paint.type === 'IMAGE');
+      const filter = image?.filters && this.filtersToCSS(image.filters);
+      if (filter) styles.filter = filter;
+    } else {
+      Object.assign(styles, this.getBackgroundStyles(paints, size));
+    }
+
+    return styles;
+  }
+
+  // A réteg keverési módja (kitöltéstől függetlenül, csoportokra és vektorokra is)
+  getBlendStyles(node: FigmaNode): Record<string, string> {
+    const blendMode = this.blendModeToCSS(node.blendMode);
+    return blendMode && blendMode !== 'normal' ? { mixBlendMode: blendMode } : {};
+  }
+
+  // Egyetlen festés CSS értéke (szín vagy gradiens) a node méretével; node nélkül a doboz négyzetesnek számít
+  paintToCSS(paint: FigmaPaint, node?: FigmaNode): string | undefined {
+    if (paint.type === 'SOLID' && paint.color) return this.colorToCSS(paint.color, paint.opacity);
+    const layers = this.paintToLayers(paint, node ? this.getBoxSize(node) : { width: 1, height: 1 });
+    return layers.length === 1 ? layers[0].image : undefined;
+  }
+
+  // Ahol nincs gradiens (pl. React Native), ott a felső festés egy színnel közelítve
+  getFallbackColor(paints?: FigmaPaint[]): string | undefined {
+    const paint = this.getVisiblePaints(paints).filter(candidate => candidate.type !== 'IMAGE').pop();
+    if (paint?.color) return this.colorToCSS(paint.color, paint.opacity);
+    const stop = paint?.gradientStops?.[0];
+    return stop ? this.colorToCSS(stop.color, paint.opacity) : undefined;
+  }
+
+  blendModeToCSS(blendMode?: string): string | undefined {
+    return blendMode ? BLEND_MODES[blendMode] : undefined;
+  }
+
+  // A Figma képkorrekciók (-1..1) CSS szűrőkkel közelítve; a highlights/shadows-nak nincs megfelelője
+  filtersToCSS(filters: FigmaImageFilters): string | undefined {
+    const functions: string[] = [];
+    if (filters.exposure) functions.push(`brightness(${this.round(Math.pow(2, filters.exposure))})`);
+    if (filters.contrast) functions.push(`contrast(${this.round(1 + filters.contrast)})`);
+    if (filters.saturation) functions.push(`saturate(${this.round(1 + filters.saturation)})`);
+    // Melegítés: enyhe szépia; hűtés és színárnyalat: színkör forgatás
+    if (filters.temperature && filters.temperature > 0) functions.push(`sepia(${this.round(filters.temperature * 0.5)})`);
+    if (filters.temperature && filters.temperature < 0) functions.push(`hue-rotate(${this.round(filters.temperature * 30)}deg)`);
+    if (filters.tint) functions.push(`hue-rotate(${this.round(filters.tint * 30)}deg)`);
+    return functions.length > 0 ? functions.join(' ') : undefined;
+  }
+
+  private getTextFillStyles(paints: FigmaPaint[], size: BoxSize): Record<string, string> {
+    const top = paints[paints.length - 1];
+    if (!top) return {};
+    if (top.type === 'SOLID' && top.color) return { color: this.colorToCSS(top.color, top.opacity) };
+
+    // Gradiens vagy kép szöveg: a háttér a betűk alakjára vágva
+    const background = this.getBackgroundStyles(paints, size);
+    if (!background.backgroundImage) return {};
+    return {
+      ...background,
+      backgroundClip: 'text',
+      WebkitBackgroundClip: 'text',
+      color: 'transparent',
+    };
+  }
+
+  // Egymásra rakott kitöltések: a legalsó tömör szín background-color, a többi háttérréteg
+  private getBackgroundStyles(paints: FigmaPaint[], size: BoxSize): Record<string, string> {
+    const styles: Record<string, string> = {};
+    const layers: BackgroundLayer[] = [];
+
+    paints.forEach((paint, index) => {
+      if (index === 0 && paint.type === 'SOLID' && paint.color && this.isNormalBlend(paint)) {
+        styles.backgroundColor = this.colorToCSS(paint.color, paint.opacity);
+        return;
+      }
+      // A CSS rétegsorrend fordított: a később jövő (felső) festés kerül előre
+      layers.unshift(...this.paintToLayers(paint, size));
+    });
+
+    if (layers.length === 0) return styles;
+
+    styles.backgroundImage = layers.map(layer => layer.image).join(', ');
+    const list = (values: Array<string | undefined>, fallback: string) => (
+      values.some(Boolean) ? values.map(value => value || fallback).join(', ') : undefined
+    );
+
+    const backgroundSize = list(layers.map(layer => layer.size), 'auto');
+    const backgroundPosition = list(layers.map(layer => layer.position), '0% 0%');
+    const backgroundRepeat = list(layers.map(layer => layer.repeat), 'repeat');
+    const backgroundBlendMode = list(layers.map(layer => layer.blendMode), 'normal');
+    if (backgroundSize) styles.backgroundSize = backgroundSize;
+    if (backgroundPosition) styles.backgroundPosition = backgroundPosition;
+    if (backgroundRepeat) styles.backgroundRepeat = backgroundRepeat;
+    if (backgroundBlendMode) styles.backgroundBlendMode = backgroundBlendMode;
+
+    return styles;
+  }
+
+  private paintToLayers(paint: FigmaPaint, size: BoxSize): BackgroundLayer[] {
+    const blendMode = this.isNormalBlend(paint) ? undefined : this.blendModeToCSS(paint.blendMode);
+    const withBlend = (layers: BackgroundLayer[]) => layers.map(layer => ({ ...layer, blendMode }));
+
+    switch (paint.type) {
+      case 'SOLID': {
+        // Felső rétegként a szín csak gradiensként rakható a háttérképek közé
+        if (!paint.color) return [];
+        const color = this.colorToCSS(paint.color, paint.opacity);
+        return withBlend([{ image: `linear-gradient(${color}, ${color})` }]);
+      }
+      case 'GRADIENT_LINEAR':
+        return withBlend([{ image: this.linearGradient(paint, size) }]);
+      case 'GRADIENT_RADIAL':
+        return withBlend([{ image: this.radialGradient(paint, size) }]);
+      case 'GRADIENT_ANGULAR':
+        return withBlend([{ image: this.conicGradient(paint, size) }]);
+      case 'GRADIENT_DIAMOND':
+        return withBlend(this.diamondGradient(paint));
+      case 'IMAGE': {
+        const layer = this.imageLayer(paint);
+        return layer ? withBlend([layer]) : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  // A CSS gradiens vonal a doboz közepén át halad, hossza |W·sinθ| + |H·cosθ|; a Figma stopok
+  // (kezdő → vég fogópont közötti arány) erre a vonalra vetítve adják a CSS stop pozíciókat
+  private linearGradient(paint: FigmaPaint, size: BoxSize): string {
+    const [start, end] = this.getHandles(paint, size, [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }]);
+    const angle = this.angleBetween(start, end);
+    const radians = angle * Math.PI / 180;
+    const direction = { x: Math.sin(radians), y: -Math.cos(radians) };
+    const length = Math.abs(size.width * direction.x) + Math.abs(size.height * direction.y);
+    const lineStart = {
+      x: size.width / 2 - direction.x * length / 2,
+      y: size.height / 2 - direction.y * length / 2,
+    };
+    const project = (point: FigmaVector) => length
+      ? ((point.x - lineStart.x) * direction.x + (point.y - lineStart.y) * direction.y) / length
+      : 0;
+    const from = project(start);
+    const to = project(end);
+
+    return `linear-gradient(${this.round(angle)}deg, ${this.stopsToCSS(paint, position => from + (to - from) * position)})`;
+  }
+
+  // Ellipszis a középpont és a két tengely fogópontjából; az elforgatott ellipszist a CSS nem ismeri, ezt elhagyjuk
+  private radialGradient(paint: FigmaPaint, size: BoxSize): string {
+    const [center, radiusX, radiusY] = this.getHandles(paint, size, [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }]);
+    const rx = Math.hypot(radiusX.x - center.x, radiusX.y - center.y) / size.width * 100;
+    const ry = Math.hypot(radiusY.x - center.x, radiusY.y - center.y) / size.height * 100;
+    const at = `${this.round(center.x / size.width * 100)}% ${this.round(center.y / size.height * 100)}%`;
+
+    return `radial-gradient(ellipse ${this.round(rx)}% ${this.round(ry)}% at ${at}, ${this.stopsToCSS(paint, position => position)})`;
+  }
+
+  // A szögletes gradiens a középpontból a második fogópont irányából indul, az óramutató járásával egyezően
+  private conicGradient(paint: FigmaPaint, size: BoxSize): string {
+    const [center, start] = this.getHandles(paint, size, [{ x: 0.5, y: 0.5 }, { x: 0.5, y: 0 }]);
+    const angle = this.angleBetween(center, start);
+    const at = `${this.round(center.x / size.width * 100)}% ${this.round(center.y / size.height * 100)}%`;
+
+    return `conic-gradient(from ${this.round(angle)}deg at ${at}, ${this.stopsToCSS(paint, position => position)})`;
+  }
+
+  // Rombusz: négy negyedben egy-egy sarok felé futó lineáris gradiens. A "to <sarok>" gradiens 50%-os vonala
+  // a másik két sarkon megy át, ami épp a rombusz éle, ezért a stopok a felére nyomódnak
+  private diamondGradient(paint: FigmaPaint): BackgroundLayer[] {
+    const center = paint.gradientHandlePositions?.[0] || { x: 0.5, y: 0.5 };
+    const cx = this.round(Math.min(Math.max(center.x, 0), 1) * 100);
+    const cy = this.round(Math.min(Math.max(center.y, 0), 1) * 100);
+    const stops = this.stopsToCSS(paint, position => position / 2);
+    const quadrant = (corner: string, width: number, height: number, position: string): BackgroundLayer => ({
+      image: `linear-gradient(to ${corner}, ${stops})`,
+      size: `${this.round(width)}% ${this.round(height)}%`,
+      position,
+      repeat: 'no-repeat',
+    });
+
+    return [
+      quadrant('top left', cx, cy, '0% 0%'),
+      quadrant('top right', 100 - cx, cy, '100% 0%'),
+      quadrant('bottom left', cx, 100 - cy, '0% 100%'),
+      quadrant('bottom right', 100 - cx, 100 - cy, '100% 100%'),
+    ];
+  }
+
+  // Kép réteg; STRETCH + imageTransform (vágás) esetén a méret és az eltolás a transzformációból
+  private imageLayer(paint: FigmaPaint): BackgroundLayer | undefined {
+    const ref = paint.gifRef || paint.imageRef;
+    const url = ref ? this.imageResolver?.resolveRef(ref) : undefined;
+    if (!url) return undefined;
+
+    const scaleMode = paint.scaleMode || 'FILL';
+    const layer: BackgroundLayer = {
+      image: `url('${url}')`,
+      size: SCALE_MODE_SIZE[scaleMode],
+      position: 'center',
+      repeat: scaleMode === 'TILE' ? 'repeat' : 'no-repeat',
+    };
+
+    if (scaleMode === 'TILE' && paint.scalingFactor) {
+      layer.size = `${Math.round(paint.scalingFactor * 100)}%`;
+    }
+
+    // Az imageTransform a node terét képezi le a kép (0..1) terére: [[sx, _, tx], [_, sy, ty]]
+    const transform = paint.imageTransform;
+    if (scaleMode === 'STRETCH' && transform) {
+      const [scaleX, , offsetX] = transform[0];
+      const [, scaleY, offsetY] = transform[1];
+      const percent = (scale: number, offset: number) => scale === 1 ? 0 : this.round(-offset / (scale - 1) * 100);
+      layer.size = `${this.round(100 / scaleX)}% ${this.round(100 / scaleY)}%`;
+      layer.position = `${percent(scaleX, offsetX)}% ${percent(scaleY, offsetY)}%`;
+    }
+
+    return layer;
+  }
+
+  // A fogópontok pixelben (a node méretével szorozva), hiányzók helyett a megadott alapértékek
+  private getHandles(paint: FigmaPaint, size: BoxSize, defaults: FigmaVector[]): FigmaVector[] {
+    return defaults.map((fallback, index) => {
+      const handle = paint.gradientHandlePositions?.[index] || fallback;
+      return { x: handle.x * size.width, y: handle.y * size.height };
+    });
+  }
+
+  // CSS szög: 0deg felfelé, az óramutató járásával egyezően (a képernyő y tengelye lefelé nő)
+  private angleBetween(from: FigmaVector, to: FigmaVector): number {
+    const angle = Math.atan2(to.x - from.x, -(to.y - from.y)) * 180 / Math.PI;
+    return (angle + 360) % 360;
+  }
+
+  private stopsToCSS(paint: FigmaPaint, toPosition: (position: number) => number): string {
+    const stops: FigmaColorStop[] = paint.gradientStops?.length
+      ? paint.gradientStops
+      : [{ position: 0, color: { r: 0, g: 0, b: 0, a: 0 } }, { position: 1, color: { r: 0, g: 0, b: 0, a: 0 } }];
+
+    return stops
+      .map(stop => `${this.colorToCSS(stop.color, paint.opacity)} ${this.round(toPosition(stop.position) * 100)}%`)
+      .join(', ');
+  }
+
+  private getVisiblePaints(paints?: FigmaPaint[]): FigmaPaint[] {
+    return (paints || []).filter(paint => paint.visible !== false && paint.opacity !== 0);
+  }
+
+  private isNormalBlend(paint: FigmaPaint): boolean {
+    return !paint.blendMode || paint.blendMode === 'NORMAL' || paint.blendMode === 'PASS_THROUGH';
+  }
+
+  private getBoxSize(node: FigmaNode): BoxSize {
+    const width = node.size?.x ?? node.absoluteBoundingBox?.width;
+    const height = node.size?.y ?? node.absoluteBoundingBox?.height;
+    return width && height ? { width, height } : { width: 1, height: 1 };
+  }
+
+  private colorToCSS(color: FigmaColor, opacity = 1): string {
+    const r = Math.round(color.r * 255);
+    const g = Math.round(color.g * 255);
+    const b = Math.round(color.b * 255);
+    const a = Math.round((color.a ?? 1) * opacity * 100) / 100;
+    if (a < 1) return `rgba(${r}, ${g}, ${b}, ${a})`;
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
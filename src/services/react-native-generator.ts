@@ -0,0 +1,379 @@
+import { FigmaNode, FigmaColor } from '../types/figma';
+import { ComponentFile, ComponentFileOptions, MarkupBuilder } from './markup-builder';
+import { PaintCssConverter } from './paint-css-converter';
+import { StyleTokenResolver } from './style-token-resolver';
+
+// StyleSheet érték: szám (dp), string (%, szín, kulcsszó) vagy beágyazott objektum (shadowOffset)
+// token: a design-tokens.json elnevezett színére mutató kifejezés
+type NativeStyleValue = string | number | { width: number; height: number } | { token: string };
+type NativeStyle = Record<string, NativeStyleValue>;
+
+// CSS tulajdonságok, amiknek nincs React Native megfelelője (vagy külön kezeljük őket)
+const UNSUPPORTED_PROPERTIES = new Set([
+  'display', 'boxSizing', 'boxShadow', 'border', 'transform', 'objectFit', 'textDecoration',
+  'backgroundImage', 'backgroundSize', 'backgroundPosition', 'backgroundRepeat', 'backgroundBlendMode',
+  'backgroundClip', 'WebkitBackgroundClip', 'mixBlendMode', 'filter',
+  'gridTemplateColumns', 'gridTemplateRows', 'gridColumn', 'gridRow', 'whiteSpace',
+]);
+
+// Számként átadandó tulajdonságok: a px érték dp lesz
+const NUMERIC_PROPERTIES = new Set(['opacity', 'flexGrow', 'flexShrink', 'zIndex', 'fontSize', 'letterSpacing']);
+
+// React Native / Expo komponens: FRAME → View, TEXT → Text, kép kitöltés → Image, vektor → SvgXml.
+// A fabejárás és a stílus kinyerés a közös markup magé (mint a JsonToReactConverter-nél),
+// a CSS deklarációkból StyleSheet.create bejegyzések, az árnyék effektekből platform shadow propok lesznek
+export class ReactNativeGenerator {
+  private markupBuilder: MarkupBuilder;
+  private paintConverter = new PaintCssConverter();
+  private usedComponents = new Set<string>();
+  // Inline SVG-k modul szintű konstansként: név → SVG forrás
+  private svgSources = new Map<string, string>();
+  private styleEntries = new Map<string, NativeStyle>();
+  private usesTokens = false;
+  private styleTokens?: StyleTokenResolver;
+
+  // imageFills: imageRef → URL térkép (FigmaApiService.getImageFills)
+  // styleTokens: elnevezett stílusok feloldója, ha a kimenet a tokenekre hivatkozzon
+  constructor(imageFills: Record<string, string> = {}, styleTokens?: StyleTokenResolver) {
+    this.markupBuilder = new MarkupBuilder(imageFills, styleTokens);
+    this.styleTokens = styleTokens;
+  }
+
+  generate(root: FigmaNode, options: ComponentFileOptions = {}): ComponentFile {
+    const name = this.sanitizeComponentName(options.componentName || root.name);
+    this.usedComponents = new Set(['View', 'StyleSheet']);
+    this.svgSources.clear();
+    this.usesTokens = false;
+    this.styleEntries.clear();
+
+    this.markupBuilder.prepare(root);
+    const jsx = this.renderNode(root, root, '    ');
+    const styles = this.generateStyleSheet();
+
+    const nativeImports = ['StyleSheet', 'StyleProp', 'ViewStyle', ...['Image', 'Text', 'View'].filter(component => this.usedComponents.has(component))];
+    const imports = [
+      `import React from 'react';`,
+      `import { ${nativeImports.join(', ')} } from 'react-native';`,
+    ];
+    if (this.svgSources.size > 0) imports.push(`import { SvgXml } from 'react-native-svg';`);
+    // A DesignSystemExporter json formátuma
+    if (this.usesTokens) imports.push(`import tokens from './design-tokens.json';`);
+
+    const svgConstants = Array.from(this.svgSources.entries())
+      .map(([constant, source]) => `const ${constant} = \`${source.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\`;`)
+      .join('\n\n');
+
+    const code = `${imports.join('\n')}
+${svgConstants ? `\n${svgConstants}\n` : ''}
+interface ${name}Props {
+  style?: StyleProp<ViewStyle>;
+}
+
+const ${name}: React.FC<${name}Props> = ({ style }) => {
+  return (
+${jsx}
+  );
+};
+
+${styles}
+
+export default ${name};
+`;
+
+    return {
+      name,
+      fileName: `${name}.tsx`,
+      code,
+      styles,
+      assets: this.markupBuilder.getAssets(),
+    };
+  }
+
+  private renderNode(node: FigmaNode, root: FigmaNode, indent: string): string {
+    const styleKey = this.registerStyle(node, root);
+    // A gyökér a hívótól kapott stílust is átveszi
+    const styleProp = node.id === root.id ? `style={[styles.${styleKey}, style]}` : `style={styles.${styleKey}}`;
+
+    if (this.markupBuilder.rendersAsImage(node)) {
+      const source = this.markupBuilder.getImageSource(node);
+      // Feloldatlan kép: a méretet és hátteret megtartó üres View
+      if (source) {
+        this.usedComponents.add('Image');
+        return `${indent}<Image ${styleProp} source={{ uri: '${source}' }} resizeMode="${this.getResizeMode(node)}" />`;
+      }
+    }
+
+    if (this.markupBuilder.rendersAsSvg(node)) {
+      const constant = `${styleKey}Xml`;
+      this.svgSources.set(constant, this.markupBuilder.renderNode(node, { dialect: 'html' }));
+      return `${indent}<SvgXml ${styleProp} xml={${constant}} />`;
+    }
+
+    if (node.type === 'TEXT') {
+      this.usedComponents.add('Text');
+      const text = node.characters || '';
+      // Kapcsos zárójel, < és sortörés JSX szövegben csak kifejezésként maradhat meg
+      const content = /[{}<>\n]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+      return `${indent}<Text ${styleProp}>${content}</Text>`;
+    }
+
+    const children = (node.children || []).filter(child => child.visible !== false);
+    if (children.length === 0) {
+      return `${indent}<View ${styleProp} />`;
+    }
+
+    return `${indent}<View ${styleProp}>
+${children.map(child => this.renderNode(child, root, `${indent}  `)).join('\n')}
+${indent}</View>`;
+  }
+
+  // A node CSS stílusai React Native stílusként, egyedi kulccsal a StyleSheet-ben
+  private registerStyle(node: FigmaNode, root: FigmaNode): string {
+    const key = this.toStyleKey(this.markupBuilder.getClassName(node));
+    const style = this.toNativeStyle(node, this.markupBuilder.getNodeStyles(node));
+
+    // A képernyő gyökere kitölti a rendelkezésre álló helyet
+    if (node.id === root.id && root.type === 'FRAME') {
+      delete style.width;
+      delete style.height;
+      style.flex = 1;
+    }
+
+    this.styleEntries.set(key, style);
+    return key;
+  }
+
+  private toNativeStyle(node: FigmaNode, boundCss: Record<string, string>): NativeStyle {
+    const style: NativeStyle = {};
+    const { css, colorTokens } = this.unwrapTokens(boundCss);
+
+    Object.entries(css).forEach(([property, value]) => {
+      if (UNSUPPORTED_PROPERTIES.has(property)) return;
+
+      if (property === 'padding' || property === 'margin') {
+        Object.assign(style, this.expandBoxShorthand(property, value));
+        return;
+      }
+      if (property === 'fontFamily') {
+        // Csak egy betűcsalád adható meg, tartalék lista nélkül
+        style.fontFamily = value.split(',')[0].trim().replace(/^["']|["']$/g, '');
+        return;
+      }
+      if (property === 'fontWeight') {
+        style.fontWeight = value;
+        return;
+      }
+      if (property === 'lineHeight') {
+        const lineHeight = this.toLineHeight(value, css.fontSize);
+        if (lineHeight !== undefined) style.lineHeight = lineHeight;
+        return;
+      }
+      if (property === 'textAlign') {
+        style.textAlign = value === 'justified' ? 'justify' : value;
+        return;
+      }
+      if (property === 'flex') {
+        // A CSS "1 1 0" kitöltés RN-ben flex: 1
+        style.flex = parseFloat(value) || 0;
+        return;
+      }
+
+      const converted = this.toNativeValue(property, value);
+      if (converted !== undefined) style[property] = converted;
+    });
+
+    // Rács: RN-ben nincs grid, sorfolytonos tördeléssel közelítjük
+    if (css.display === 'grid') {
+      style.flexDirection = 'row';
+      style.flexWrap = 'wrap';
+    }
+    if (css.display === 'none') style.display = 'none';
+
+    // CENTER constraint: a 50% / calc() pozíció a translate(-50%) nélkül (az nem támogatott) elcsúszna,
+    // ezért azon a tengelyen, amelyiken eltolás van, a Figma-beli eltolás marad
+    const translate = css.transform?.match(/translate\(([^,)]+)(?:,\s*([^)]+))?\)/);
+    const centeredX = (!!translate && translate[1].trim() !== '0') || css.left?.startsWith('calc(');
+    const centeredY = (!!translate && !!translate[2] && translate[2].trim() !== '0') || css.top?.startsWith('calc(');
+    if (centeredX) style.left = this.getOffset(node).x;
+    if (centeredY) style.top = this.getOffset(node).y;
+
+    // Gradiens nincs RN-ben: a háttér, illetve a gradiens szöveg a felső festés színét kapja
+    if (node.fills?.some(fill => fill.type.startsWith('GRADIENT_') && fill.visible !== false)) {
+      const fallback = this.paintConverter.getFallbackColor(node.fills);
+      if (css.backgroundClip === 'text') {
+        if (fallback) style.color = fallback;
+      } else if (!css.backgroundColor && fallback) {
+        style.backgroundColor = fallback;
+      }
+    }
+
+    Object.assign(style, this.parseBorder(css.border));
+    if (css.textDecoration) {
+      style.textDecorationLine = css.textDecoration === 'strikethrough' ? 'line-through' : css.textDecoration;
+    }
+    if (css.objectFit) style.resizeMode = this.getResizeMode(node);
+    Object.assign(style, this.getShadowStyles(node));
+
+    Object.entries(colorTokens).forEach(([property, name]) => {
+      style[property] = { token: name };
+      this.usesTokens = true;
+    });
+
+    return style;
+  }
+
+  // Az elnevezett stílusok CSS változói (var(--style-color-brand, #fff)) RN-ben nem élnek: a színek a
+  // tokenre hivatkoznak, a CSS formátumú betű- és árnyéktokenek helyett a tartalék érték marad
+  private unwrapTokens(boundCss: Record<string, string>): { css: Record<string, string>; colorTokens: Record<string, string> } {
+    const css: Record<string, string> = {};
+    const colorTokens: Record<string, string> = {};
+
+    Object.entries(boundCss).forEach(([property, value]) => {
+      const start = value.indexOf('var(--');
+      if (start === -1) {
+        css[property] = value;
+        return;
+      }
+
+      let end = start + 3;
+      for (let depth = 0; end < value.length; end++) {
+        if (value[end] === '(') depth++;
+        if (value[end] === ')' && --depth === 0) break;
+      }
+      const inner = value.slice(start + 4, end);
+      const comma = inner.indexOf(',');
+      const variable = inner.slice(2, comma).trim();
+      css[property] = `${value.slice(0, start)}${inner.slice(comma + 1).trim()}${value.slice(end + 1)}`;
+
+      const colorName = this.styleTokens?.getColorName(variable);
+      if (colorName && ['backgroundColor', 'color', 'border'].includes(property)) {
+        colorTokens[property === 'border' ? 'borderColor' : property] = colorName;
+      }
+    });
+
+    return { css, colorTokens };
+  }
+
+  private toNativeValue(property: string, value: string): NativeStyleValue | undefined {
+    // calc(), fit-content és társai: nincs RN megfelelő
+    if (/^(calc|min|max|clamp)\(|fit-content|max-content|min-content/.test(value)) return undefined;
+
+    const pxMatch = value.match(/^(-?\d+(?:\.\d+)?)px$/);
+    if (pxMatch) return Number(pxMatch[1]);
+    if (NUMERIC_PROPERTIES.has(property) && !isNaN(Number(value))) return Number(value);
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+    if (property === 'alignItems' || property === 'alignSelf' || property === 'justifyContent') {
+      if (value === 'start') return 'flex-start';
+      if (value === 'end') return 'flex-end';
+    }
+    return value;
+  }
+
+  // "8px 12px" → paddingVertical / paddingHorizontal, négy érték esetén oldalanként
+  private expandBoxShorthand(property: 'padding' | 'margin', value: string): NativeStyle {
+    const parts = value.split(/\s+/).map(part => parseFloat(part) || 0);
+    const [top, right = top, bottom = top, left = right] = parts;
+
+    if (top === bottom && left === right) {
+      return top === left
+        ? { [property]: top }
+        : { [`${property}Vertical`]: top, [`${property}Horizontal`]: left };
+    }
+    return {
+      [`${property}Top`]: top,
+      [`${property}Right`]: right,
+      [`${property}Bottom`]: bottom,
+      [`${property}Left`]: left,
+    };
+  }
+
+  private parseBorder(border?: string): NativeStyle {
+    const match = border?.match(/^(\d+(?:\.\d+)?)px\s+(\w+)\s+(.+)$/);
+    if (!match) return {};
+    return { borderWidth: Number(match[1]), borderStyle: match[2], borderColor: match[3] };
+  }
+
+  private toLineHeight(value: string, fontSize?: string): number | undefined {
+    if (value.endsWith('px')) return parseFloat(value);
+    // Százalékos sormagasság a betűmérethez képest
+    if (value.endsWith('%') && fontSize) {
+      return Math.round(parseFloat(fontSize) * parseFloat(value)) / 100;
+    }
+    return undefined;
+  }
+
+  // Az első látható vetett árnyék: iOS shadow* propok, Androidon elevation
+  private getShadowStyles(node: FigmaNode): NativeStyle {
+    const shadow = node.effects?.find(effect => effect.type === 'DROP_SHADOW' && effect.visible !== false);
+    if (!shadow) return {};
+
+    const color: FigmaColor = shadow.color || { r: 0, g: 0, b: 0, a: 0.25 };
+    const blur = shadow.radius || 0;
+
+    return {
+      shadowColor: `rgb(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)})`,
+      shadowOffset: { width: shadow.offset?.x || 0, height: shadow.offset?.y || 0 },
+      shadowOpacity: Math.round((color.a ?? 1) * 100) / 100,
+      // A Figma blur a teljes elmosás, az iOS shadowRadius nagyjából a fele
+      shadowRadius: blur / 2,
+      elevation: Math.max(1, Math.round(blur / 2)),
+    };
+  }
+
+  private getResizeMode(node: FigmaNode): string {
+    const fill = node.fills?.find(paint => paint.type === 'IMAGE' && paint.visible !== false);
+    switch (fill?.scaleMode) {
+      case 'FIT': return 'contain';
+      case 'TILE': return 'repeat';
+      case 'STRETCH': return 'stretch';
+      default: return 'cover';
+    }
+  }
+
+  private getOffset(node: FigmaNode): { x: number; y: number } {
+    const parent = this.markupBuilder.getParent(node);
+    if (!node.absoluteBoundingBox || !parent?.absoluteBoundingBox) return { x: 0, y: 0 };
+    return {
+      x: node.absoluteBoundingBox.x - parent.absoluteBoundingBox.x,
+      y: node.absoluteBoundingBox.y - parent.absoluteBoundingBox.y,
+    };
+  }
+
+  private generateStyleSheet(): string {
+    const entries = Array.from(this.styleEntries.entries()).map(([key, style]) => {
+      const properties = Object.entries(style)
+        .map(([property, value]) => `    ${property}: ${this.formatValue(value)},`)
+        .join('\n');
+      return properties ? `  ${key}: {\n${properties}\n  },` : `  ${key}: {},`;
+    });
+
+    return `const styles = StyleSheet.create({
+${entries.join('\n')}
+});`;
+  }
+
+  private formatValue(value: NativeStyleValue): string {
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'object' && 'token' in value) return `tokens.styles.colors['${value.token}']`;
+    if (typeof value === 'object') return `{ width: ${value.width}, height: ${value.height} }`;
+    return `'${value.replace(/'/g, "\\'")}'`;
+  }
+
+  // "hero-card-2" → heroCard2
+  private toStyleKey(className: string): string {
+    const key = className.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+    return /^[a-zA-Z_$]/.test(key) ? key : `_${key}`;
+  }
+
+  private sanitizeComponentName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9]/g, ' ')
+      .split(' ')
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+      .replace(/^[0-9]/, 'Component$&')
+      || 'Screen';
+  }
+}
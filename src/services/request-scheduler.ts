@@ -0,0 +1,205 @@
+export interface RequestSchedulerOptions {
+  // Figma allows ~500 requests per minute, we stay a bit below
+  maxRequestsPerMinute?: number;
+  // Lower bound the adaptive limit may shrink to after repeated 429s
+  minRequestsPerMinute?: number;
+  minIntervalMs?: number;
+  maxConcurrent?: number;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<RequestSchedulerOptions> = {
+  maxRequestsPerMinute: 450,
+  minRequestsPerMinute: 30,
+  minIntervalMs: 100,
+  maxConcurrent: 4,
+  maxRetries: 5,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60000,
+};
+
+const WINDOW_MS = 60000;
+
+// Queues fetches instead of failing them: requests wait for a free slot in the
+// per-minute budget, 429/5xx responses and network errors are retried with backoff
+// (honoring Retry-After), and identical in-flight GETs share a single network call.
+export class RequestScheduler {
+  private options: Required<RequestSchedulerOptions>;
+  private queue: Array<() => void> = [];
+  private inFlight = new Map<string, Promise<Response>>();
+  private startedAt: number[] = [];
+  private activeCount = 0;
+  private lastStart = 0;
+  private blockedUntil = 0;
+  private currentLimit: number;
+  private pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.currentLimit = this.options.maxRequestsPerMinute;
+  }
+
+  fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    if (method !== 'GET') {
+      return this.executeWithRetry(url, init);
+    }
+
+    // The key includes the auth headers: the same URL with different tokens must not share a response
+    const key = `${method} ${url} ${this.getHeaderKey(init.headers)}`;
+    let request = this.inFlight.get(key);
+    if (!request) {
+      request = this.executeWithRetry(url, init);
+      this.inFlight.set(key, request);
+      const cleanup = () => this.inFlight.delete(key);
+      request.then(cleanup, cleanup);
+    }
+
+    // Every caller, the first included, reads its own clone; the shared response stays unread
+    return request.then(response => response.clone());
+  }
+
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  getCurrentLimit(): number {
+    return this.currentLimit;
+  }
+
+  private async executeWithRetry(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireSlot();
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        // Network errors get the same backoff as 429/5xx responses
+        this.releaseSlot();
+        if (attempt >= this.options.maxRetries) throw error;
+        await new Promise(resolve => setTimeout(resolve, this.getBackoff(attempt)));
+        continue;
+      }
+      this.releaseSlot();
+
+      if (!this.isRetryable(response.status) || attempt >= this.options.maxRetries) {
+        if (response.ok) {
+          this.recordSuccess();
+        }
+        return response;
+      }
+
+      const delay = this.getRetryDelay(response, attempt);
+      if (response.status === 429) {
+        this.recordThrottle(delay);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.pump();
+    });
+  }
+
+  private releaseSlot(): void {
+    this.activeCount = Math.max(0, this.activeCount - 1);
+    this.pump();
+  }
+
+  private pump(): void {
+    if (this.pumpTimer) return;
+
+    while (this.queue.length > 0 && this.activeCount < this.options.maxConcurrent) {
+      const waitMs = this.getWaitTime();
+      if (waitMs > 0) {
+        this.pumpTimer = setTimeout(() => {
+          this.pumpTimer = null;
+          this.pump();
+        }, waitMs);
+        return;
+      }
+
+      const now = Date.now();
+      this.activeCount++;
+      this.lastStart = now;
+      this.startedAt.push(now);
+      this.queue.shift()!();
+    }
+  }
+
+  private getWaitTime(): number {
+    const now = Date.now();
+    this.startedAt = this.startedAt.filter(time => now - time < WINDOW_MS);
+
+    const waits = [
+      this.blockedUntil - now,
+      this.lastStart + this.options.minIntervalMs - now,
+    ];
+
+    if (this.startedAt.length >= this.currentLimit) {
+      waits.push(this.startedAt[0] + WINDOW_MS - now);
+    }
+
+    return Math.max(0, ...waits);
+  }
+
+  private isRetryable(status: number): boolean {
+    return status === 429 || status >= 500;
+  }
+
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = this.parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null) {
+      return retryAfter;
+    }
+
+    return this.getBackoff(attempt);
+  }
+
+  private getBackoff(attempt: number): number {
+    const backoff = Math.min(this.options.maxBackoffMs, this.options.baseBackoffMs * 2 ** attempt);
+    return backoff + Math.random() * 250;
+  }
+
+  private getHeaderKey(headers?: HeadersInit): string {
+    const entries: string[] = [];
+    new Headers(headers).forEach((value, name) => entries.push(`${name}=${value}`));
+    return entries.sort().join('&');
+  }
+
+  // Retry-After is either delta-seconds or an HTTP date
+  private parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+
+  // A 429 pauses the whole queue and halves the budget until successes restore it
+  private recordThrottle(delay: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + delay);
+    this.currentLimit = Math.max(this.options.minRequestsPerMinute, Math.floor(this.currentLimit / 2));
+  }
+
+  private recordSuccess(): void {
+    if (this.currentLimit < this.options.maxRequestsPerMinute) {
+      this.currentLimit++;
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { FigmaColor, FigmaHyperlink, FigmaLineType, FigmaNode, FigmaTypeStyle } from '../types/figma';
+
+export interface RichTextRenderOptions {
+  // JSX-ben style={{ ... }} objektum, HTML-ben style="..." attribútum
+  jsx?: boolean;
+  indent?: string;
+}
+
+interface TextRun {
+  text: string;
+  style: Partial<FigmaTypeStyle>;
+  link?: FigmaHyperlink;
+}
+
+interface TextLine {
+  runs: TextRun[];
+  type: FigmaLineType;
+  indentation: number;
+}
+
+// Szövegdíszítés, ami nem írható le szemantikus elemmel, inline stílusként marad
+const TEXT_CASE: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+};
+
+// TEXT node-ok vegyes stílusú szakaszai (characterStyleOverrides + styleOverrideTable),
+// linkjei és listái (lineTypes + lineIndentations) markupként
+export class RichTextRenderer {
+  // Kell-e a sima szöveg helyett tagolt tartalom
+  isRich(node: FigmaNode): boolean {
+    if (node.type !== 'TEXT' || !node.characters) return false;
+    return this.hasStyleOverrides(node)
+      || this.hasList(node)
+      || !!node.style?.hyperlink
+      || node.characters.includes('\n');
+  }
+
+  // Listát tartalmazó szöveg nem lehet inline elemben (<span>), a generátor blokk elemet használ
+  hasList(node: FigmaNode): boolean {
+    return node.type === 'TEXT' && !!node.lineTypes?.some(type => type !== 'NONE');
+  }
+
+  // A szöveg elem belseje, soronként behúzva
+  render(node: FigmaNode, options: RichTextRenderOptions = {}): string {
+    const indent = options.indent ?? '';
+    const output: string[] = [];
+    const lines = this.splitLines(node);
+
+    let index = 0;
+    while (index < lines.length) {
+      if (lines[index].type === 'NONE') {
+        const paragraph: string[] = [];
+        while (index < lines.length && lines[index].type === 'NONE') {
+          paragraph.push(this.renderRuns(lines[index].runs, options));
+          index++;
+        }
+        paragraph.forEach((line, lineIndex) => {
+          const text = lineIndex < paragraph.length - 1 ? `${line}<br />` : line;
+          if (text) output.push(`${indent}${text}`);
+        });
+      } else {
+        const start = index;
+        while (index < lines.length && lines[index].type !== 'NONE') index++;
+        output.push(...this.renderList(lines.slice(start, index), options, indent));
+      }
+    }
+
+    return output.join('\n');
+  }
+
+  private hasStyleOverrides(node: FigmaNode): boolean {
+    const table = node.styleOverrideTable || {};
+    return !!node.characterStyleOverrides?.some(id => id !== 0 && table[id]);
+  }
+
+  // Karakterenkénti override azonosítók → azonos stílusú szakaszok, sortörésenként bontva
+  private splitLines(node: FigmaNode): TextLine[] {
+    const characters = node.characters || '';
+    const overrides = node.characterStyleOverrides || [];
+    const table = node.styleOverrideTable || {};
+    const lines: TextLine[] = [];
+    let runs: TextRun[] = [];
+    let current: { id: number; text: string } | null = null;
+
+    const flushRun = () => {
+      if (current && current.text) {
+        const style = table[current.id] || {};
+        runs.push({ text: current.text, style, link: style.hyperlink ?? node.style?.hyperlink });
+      }
+      current = null;
+    };
+    const flushLine = () => {
+      flushRun();
+      const lineIndex = lines.length;
+      lines.push({
+        runs,
+        type: node.lineTypes?.[lineIndex] ?? 'NONE',
+        indentation: node.lineIndentations?.[lineIndex] ?? 0,
+      });
+      runs = [];
+    };
+
+    for (let i = 0; i < characters.length; i++) {
+      const char = characters[i];
+      if (char === '\n') {
+        flushLine();
+        continue;
+      }
+      // A tömb rövidebb lehet a szövegnél: a hiányzó végső karakterek alapstílusúak
+      const id = overrides[i] ?? 0;
+      if (!current || current.id !== id) {
+        flushRun();
+        current = { id, text: '' };
+      }
+      current.text += char;
+    }
+    flushLine();
+
+    return lines;
+  }
+
+  // Egymás utáni listasorok → <ul>/<ol>, a behúzás szerint egymásba ágyazva
+  private renderList(lines: TextLine[], options: RichTextRenderOptions, indent: string): string[] {
+    const output: string[] = [];
+    const stack: Array<{ tag: string; level: number }> = [];
+    const pad = (depth: number) => `${indent}${'  '.repeat(depth)}`;
+
+    const closeList = () => {
+      const list = stack.pop()!;
+      output.push(`${pad(stack.length * 2 + 1)}</li>`);
+      output.push(`${pad(stack.length * 2)}</${list.tag}>`);
+    };
+
+    lines.forEach(line => {
+      const tag = line.type === 'ORDERED' ? 'ol' : 'ul';
+      const level = line.indentation;
+
+      while (stack.length > 0 && stack[stack.length - 1].level > level) {
+        closeList();
+      }
+      if (stack.length > 0 && stack[stack.length - 1].level === level && stack[stack.length - 1].tag !== tag) {
+        closeList();
+      }
+
+      const top = stack[stack.length - 1];
+      if (!top || top.level < level) {
+        output.push(`${pad(stack.length * 2)}<${tag}>`);
+        stack.push({ tag, level });
+      } else {
+        output.push(`${pad(stack.length * 2 - 1)}</li>`);
+      }
+
+      output.push(`${pad(stack.length * 2 - 1)}<li>`);
+      const content = this.renderRuns(line.runs, options);
+      if (content) output.push(`${pad(stack.length * 2)}${content}`);
+    });
+
+    while (stack.length > 0) closeList();
+    return output;
+  }
+
+  // Egy sor szakaszai; az azonos linkre mutató szomszédos szakaszok egy <a> elembe kerülnek
+  private renderRuns(runs: TextRun[], options: RichTextRenderOptions): string {
+    let html = '';
+    let index = 0;
+
+    while (index < runs.length) {
+      const link = runs[index].link;
+      let inner = '';
+      while (index < runs.length && this.sameLink(runs[index].link, link)) {
+        inner += this.renderRun(runs[index], options);
+        index++;
+      }
+      html += link ? this.wrapLink(inner, link) : inner;
+    }
+
+    // JSX a soreleji/sorvégi szóközt elnyeli
+    if (options.jsx) {
+      html = html.replace(/^ +/, "{' '}").replace(/ +$/, "{' '}");
+    }
+    return html;
+  }
+
+  private renderRun(run: TextRun, options: RichTextRenderOptions): string {
+    let html = this.escape(run.text);
+    const { style } = run;
+
+    if (style.textDecoration === 'STRIKETHROUGH') html = `<s>${html}</s>`;
+    if (style.italic) html = `<em>${html}</em>`;
+    if (style.fontWeight !== undefined && style.fontWeight >= 600) html = `<strong>${html}</strong>`;
+
+    const css = this.getInlineStyles(run);
+    if (Object.keys(css).length > 0) {
+      html = `<span ${this.styleAttribute(css, options)}>${html}</span>`;
+    }
+    return html;
+  }
+
+  // Ami a szemantikus elemekből kimarad: betűcsalád, méret, szín, térköz, kisbetű/nagybetű
+  private getInlineStyles(run: TextRun): Record<string, string> {
+    const { style } = run;
+    const css: Record<string, string> = {};
+
+    if (style.fontFamily) css.fontFamily = `"${style.fontFamily}", sans-serif`;
+    if (style.fontSize) css.fontSize = `${style.fontSize}px`;
+    if (style.fontWeight !== undefined && style.fontWeight < 600) css.fontWeight = String(style.fontWeight);
+    if (style.letterSpacing) css.letterSpacing = `${style.letterSpacing}px`;
+    if (style.lineHeightPx) css.lineHeight = `${style.lineHeightPx}px`;
+    if (style.textCase && TEXT_CASE[style.textCase]) css.textTransform = TEXT_CASE[style.textCase];
+    // A linkek aláhúzását a böngésző adja
+    if (style.textDecoration === 'UNDERLINE' && !run.link) css.textDecoration = 'underline';
+
+    const fill = style.fills?.find(paint => paint.type === 'SOLID' && paint.visible !== false);
+    if (fill?.color) css.color = this.colorToCSS(fill.color, fill.opacity);
+
+    return css;
+  }
+
+  private wrapLink(inner: string, link: FigmaHyperlink): string {
+    if (link.type === 'NODE') {
+      return `<a href="#${this.escapeAttribute(link.nodeID || '')}">${inner}</a>`;
+    }
+    return `<a href="${this.escapeAttribute(link.url || '#')}" target="_blank" rel="noopener noreferrer">${inner}</a>`;
+  }
+
+  private sameLink(a?: FigmaHyperlink, b?: FigmaHyperlink): boolean {
+    if (!a || !b) return a === b;
+    return a.type === b.type && a.url === b.url && a.nodeID === b.nodeID;
+  }
+
+  private styleAttribute(css: Record<string, string>, options: RichTextRenderOptions): string {
+    if (options.jsx) {
+      const entries = Object.entries(css).map(([property, value]) => `${property}: ${JSON.stringify(value)}`);
+      return `style={{ ${entries.join(', ')} }}`;
+    }
+    const declarations = Object.entries(css)
+      .map(([property, value]) => `${property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}: ${value}`)
+      .join('; ');
+    return `style="${this.escapeAttribute(declarations)}"`;
+  }
+
+  private colorToCSS(color: FigmaColor, opacity = 1): string {
+    const r = Math.round(color.r * 255);
+    const g = Math.round(color.g * 255);
+    const b = Math.round(color.b * 255);
+    const a = Math.round((color.a ?? 1) * opacity * 100) / 100;
+    return a === 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${a})`;
+  }
+
+  // HTML és JSX szövegben is érvényes entitások ({ és } a JSX kifejezések miatt)
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/{/g, '&#123;')
+      .replace(/}/g, '&#125;');
+  }
+
+  private escapeAttribute(text: string): string {
+    return this.escape(text).replace(/"/g, '&quot;');
+  }
+}
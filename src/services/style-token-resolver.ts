@@ -0,0 +1,233 @@
+import { FigmaColor, FigmaEffect, FigmaNode, FigmaPaint, FigmaStyle, FigmaTypeStyle } from '../types/figma';
+import { GridStyleToken, StyleTokens, TextStyleToken } from './design-system-extractor';
+import { PaintCssConverter } from './paint-css-converter';
+
+// A node.styles kulcsai: melyik tulajdonságot adja az elnevezett stílus
+export type StyleSlot = 'fill' | 'stroke' | 'text' | 'effect' | 'grid';
+
+export interface StyleTokenReference {
+  styleId: string;
+  type: FigmaStyle['styleType'];
+  // A token kulcsa (a stílus nevéből képzett slug)
+  name: string;
+}
+
+// Szövegstílus tulajdonságai és a hozzájuk tartozó --text-<név>-* változó utótagok
+const TEXT_STYLE_PROPERTIES: Record<string, string> = {
+  fontFamily: 'font-family',
+  fontSize: 'font-size',
+  fontWeight: 'font-weight',
+  lineHeight: 'line-height',
+  letterSpacing: 'letter-spacing',
+};
+
+// Az elnevezett stílusok változói külön névtérben: a "Primary/500" színstílus (--style-color-primary-500)
+// így nem írja felül a skála --color-primary-500 változóját, sem az "sm" árnyék a --shadow-sm-et
+export const NAMED_STYLE_NAMESPACE = 'style-';
+
+const TEXT_CASE: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+};
+
+// Elnevezett Figma stílusok (FILL/TEXT/EFFECT/GRID) → design tokenek. A fájl csak a stílusok nevét
+// adja, az értéküket az első olyan node-ból olvassuk ki, amelyik hivatkozik rájuk. A generátorok a
+// bindStyles()-szal a nyers érték helyett a tokenre hivatkoznak: var(--style-color-brand-primary, #3366e6)
+export class StyleTokenResolver {
+  private styles: Record<string, FigmaStyle>;
+  private names = new Map<string, string>();
+  // Stílus id → az első hivatkozó node és a hivatkozás helye
+  private sources = new Map<string, { node: FigmaNode; slot: StyleSlot }>();
+  private paintConverter = new PaintCssConverter();
+  // A Design System export változó előtagja (ExportOptions.prefix)
+  private prefix: string;
+
+  constructor(document: FigmaNode, styles: Record<string, FigmaStyle> = {}, prefix = '') {
+    this.styles = styles;
+    this.prefix = prefix;
+    this.assignNames();
+    this.collectSources(document);
+  }
+
+  getReference(node: FigmaNode, slot: StyleSlot): StyleTokenReference | undefined {
+    const styleId = node.styles?.[slot];
+    const name = styleId ? this.names.get(styleId) : undefined;
+    if (!styleId || !name || !this.sources.has(styleId)) return undefined;
+    return { styleId, type: this.styles[styleId].styleType, name };
+  }
+
+  hasStyles(): boolean {
+    return this.sources.size > 0;
+  }
+
+  // A node CSS deklarációiban az elnevezett stílusból jövő értékek tokenre cserélve, a nyers érték tartalékként marad
+  bindStyles(node: FigmaNode, styles: Record<string, string>): Record<string, string> {
+    const bound = { ...styles };
+
+    const fill = this.getReference(node, 'fill');
+    if (fill) {
+      const property = node.type === 'TEXT' ? 'color' : 'backgroundColor';
+      if (bound[property]) bound[property] = this.variable(`color-${fill.name}`, bound[property]);
+      // Egyetlen gradiens réteg: a token maga a gradiens
+      const layers = node.fills?.filter(paint => paint.visible !== false) || [];
+      if (bound.backgroundImage && layers.length === 1 && layers[0].type.startsWith('GRADIENT_')) {
+        bound.backgroundImage = this.variable(`color-${fill.name}`, bound.backgroundImage);
+      }
+    }
+
+    const stroke = this.getReference(node, 'stroke');
+    const border = bound.border?.match(/^(\S+ \S+) (.+)$/);
+    if (stroke && border) {
+      bound.border = `${border[1]} ${this.variable(`color-${stroke.name}`, border[2])}`;
+    }
+
+    const text = this.getReference(node, 'text');
+    if (text) {
+      Object.entries(TEXT_STYLE_PROPERTIES).forEach(([property, suffix]) => {
+        if (bound[property]) bound[property] = this.variable(`text-${text.name}-${suffix}`, bound[property]);
+      });
+    }
+
+    const effect = this.getReference(node, 'effect');
+    if (effect && bound.boxShadow) {
+      bound.boxShadow = this.variable(`shadow-${effect.name}`, bound.boxShadow);
+    }
+
+    const grid = this.getReference(node, 'grid');
+    if (grid) {
+      if (bound.gridTemplateColumns) bound.gridTemplateColumns = this.variable(`grid-${grid.name}-columns`, bound.gridTemplateColumns);
+      if (bound.columnGap) bound.columnGap = this.variable(`grid-${grid.name}-gutter`, bound.columnGap);
+    }
+
+    return bound;
+  }
+
+  // A bindStyles() színváltozójából (var(--<előtag>style-color-<név>, ...)) a stílus kulcsa
+  getColorName(variable: string): string | undefined {
+    const start = `${this.prefix}${NAMED_STYLE_NAMESPACE}color-`;
+    return variable.startsWith(start) ? variable.slice(start.length) : undefined;
+  }
+
+  // Stílustípusonként a hivatkozó node-ból kiolvasott értékek
+  getTokens(): StyleTokens {
+    const tokens: StyleTokens = { colors: {}, textStyles: {}, shadows: {}, grids: {} };
+
+    this.sources.forEach(({ node, slot }, styleId) => {
+      const name = this.names.get(styleId)!;
+      switch (this.styles[styleId].styleType) {
+        case 'FILL': {
+          const color = this.paintToCSS(slot === 'stroke' ? node.strokes : node.fills, node);
+          if (color) tokens.colors[name] = color;
+          break;
+        }
+        case 'TEXT':
+          if (node.style) tokens.textStyles[name] = this.toTextStyleToken(node.style);
+          break;
+        case 'EFFECT': {
+          const shadow = this.effectsToCSS(node.effects || []);
+          if (shadow) tokens.shadows[name] = shadow;
+          break;
+        }
+        case 'GRID': {
+          const grid = this.toGridToken(node);
+          if (grid) tokens.grids[name] = grid;
+          break;
+        }
+      }
+    });
+
+    return tokens;
+  }
+
+  // Típusonként egyedi kulcsok; azonos nevű stílusok -2, -3 utótagot kapnak
+  private assignNames(): void {
+    const used = new Set<string>();
+    Object.entries(this.styles).forEach(([styleId, style]) => {
+      const base = this.slugify(style.name) || style.styleType.toLowerCase();
+      let name = base;
+      for (let index = 2; used.has(`${style.styleType}:${name}`); index++) {
+        name = `${base}-${index}`;
+      }
+      used.add(`${style.styleType}:${name}`);
+      this.names.set(styleId, name);
+    });
+  }
+
+  private collectSources(node: FigmaNode): void {
+    Object.entries(node.styles || {}).forEach(([slot, styleId]) => {
+      if (this.styles[styleId] && !this.sources.has(styleId)) {
+        this.sources.set(styleId, { node, slot: slot as StyleSlot });
+      }
+    });
+    node.children?.forEach(child => this.collectSources(child));
+  }
+
+  private variable(name: string, fallback: string): string {
+    return `var(--${this.prefix}${NAMED_STYLE_NAMESPACE}${name}, ${fallback})`;
+  }
+
+  private paintToCSS(paints: FigmaPaint[] | undefined, node: FigmaNode): string | undefined {
+    const paint = paints?.find(candidate => candidate.visible !== false);
+    if (paint?.type === 'SOLID' && paint.color) {
+      return this.colorToCSS(paint.color, paint.opacity);
+    }
+    // Gradiens: a fogópontok a hivatkozó node méretével számolva, így a token a tartalék értékkel egyezik
+    if (paint?.type.startsWith('GRADIENT_') && paint.gradientStops?.length) {
+      return this.paintConverter.paintToCSS(paint, node);
+    }
+    return undefined;
+  }
+
+  private toTextStyleToken(style: FigmaTypeStyle): TextStyleToken {
+    return {
+      fontFamily: `"${style.fontFamily}", sans-serif`,
+      fontSize: `${style.fontSize}px`,
+      fontWeight: style.fontWeight || 400,
+      lineHeight: style.lineHeightPx ? `${style.lineHeightPx}px` : 'normal',
+      letterSpacing: style.letterSpacing ? `${style.letterSpacing}px` : 'normal',
+      ...(style.textCase && TEXT_CASE[style.textCase] ? { textTransform: TEXT_CASE[style.textCase] } : {}),
+    };
+  }
+
+  // Az effekt stílusból csak az árnyékok lesznek tokenek; az elmosás (blur) nem box-shadow
+  private effectsToCSS(effects: FigmaEffect[]): string | undefined {
+    const shadows = effects
+      .filter(effect => (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') && effect.visible !== false)
+      .map(effect => {
+        const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+        const color = this.colorToCSS(effect.color || { r: 0, g: 0, b: 0, a: 0.25 });
+        return `${inset}${effect.offset?.x || 0}px ${effect.offset?.y || 0}px ${effect.radius || 0}px ${effect.spread || 0}px ${color}`;
+      });
+    return shadows.length > 0 ? shadows.join(', ') : undefined;
+  }
+
+  private toGridToken(node: FigmaNode): GridStyleToken | undefined {
+    const columns = node.layoutGrids?.find(grid => grid.pattern === 'COLUMNS' && grid.visible !== false && (grid.count ?? 0) > 0);
+    if (!columns) return undefined;
+    // Ugyanaz a sávsablon, amit az AutoLayoutTranslator a grid konténerre ad
+    const track = columns.alignment === 'STRETCH' || !columns.sectionSize ? 'minmax(0, 1fr)' : `${columns.sectionSize}px`;
+    return {
+      columns: `repeat(${columns.count}, ${track})`,
+      gutter: `${columns.gutterSize || 0}px`,
+      margin: `${columns.offset || 0}px`,
+    };
+  }
+
+  private colorToCSS(color: FigmaColor, opacity = 1): string {
+    const r = Math.round(color.r * 255);
+    const g = Math.round(color.g * 255);
+    const b = Math.round(color.b * 255);
+    const a = Math.round((color.a ?? 1) * opacity * 100) / 100;
+    if (a < 1) return `rgba(${r}, ${g}, ${b}, ${a})`;
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  private slugify(name: string): string {
+    return name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
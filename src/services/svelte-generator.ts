@@ -0,0 +1,62 @@
+import { FigmaNode } from '../types/figma';
+import { ComponentFile, ComponentFileOptions, MarkupBuilder } from './markup-builder';
+import { StyleTokenResolver } from './style-token-resolver';
+import { LIBRARY_IMPORT_PATH, LibraryInstanceResolver } from './library-instance-resolver';
+
+// Svelte egyfájlos komponens (.svelte): markup a közös magból, komponensre scope-olt <style> blokk
+export class SvelteGenerator {
+  private markupBuilder: MarkupBuilder;
+
+  // imageFills: imageRef → URL térkép (FigmaApiService.getImageFills)
+  // styleTokens: elnevezett stílusok feloldója, ha a kimenet a tokenekre hivatkozzon
+  // libraryInstances: a könyvtári komponensek példányai importált komponensként jelennek meg
+  constructor(imageFills: Record<string, string> = {}, styleTokens?: StyleTokenResolver, libraryInstances?: LibraryInstanceResolver) {
+    this.markupBuilder = new MarkupBuilder(imageFills, styleTokens, libraryInstances);
+  }
+
+  generate(root: FigmaNode, options: ComponentFileOptions = {}): ComponentFile {
+    const name = this.sanitizeComponentName(options.componentName || root.name);
+    // A képernyő frame kitölti a tárolót, a komponensek megtartják a Figma méretüket
+    const { markup, css, assets } = this.markupBuilder.build(root, {
+      dialect: 'svelte',
+      tailwind: options.tailwind,
+      fluidRoot: root.type === 'FRAME',
+    });
+
+    const sections = [markup];
+    const libraryComponents = this.markupBuilder.getLibraryComponents();
+    if (libraryComponents.length > 0) {
+      sections.unshift(`<script lang="ts">
+  import { ${libraryComponents.join(', ')} } from '${LIBRARY_IMPORT_PATH}';
+</script>`);
+    }
+    if (css) {
+      sections.push(`<style>
+${this.indent(css.trim(), '  ')}
+</style>`);
+    }
+
+    return {
+      name,
+      fileName: `${name}.svelte`,
+      code: `${sections.join('\n\n')}\n`,
+      styles: css,
+      assets,
+    };
+  }
+
+  private indent(text: string, prefix: string): string {
+    return text.split('\n').map(line => (line ? `${prefix}${line}` : line)).join('\n');
+  }
+
+  private sanitizeComponentName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9]/g, ' ')
+      .split(' ')
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+      .replace(/^[0-9]/, 'Component$&')
+      || 'Component';
+  }
+}
@@ -0,0 +1,671 @@
+import { FigmaColor, FigmaNode, FigmaPaint, FigmaVectorNetwork } from '../types/figma';
+
+export interface SvgRenderOptions {
+  className?: string;
+  // JSX-ben camelCase attribútumok (fillRule, strokeWidth...), HTML-ben kebab-case
+  jsx?: boolean;
+  indent?: string;
+}
+
+type Attributes = Record<string, string | number | undefined>;
+
+// SVG matrix(a b c d e f) sorrendben
+type Matrix = [number, number, number, number, number, number];
+
+interface RenderContext {
+  options: SvgRenderOptions;
+  defs: string[];
+  indent: string;
+  // A gyermekek relativeTransform-ja ebben a térben értendő, gyökér koordinátákra vetítve
+  container: Matrix;
+  rootBox?: { x: number; y: number };
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Vektoros node típusok, amelyek önállóan is SVG-ként jelennek meg
+const VECTOR_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON']);
+
+// Egyszerű alakzatok, amelyek vektoros csoportban (ikonban) <rect>/<ellipse> elemmé válnak
+const SHAPE_TYPES = new Set(['RECTANGLE', 'ELLIPSE', 'LINE']);
+
+const CONTAINER_TYPES = new Set(['GROUP', 'FRAME', 'COMPONENT', 'INSTANCE']);
+
+// Ezeknek nincs saját koordinátarendszerük: a gyermekek a szülő térben vannak
+const GROUP_LIKE_TYPES = new Set(['GROUP', 'BOOLEAN_OPERATION']);
+
+const STROKE_CAPS: Record<string, string> = {
+  NONE: 'butt',
+  ROUND: 'round',
+  SQUARE: 'square',
+};
+
+const STROKE_JOINS: Record<string, string> = {
+  MITER: 'miter',
+  BEVEL: 'bevel',
+  ROUND: 'round',
+};
+
+// Vektoros node-ok inline SVG-vé alakítása: fillGeometry/strokeGeometry (REST, geometry=paths),
+// vectorPaths vagy vectorNetwork alapján, kitöltéssel, körvonallal, winding rule-lal és
+// boolean műveletekkel – így az ikonokhoz nem kell külön képexport
+export class SvgRenderer {
+  private idCounter = 0;
+
+  // Önálló vektor, vagy csak vektorokból álló csoport (pl. ikon komponens)
+  canRender(node: FigmaNode): boolean {
+    if (node.visible === false) return false;
+    if (node.fills?.some(fill => fill.type === 'IMAGE')) return false;
+    if (VECTOR_TYPES.has(node.type)) return this.hasGeometry(node);
+    if (!CONTAINER_TYPES.has(node.type) || !node.children?.length) return false;
+    if (node.layoutMode && node.layoutMode !== 'NONE') return false;
+
+    return node.children.every(child => child.visible === false || this.isVectorContent(child));
+  }
+
+  render(node: FigmaNode, options: SvgRenderOptions = {}): string {
+    const indent = options.indent || '';
+    const width = this.round(node.size?.x ?? node.absoluteBoundingBox?.width ?? 0);
+    const height = this.round(node.size?.y ?? node.absoluteBoundingBox?.height ?? 0);
+    const defs: string[] = [];
+    const rootTransform = this.toMatrix(node);
+
+    const body = this.renderContent(node, {
+      options,
+      defs,
+      indent: `${indent}  `,
+      container: GROUP_LIKE_TYPES.has(node.type) && rootTransform ? this.invert(rootTransform) : IDENTITY,
+      rootBox: node.absoluteBoundingBox,
+    }, IDENTITY);
+    const defsMarkup = defs.length > 0
+      ? `${indent}  <defs>\n${defs.map(def => `${indent}    ${def}`).join('\n')}\n${indent}  </defs>\n`
+      : '';
+
+    const attributes = this.formatAttributes({
+      [options.jsx ? 'className' : 'class']: options.className,
+      width,
+      height,
+      viewBox: `0 0 ${width} ${height}`,
+      fill: 'none',
+      xmlns: 'http://www.w3.org/2000/svg',
+    }, options);
+
+    // Az overflow a körvonalak miatt kell, amelyek a befoglaló dobozon túllóghatnak
+    return `${indent}<svg ${attributes} ${options.jsx ? 'style={{ overflow: \'visible\' }}' : 'style="overflow: visible"'}>
+${defsMarkup}${body}
+${indent}</svg>`;
+  }
+
+  private isVectorContent(node: FigmaNode): boolean {
+    if (VECTOR_TYPES.has(node.type)) return this.hasGeometry(node);
+    if (SHAPE_TYPES.has(node.type)) return !node.fills?.some(fill => fill.type === 'IMAGE');
+    return node.type === 'GROUP' && !!node.children?.every(child => this.isVectorContent(child));
+  }
+
+  private hasGeometry(node: FigmaNode): boolean {
+    return !!(node.fillGeometry?.length || node.strokeGeometry?.length || node.vectorPaths?.length || node.vectorNetwork?.edges.length)
+      || SHAPE_TYPES.has(node.type)
+      || (node.type === 'BOOLEAN_OPERATION' && !!node.children?.length);
+  }
+
+  // matrix: a node saját terét a gyökér (viewBox) koordinátáira vetíti
+  private renderContent(node: FigmaNode, context: RenderContext, matrix: Matrix): string {
+    if (node.visible === false) return '';
+
+    const { options, indent } = context;
+    const opacity = node.opacity !== undefined && node.opacity < 1 ? node.opacity : undefined;
+
+    let content: string;
+    if (node.type === 'BOOLEAN_OPERATION' && !node.fillGeometry?.length) {
+      content = this.renderBooleanOperation(node, context);
+    } else if (VECTOR_TYPES.has(node.type) || SHAPE_TYPES.has(node.type)) {
+      content = this.wrapTransform(this.renderShape(node, context), matrix, context);
+    } else {
+      const childContext = GROUP_LIKE_TYPES.has(node.type) ? context : { ...context, container: matrix };
+      content = (node.children || [])
+        .map(child => this.renderContent(child, childContext, this.getNodeMatrix(child, childContext)))
+        .filter(Boolean)
+        .join('\n');
+      if (!GROUP_LIKE_TYPES.has(node.type)) {
+        content = this.renderContainerBox(node, context, matrix, content);
+      }
+    }
+
+    if (!content || opacity === undefined) return content;
+
+    const groupAttributes = this.formatAttributes({ opacity }, options);
+    return `${indent}<g ${groupAttributes}>\n${this.indentLines(content, '  ')}\n${indent}</g>`;
+  }
+
+  private renderShape(node: FigmaNode, context: RenderContext): string {
+    const { options, defs, indent } = context;
+    const fill = this.getPaint(node.fills, node, defs, options);
+    const stroke = this.getPaint(node.strokes, node, defs, options);
+    const elements: string[] = [];
+
+    // REST geometria: a strokeGeometry már a körvonal kontúrja, azt kitöltjük
+    if (node.fillGeometry?.length || node.strokeGeometry?.length) {
+      if (fill) {
+        node.fillGeometry?.forEach(geometry => {
+          elements.push(this.pathElement(geometry.path, { fill, fillRule: this.getFillRule(geometry.windingRule) }, options, indent));
+        });
+      }
+      if (stroke) {
+        node.strokeGeometry?.forEach(geometry => {
+          elements.push(this.pathElement(geometry.path, { fill: stroke, fillRule: this.getFillRule(geometry.windingRule) }, options, indent));
+        });
+      }
+      return elements.join('\n');
+    }
+
+    const strokeAttributes = stroke ? this.getStrokeAttributes(node, stroke) : {};
+
+    if (node.vectorPaths?.length) {
+      node.vectorPaths.forEach(vectorPath => {
+        elements.push(this.pathElement(vectorPath.data, {
+          fill: fill || 'none',
+          fillRule: this.getFillRule(vectorPath.windingRule),
+          ...strokeAttributes,
+        }, options, indent));
+      });
+      return elements.join('\n');
+    }
+
+    if (node.vectorNetwork?.edges.length) {
+      return this.renderVectorNetwork(node, node.vectorNetwork, fill, strokeAttributes, options, defs, indent);
+    }
+
+    return this.renderPrimitive(node, fill, strokeAttributes, options, indent);
+  }
+
+  // Régiók kitöltve (saját fills és winding rule), az élek egy nyitott körvonal path-ként
+  private renderVectorNetwork(
+    node: FigmaNode,
+    network: FigmaVectorNetwork,
+    fill: string | null,
+    strokeAttributes: Attributes,
+    options: SvgRenderOptions,
+    defs: string[],
+    indent: string
+  ): string {
+    const elements: string[] = [];
+
+    network.regions?.forEach(region => {
+      const regionFill = region.fills ? this.getPaint(region.fills, node, defs, options) : fill;
+      if (!regionFill) return;
+
+      const data = region.loops.map(loop => this.loopToPath(network, loop)).join(' ');
+      elements.push(this.pathElement(data, { fill: regionFill, fillRule: this.getFillRule(region.windingRule) }, options, indent));
+    });
+
+    if (strokeAttributes.stroke) {
+      const data = network.edges.map((_, index) => this.edgeToPath(network, index, false, true)).join(' ');
+      elements.push(this.pathElement(data, { fill: 'none', ...strokeAttributes }, options, indent));
+    }
+
+    return elements.join('\n');
+  }
+
+  // Egy loop élei egymás után, az élek irányát a közös csúcsok alapján fordítva
+  private loopToPath(network: FigmaVectorNetwork, loop: number[]): string {
+    if (loop.length === 0) return '';
+
+    const first = network.edges[loop[0]];
+    const second = loop.length > 1 ? network.edges[loop[1]] : undefined;
+    let current = second && (first.start === second.start || first.start === second.end) ? first.end : first.start;
+
+    const segments = loop.map((edgeIndex, position) => {
+      const edge = network.edges[edgeIndex];
+      const reversed = edge.start !== current;
+      current = reversed ? edge.start : edge.end;
+      return this.edgeToPath(network, edgeIndex, reversed, position === 0);
+    });
+
+    return `${segments.join(' ')} Z`;
+  }
+
+  private edgeToPath(network: FigmaVectorNetwork, edgeIndex: number, reversed: boolean, moveTo: boolean): string {
+    const edge = network.edges[edgeIndex];
+    const start = network.vertices[reversed ? edge.end : edge.start];
+    const end = network.vertices[reversed ? edge.start : edge.end];
+    const tangentStart = reversed ? edge.tangentEnd : edge.tangentStart;
+    const tangentEnd = reversed ? edge.tangentStart : edge.tangentEnd;
+
+    const prefix = moveTo ? `M ${this.round(start.x)} ${this.round(start.y)} ` : '';
+    const straight = !tangentStart || !tangentEnd
+      || (tangentStart.x === 0 && tangentStart.y === 0 && tangentEnd.x === 0 && tangentEnd.y === 0);
+
+    if (straight) {
+      return `${prefix}L ${this.round(end.x)} ${this.round(end.y)}`;
+    }
+
+    // A tangensek a saját csúcsukhoz képest relatívak
+    return `${prefix}C ${this.round(start.x + tangentStart.x)} ${this.round(start.y + tangentStart.y)} `
+      + `${this.round(end.x + tangentEnd.x)} ${this.round(end.y + tangentEnd.y)} ${this.round(end.x)} ${this.round(end.y)}`;
+  }
+
+  private renderPrimitive(
+    node: FigmaNode,
+    fill: string | null,
+    strokeAttributes: Attributes,
+    options: SvgRenderOptions,
+    indent: string
+  ): string {
+    const width = this.round(node.size?.x ?? node.absoluteBoundingBox?.width ?? 0);
+    const height = this.round(node.size?.y ?? node.absoluteBoundingBox?.height ?? 0);
+    const paint = { fill: fill || 'none', ...strokeAttributes };
+
+    if (node.type === 'ELLIPSE') {
+      const attributes = this.formatAttributes({ cx: width / 2, cy: height / 2, rx: width / 2, ry: height / 2, ...paint }, options);
+      return `${indent}<ellipse ${attributes} />`;
+    }
+
+    if (node.type === 'LINE') {
+      const attributes = this.formatAttributes({ x1: 0, y1: 0, x2: width, y2: 0, ...strokeAttributes }, options);
+      return strokeAttributes.stroke ? `${indent}<line ${attributes} />` : '';
+    }
+
+    const attributes = this.formatAttributes({
+      width,
+      height,
+      rx: node.cornerRadius || undefined,
+      ...paint,
+    }, options);
+    return `${indent}<rect ${attributes} />`;
+  }
+
+  // Frame, komponens, példány: a saját kitöltés és körvonal lekerekített <rect>-ként a gyermekek alatt és
+  // fölött, a gyermekek clipsContent esetén a keret alakjára vágva (pl. ikon gomb, badge háttérrel)
+  private renderContainerBox(node: FigmaNode, context: RenderContext, matrix: Matrix, content: string): string {
+    const { options, defs, indent } = context;
+    const width = this.round(node.size?.x ?? node.absoluteBoundingBox?.width ?? 0);
+    const height = this.round(node.size?.y ?? node.absoluteBoundingBox?.height ?? 0);
+    const radius = node.cornerRadius || undefined;
+    const transform = this.matrixToTransform(matrix);
+    const fill = this.getPaint(node.fills, node, defs, options);
+    const stroke = this.getPaint(node.strokes, node, defs, options);
+    const elements: string[] = [];
+
+    if (fill) {
+      elements.push(`${indent}<rect ${this.formatAttributes({ width, height, rx: radius, transform, fill }, options)} />`);
+    }
+
+    if (content && node.clipsContent) {
+      const clipId = this.nextId(node, 'clip');
+      defs.push(`<clipPath id="${clipId}"><rect ${this.formatAttributes({ width, height, rx: radius, transform }, options)} /></clipPath>`);
+      elements.push(`${indent}<g ${this.formatAttributes({ clipPath: `url(#${clipId})` }, options)}>\n${this.indentLines(content, '  ')}\n${indent}</g>`);
+    } else if (content) {
+      elements.push(content);
+    }
+
+    // A keret körvonala a tartalom fölött; az SVG körvonal a kontúr közepére esik, ezért
+    // INSIDE (a keretek alapértéke) fél vastagsággal beljebb, OUTSIDE kijjebb kerül
+    if (stroke) {
+      const weight = node.strokeWeight ?? 1;
+      const inset = node.strokeAlign === 'OUTSIDE' ? -weight / 2 : node.strokeAlign === 'CENTER' ? 0 : weight / 2;
+      const attributes = this.formatAttributes({
+        x: inset ? this.round(inset) : undefined,
+        y: inset ? this.round(inset) : undefined,
+        width: this.round(width - inset * 2),
+        height: this.round(height - inset * 2),
+        rx: radius ? this.round(Math.max(0, radius - inset)) || undefined : undefined,
+        transform,
+        fill: 'none',
+        ...this.getStrokeAttributes(node, stroke),
+      }, options);
+      elements.push(`${indent}<rect ${attributes} />`);
+    }
+
+    return elements.join('\n');
+  }
+
+  // UNION: közös kitöltés; EXCLUDE: egy path evenodd szabállyal; SUBTRACT: maszk;
+  // INTERSECT: egymásba ágyazott clipPath-ok
+  private renderBooleanOperation(node: FigmaNode, context: RenderContext): string {
+    const { options, defs, indent } = context;
+    const children = (node.children || []).filter(child => child.visible !== false);
+    if (children.length === 0) return '';
+
+    const fill = this.getPaint(node.fills, node, defs, options) || 'none';
+    const stroke = this.getPaint(node.strokes, node, defs, options);
+    const paint: Attributes = { fill, ...(stroke ? this.getStrokeAttributes(node, stroke) : {}) };
+    const operation = node.booleanOperation || 'UNION';
+
+    // A gyermekek saját kitöltése helyett a boolean node festése érvényes
+    const shapes = children.map(child => this.renderGeometryOnly(child, context, this.getNodeMatrix(child, context)));
+
+    if (operation === 'UNION') {
+      const groupAttributes = this.formatAttributes(paint, options);
+      return `${indent}<g ${groupAttributes}>\n${this.indentLines(shapes.join('\n'), '  ')}\n${indent}</g>`;
+    }
+
+    if (operation === 'EXCLUDE') {
+      // Az evenodd szabály csak egy path-on belül hat, ezért a geometria egyetlen path-ba kerül
+      const data = children.map(child => this.collectPathData(child, context, this.getNodeMatrix(child, context)));
+      if (data.every(Boolean)) {
+        return this.pathElement(data.join(' '), { ...paint, fillRule: 'evenodd' }, options, indent);
+      }
+      const groupAttributes = this.formatAttributes({ ...paint, fillRule: 'evenodd' }, options);
+      return `${indent}<g ${groupAttributes}>\n${this.indentLines(shapes.join('\n'), '  ')}\n${indent}</g>`;
+    }
+
+    if (operation === 'SUBTRACT') {
+      // A maszk a teljes (gyökér) vásznat lefedi, a kivágandó alakzatok feketék
+      const maskId = this.nextId(node, 'mask');
+      const cutouts = shapes.slice(1).map(shape => this.withFill(shape, 'black')).join(' ');
+      defs.push(`<mask id="${maskId}" maskUnits="userSpaceOnUse" x="-100%" y="-100%" width="300%" height="300%"><rect x="-100%" y="-100%" width="300%" height="300%" fill="white" />${cutouts}</mask>`);
+      const groupAttributes = this.formatAttributes({ ...paint, mask: `url(#${maskId})` }, options);
+      return `${indent}<g ${groupAttributes}>\n${this.indentLines(shapes[0], '  ')}\n${indent}</g>`;
+    }
+
+    // INTERSECT: az első alakzatot az összes többi vágja
+    let clipped = shapes[0];
+    // A clipPath nem tartalmazhat g elemet, ezért a transzformált geometria egy path-ba kerül
+    children.slice(1).forEach((child, index) => {
+      const clipId = this.nextId(node, 'clip');
+      const data = this.collectPathData(child, context, this.getNodeMatrix(child, context));
+      const clipShape = data ? this.pathElement(data, {}, options, '') : this.flatten(shapes[index + 1]);
+      defs.push(`<clipPath id="${clipId}">${clipShape}</clipPath>`);
+      const clipAttributes = this.formatAttributes({ clipPath: `url(#${clipId})` }, options);
+      clipped = `${indent}<g ${clipAttributes}>\n${this.indentLines(clipped, '  ')}\n${indent}</g>`;
+    });
+    const groupAttributes = this.formatAttributes(paint, options);
+    return `${indent}<g ${groupAttributes}>\n${this.indentLines(clipped, '  ')}\n${indent}</g>`;
+  }
+
+  // Boolean operandus: csak a geometria, festés nélkül (a szülő g elem festi)
+  private renderGeometryOnly(node: FigmaNode, context: RenderContext, matrix: Matrix): string {
+    const { options, indent } = context;
+    let paths: string[];
+
+    if (node.fillGeometry?.length) {
+      paths = node.fillGeometry.map(geometry => this.pathElement(geometry.path, { fillRule: this.getFillRule(geometry.windingRule) }, options, indent));
+    } else if (node.vectorPaths?.length) {
+      paths = node.vectorPaths.map(vectorPath => this.pathElement(vectorPath.data, { fillRule: this.getFillRule(vectorPath.windingRule) }, options, indent));
+    } else if (node.vectorNetwork?.regions?.length) {
+      const network = node.vectorNetwork;
+      paths = network.regions!.map(region => this.pathElement(
+        region.loops.map(loop => this.loopToPath(network, loop)).join(' '),
+        { fillRule: this.getFillRule(region.windingRule) },
+        options,
+        indent
+      ));
+    } else if (node.children?.length) {
+      const childContext = GROUP_LIKE_TYPES.has(node.type) ? context : { ...context, container: matrix };
+      return node.children
+        .map(child => this.renderGeometryOnly(child, childContext, this.getNodeMatrix(child, childContext)))
+        .join('\n');
+    } else {
+      const width = this.round(node.size?.x ?? node.absoluteBoundingBox?.width ?? 0);
+      const height = this.round(node.size?.y ?? node.absoluteBoundingBox?.height ?? 0);
+      paths = [node.type === 'ELLIPSE'
+        ? `${indent}<ellipse ${this.formatAttributes({ cx: width / 2, cy: height / 2, rx: width / 2, ry: height / 2 }, options)} />`
+        : `${indent}<rect ${this.formatAttributes({ width, height, rx: node.cornerRadius || undefined }, options)} />`];
+    }
+
+    return this.wrapTransform(paths.join('\n'), matrix, context);
+  }
+
+  // Egy operandus teljes geometriája gyökér koordinátákban; null, ha a path nem alakítható át
+  private collectPathData(node: FigmaNode, context: RenderContext, matrix: Matrix): string | null {
+    let paths: string[];
+
+    if (node.fillGeometry?.length) {
+      paths = node.fillGeometry.map(geometry => geometry.path);
+    } else if (node.vectorPaths?.length) {
+      paths = node.vectorPaths.map(vectorPath => vectorPath.data);
+    } else if (node.vectorNetwork?.regions?.length) {
+      const network = node.vectorNetwork;
+      paths = network.regions!.map(region => region.loops.map(loop => this.loopToPath(network, loop)).join(' '));
+    } else if (node.children?.length) {
+      const childContext = GROUP_LIKE_TYPES.has(node.type) ? context : { ...context, container: matrix };
+      const childData = node.children.map(child => this.collectPathData(child, childContext, this.getNodeMatrix(child, childContext)));
+      return childData.every(Boolean) ? childData.join(' ') : null;
+    } else {
+      const width = node.size?.x ?? node.absoluteBoundingBox?.width ?? 0;
+      const height = node.size?.y ?? node.absoluteBoundingBox?.height ?? 0;
+      paths = [node.type === 'ELLIPSE' ? this.ellipsePath(width, height) : `M 0 0 L ${width} 0 L ${width} ${height} L 0 ${height} Z`];
+    }
+
+    const transformed = paths.map(data => this.transformPathData(data, matrix));
+    return transformed.every(Boolean) ? transformed.join(' ') : null;
+  }
+
+  // Ellipszis négy köbös Bézier ívvel (az A parancs nem transzformálható affin módon)
+  private ellipsePath(width: number, height: number): string {
+    const rx = width / 2;
+    const ry = height / 2;
+    const kx = rx * 0.5523;
+    const ky = ry * 0.5523;
+    return `M ${width} ${ry} `
+      + `C ${width} ${ry + ky} ${rx + kx} ${height} ${rx} ${height} `
+      + `C ${rx - kx} ${height} 0 ${ry + ky} 0 ${ry} `
+      + `C 0 ${ry - ky} ${rx - kx} 0 ${rx} 0 `
+      + `C ${rx + kx} 0 ${width} ${ry - ky} ${width} ${ry} Z`;
+  }
+
+  // A Figma geometria abszolút M/L/H/V/C/Q/Z parancsokból áll, ezek pontonként transzformálhatók
+  private transformPathData(data: string, matrix: Matrix): string | null {
+    const tokens = data.match(/[a-zA-Z]|-?\d*\.?\d+(?:e[-+]?\d+)?/g) || [];
+    const [a, b, c, d, e, f] = matrix;
+    const point = (x: number, y: number) => `${this.round(a * x + c * y + e)} ${this.round(b * x + d * y + f)}`;
+    const result: string[] = [];
+    let command = '';
+    let currentX = 0;
+    let currentY = 0;
+    let index = 0;
+
+    const next = () => Number(tokens[index++]);
+
+    while (index < tokens.length) {
+      if (/[a-zA-Z]/.test(tokens[index])) {
+        command = tokens[index++];
+      }
+
+      switch (command) {
+        case 'M':
+        case 'L': {
+          currentX = next();
+          currentY = next();
+          result.push(`${command} ${point(currentX, currentY)}`);
+          break;
+        }
+        case 'H':
+          currentX = next();
+          result.push(`L ${point(currentX, currentY)}`);
+          break;
+        case 'V':
+          currentY = next();
+          result.push(`L ${point(currentX, currentY)}`);
+          break;
+        case 'C': {
+          const values = [next(), next(), next(), next(), next(), next()];
+          result.push(`C ${point(values[0], values[1])} ${point(values[2], values[3])} ${point(values[4], values[5])}`);
+          currentX = values[4];
+          currentY = values[5];
+          break;
+        }
+        case 'Q': {
+          const values = [next(), next(), next(), next()];
+          result.push(`Q ${point(values[0], values[1])} ${point(values[2], values[3])}`);
+          currentX = values[2];
+          currentY = values[3];
+          break;
+        }
+        case 'Z':
+        case 'z':
+          result.push('Z');
+          command = '';
+          break;
+        default:
+          // Relatív vagy ív parancs: nem alakítjuk át
+          return null;
+      }
+    }
+
+    return result.join(' ');
+  }
+
+  private wrapTransform(content: string, matrix: Matrix, context: RenderContext): string {
+    const transform = this.matrixToTransform(matrix);
+    if (!content || !transform) return content;
+
+    const { options, indent } = context;
+    return `${indent}<g ${this.formatAttributes({ transform }, options)}>\n${this.indentLines(content, '  ')}\n${indent}</g>`;
+  }
+
+  private pathElement(data: string, attributes: Attributes, options: SvgRenderOptions, indent: string): string {
+    return `${indent}<path ${this.formatAttributes({ d: data, ...attributes }, options)} />`;
+  }
+
+  // Maszk kivágáshoz: a festetlen geometria kitöltést kap
+  private withFill(markup: string, fill: string): string {
+    return this.flatten(markup).replace(/<(path|rect|ellipse) /g, `<$1 fill="${fill}" `);
+  }
+
+  // A defs bejegyzések egy sorban
+  private flatten(markup: string): string {
+    return markup.trim().replace(/>\s*\n\s*</g, '><');
+  }
+
+  // Az első látható festés SVG értéke; gradiensekhez definíció kerül a defs-be
+  private getPaint(paints: FigmaPaint[] | undefined, node: FigmaNode, defs: string[], options: SvgRenderOptions): string | null {
+    const paint = paints?.find(item => item.visible !== false);
+    if (!paint) return null;
+
+    if (paint.type === 'SOLID' && paint.color) {
+      return this.colorToCSS(paint.color, paint.opacity);
+    }
+
+    if ((paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL') && paint.gradientStops?.length) {
+      const gradientId = this.nextId(node, 'gradient');
+      const stops = paint.gradientStops
+        .map(stop => `<stop offset="${this.round(stop.position)}" stop-color="${this.colorToCSS(stop.color, paint.opacity)}" />`)
+        .join('');
+      const [start, end] = paint.gradientHandlePositions || [];
+      const stopMarkup = options.jsx ? stops.replace(/stop-color=/g, 'stopColor=') : stops;
+
+      if (paint.type === 'GRADIENT_LINEAR') {
+        defs.push(`<linearGradient id="${gradientId}" x1="${this.round(start?.x ?? 0)}" y1="${this.round(start?.y ?? 0)}" x2="${this.round(end?.x ?? 1)}" y2="${this.round(end?.y ?? 0)}">${stopMarkup}</linearGradient>`);
+      } else {
+        const radius = start && end ? this.round(Math.hypot(end.x - start.x, end.y - start.y)) : 0.5;
+        defs.push(`<radialGradient id="${gradientId}" cx="${this.round(start?.x ?? 0.5)}" cy="${this.round(start?.y ?? 0.5)}" r="${radius}">${stopMarkup}</radialGradient>`);
+      }
+
+      return `url(#${gradientId})`;
+    }
+
+    // Egyéb gradiens: az első szín közelítésként
+    const firstStop = paint.gradientStops?.[0];
+    return firstStop ? this.colorToCSS(firstStop.color, paint.opacity) : null;
+  }
+
+  private getStrokeAttributes(node: FigmaNode, stroke: string): Attributes {
+    return {
+      stroke,
+      strokeWidth: node.strokeWeight ?? 1,
+      strokeLinecap: node.strokeCap ? STROKE_CAPS[node.strokeCap] || 'butt' : undefined,
+      strokeLinejoin: node.strokeJoin ? STROKE_JOINS[node.strokeJoin] : undefined,
+      strokeMiterlimit: node.strokeJoin === 'MITER' ? node.strokeMiterLimit : undefined,
+      strokeDasharray: node.strokeDashes?.length ? node.strokeDashes.join(' ') : undefined,
+    };
+  }
+
+  private getFillRule(windingRule: string): string | undefined {
+    if (windingRule === 'EVENODD') return 'evenodd';
+    if (windingRule === 'NONZERO') return 'nonzero';
+    return undefined;
+  }
+
+  // relativeTransform hiányában (geometry=paths nélkül) a befoglaló dobozok eltolása
+  private getNodeMatrix(node: FigmaNode, context: RenderContext): Matrix {
+    const relative = this.toMatrix(node);
+    if (relative) return this.multiply(context.container, relative);
+
+    const box = node.absoluteBoundingBox;
+    if (box && context.rootBox) {
+      return [1, 0, 0, 1, box.x - context.rootBox.x, box.y - context.rootBox.y];
+    }
+
+    return context.container;
+  }
+
+  // relativeTransform: [[a, c, e], [b, d, f]] → [a, b, c, d, e, f]
+  private toMatrix(node: FigmaNode): Matrix | null {
+    const transform = node.relativeTransform;
+    if (!transform) return null;
+    return [transform[0][0], transform[1][0], transform[0][1], transform[1][1], transform[0][2], transform[1][2]];
+  }
+
+  private multiply(m1: Matrix, m2: Matrix): Matrix {
+    const [a1, b1, c1, d1, e1, f1] = m1;
+    const [a2, b2, c2, d2, e2, f2] = m2;
+    return [
+      a1 * a2 + c1 * b2,
+      b1 * a2 + d1 * b2,
+      a1 * c2 + c1 * d2,
+      b1 * c2 + d1 * d2,
+      a1 * e2 + c1 * f2 + e1,
+      b1 * e2 + d1 * f2 + f1,
+    ];
+  }
+
+  private invert(matrix: Matrix): Matrix {
+    const [a, b, c, d, e, f] = matrix;
+    const determinant = a * d - b * c;
+    if (determinant === 0) return IDENTITY;
+    return [
+      d / determinant,
+      -b / determinant,
+      -c / determinant,
+      a / determinant,
+      (c * f - d * e) / determinant,
+      (b * e - a * f) / determinant,
+    ];
+  }
+
+  private matrixToTransform(matrix: Matrix): string | undefined {
+    const [a, b, c, d, e, f] = matrix.map(value => this.round(value));
+    if (a === 1 && b === 0 && c === 0 && d === 1) {
+      return e === 0 && f === 0 ? undefined : `translate(${e} ${f})`;
+    }
+    return `matrix(${[a, b, c, d, e, f].join(' ')})`;
+  }
+
+  private formatAttributes(attributes: Attributes, options: SvgRenderOptions): string {
+    return Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `${options.jsx ? name : this.toKebab(name)}="${value}"`)
+      .join(' ');
+  }
+
+  private toKebab(name: string): string {
+    return name === 'viewBox' ? name : name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+  }
+
+  private indentLines(content: string, indent: string): string {
+    return content.split('\n').map(line => `${indent}${line}`).join('\n');
+  }
+
+  private nextId(node: FigmaNode, kind: string): string {
+    this.idCounter++;
+    return `${kind}-${node.id.replace(/[^a-zA-Z0-9]/g, '-')}-${this.idCounter}`;
+  }
+
+  private colorToCSS(color: FigmaColor, opacity?: number): string {
+    const r = Math.round(color.r * 255);
+    const g = Math.round(color.g * 255);
+    const b = Math.round(color.b * 255);
+    const a = (color.a ?? 1) * (opacity ?? 1);
+
+    if (a < 1) {
+      return `rgba(${r}, ${g}, ${b}, ${this.round(a)})`;
+    }
+
+    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,291 @@
+import { FigmaColor, FigmaTypeStyle } from '../types/figma';
+import { DesignTokens, TextStyleToken } from './design-system-extractor';
+
+export interface TailwindTokenOptions {
+  // Legnagyobb RGB távolság (0–255 tér), amin belül egy szín a tokenre illeszkedik
+  colorTolerance?: number;
+  // Legnagyobb px eltérés spacing, sarokkerekítés és betűméret illesztésénél
+  sizeTolerance?: number;
+}
+
+type FontSizeEntry = string | [string, { lineHeight?: string; letterSpacing?: string; fontWeight?: string }];
+
+// A tailwind.config theme.extend része; a kulcsok pontosan a generált osztálynevek utótagjai
+export interface TailwindThemeExtension {
+  colors: Record<string, string | Record<string, string>>;
+  spacing: Record<string, string>;
+  fontFamily: Record<string, string>;
+  fontSize: Record<string, FontSizeEntry>;
+  fontWeight: Record<string, string>;
+  borderRadius: Record<string, string>;
+  boxShadow: Record<string, string>;
+  screens: Record<string, string>;
+  transitionDuration: Record<string, string>;
+  transitionTimingFunction: Record<string, string>;
+}
+
+interface ColorToken {
+  name: string;
+  rgb: [number, number, number];
+  // Áttetsző tokennél (rgba) az átlátszóság is az egyezés része, és nem kap /alpha módosítót
+  alpha: number;
+}
+
+interface SizeToken {
+  name: string;
+  px: number;
+}
+
+interface NamedTextStyle {
+  name: string;
+  token: TextStyleToken;
+}
+
+// Design tokenekre illesztett Tailwind osztályok: bg-primary-500, gap-4, text-heading-lg.
+// A theme kiterjesztés ugyanebből az osztályból készül (DesignSystemExporter, tailwind formátum),
+// így a generált osztályok és a tailwind.config.ts kulcsai mindig egyeznek. Tetszőleges érték
+// (w-[375px]) csak akkor marad, ha egyik token sincs a tűréshatáron belül.
+export class TailwindTokenMapper {
+  private tokens: DesignTokens;
+  private colorTolerance: number;
+  private sizeTolerance: number;
+  private colorScales: Record<string, Record<string, string>>;
+  private colorTokens: ColorToken[];
+  private spacingTokens: SizeToken[];
+  private radiusTokens: SizeToken[];
+  private fontSizeTokens: SizeToken[];
+  private textStyles: NamedTextStyle[];
+
+  constructor(tokens: DesignTokens, options: TailwindTokenOptions = {}) {
+    this.tokens = tokens;
+    this.colorTolerance = options.colorTolerance ?? 6;
+    this.sizeTolerance = options.sizeTolerance ?? 1;
+
+    const { primary, secondary, neutral, semantic } = tokens.colors;
+    this.colorScales = Object.fromEntries(
+      Object.entries({ primary, secondary, neutral, ...semantic }).map(([name, scale]) => [name, { ...scale }])
+    );
+    this.colorTokens = this.collectColorTokens();
+    this.spacingTokens = this.collectSpacingTokens();
+    this.radiusTokens = Object.entries(tokens.borderRadius)
+      .filter(([name]) => name !== 'full')
+      .map(([name, value]) => ({ name, px: parseFloat(value) }));
+    this.fontSizeTokens = Object.entries(tokens.typography.fontSizes)
+      .map(([name, value]) => ({ name, px: parseFloat(value) }));
+    this.textStyles = this.nameTextStyles();
+  }
+
+  getThemeExtension(): TailwindThemeExtension {
+    const fontSize: Record<string, FontSizeEntry> = { ...this.tokens.typography.fontSizes };
+    this.textStyles.forEach(({ name, token }) => {
+      fontSize[name] = this.toFontSizeEntry(token);
+    });
+
+    // Elnevezett Figma stílusok a saját nevükön (a színátmenetes kitöltés nem Tailwind szín)
+    const namedStyles = this.tokens.styles;
+    const namedColors: Record<string, string> = {};
+    Object.entries(namedStyles?.colors || {})
+      .filter(([, value]) => this.parseColor(value))
+      .forEach(([name, value]) => { namedColors[this.namedColorKey(name)] = value; });
+    Object.entries(namedStyles?.textStyles || {}).forEach(([name, token]) => {
+      fontSize[this.namedTextKey(name)] = this.toFontSizeEntry(token);
+    });
+
+    return {
+      colors: { ...this.colorScales, ...this.tokens.colors.custom, ...namedColors },
+      spacing: Object.fromEntries(this.spacingTokens.map(token => [token.name, `${token.px}px`])),
+      fontFamily: this.tokens.typography.fontFamilies,
+      fontSize,
+      fontWeight: Object.fromEntries(
+        Object.entries(this.tokens.typography.fontWeights).map(([name, weight]) => [name, String(weight)])
+      ),
+      borderRadius: { ...this.tokens.borderRadius },
+      boxShadow: { ...this.tokens.shadows.elevation, ...namedStyles?.shadows },
+      screens: { ...this.tokens.breakpoints },
+      transitionDuration: this.tokens.animations.duration,
+      transitionTimingFunction: this.tokens.animations.easing,
+    };
+  }
+
+  // bg-primary-500, text-neutral-900/80; token nélkül bg-[#1a2b3c]
+  color(utility: 'bg' | 'text' | 'border', color: FigmaColor, opacity?: number): string {
+    const rgb: [number, number, number] = [color.r * 255, color.g * 255, color.b * 255];
+    const alpha = Math.round((color.a ?? 1) * (opacity ?? 1) * 100);
+    const modifier = alpha < 100 ? `/${alpha}` : '';
+
+    const token = this.findNearest(this.colorTokens, candidate => candidate.alpha < 1
+      ? this.colorDistance(candidate.rgb, rgb) + Math.abs(candidate.alpha * 100 - alpha) * 2.55
+      : this.colorDistance(candidate.rgb, rgb), this.colorTolerance);
+    if (token) return `${utility}-${token.name}${token.alpha < 1 ? '' : modifier}`;
+
+    const hex = rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+    return `${utility}-[#${hex}]${modifier}`;
+  }
+
+  // Elnevezett stílusra hivatkozó node: a stílus neve a tokenkulcs, nincs illesztés
+  namedColor(utility: 'bg' | 'text' | 'border', name: string): string | undefined {
+    const value = this.tokens.styles?.colors[name];
+    return value && this.parseColor(value) ? `${utility}-${this.namedColorKey(name)}` : undefined;
+  }
+
+  namedTextStyle(name: string): string[] | undefined {
+    const token = this.tokens.styles?.textStyles[name];
+    if (!token) return undefined;
+    const family = this.findFontFamily(this.firstFamily(token.fontFamily));
+    return [...(family ? [`font-${family}`] : []), `text-${this.namedTextKey(name)}`];
+  }
+
+  namedShadow(name: string): string | undefined {
+    return this.tokens.styles?.shadows[name] ? `shadow-${name}` : undefined;
+  }
+
+  // "16px" → "4", ha van 16px (±tűrés) spacing token; az AutoLayoutTranslator skálaértékként használja
+  spacing(value: string): string | undefined {
+    const match = value.match(/^(\d+(?:\.\d+)?)px$/);
+    if (!match) return undefined;
+    const px = Number(match[1]);
+    return this.findNearest(this.spacingTokens, token => Math.abs(token.px - px), this.sizeTolerance)?.name;
+  }
+
+  radius(px: number): string {
+    const token = this.findNearest(this.radiusTokens, candidate => Math.abs(candidate.px - px), this.sizeTolerance);
+    if (token) return `rounded-${token.name}`;
+    return px >= 9999 ? 'rounded-full' : `rounded-[${px}px]`;
+  }
+
+  // Teljes szövegstílus egyezésnél egy összetett osztály (text-heading-lg), különben méret és vastagság külön
+  typography(style: FigmaTypeStyle): string[] {
+    const classes: string[] = [];
+    const family = this.findFontFamily(style.fontFamily);
+    if (family) {
+      classes.push(`font-${family}`);
+    } else if (style.fontFamily) {
+      classes.push(`font-['${style.fontFamily.replace(/\s+/g, '_')}']`);
+    }
+
+    const weight = style.fontWeight || 400;
+    const textStyle = this.textStyles.find(({ token }) =>
+      this.firstFamily(token.fontFamily) === style.fontFamily
+      && token.fontWeight === weight
+      && Math.abs(parseFloat(token.fontSize) - style.fontSize) <= this.sizeTolerance
+    );
+    if (textStyle) {
+      classes.push(`text-${textStyle.name}`);
+      return classes;
+    }
+
+    const size = this.findNearest(this.fontSizeTokens, token => Math.abs(token.px - style.fontSize), this.sizeTolerance);
+    classes.push(size ? `text-${size.name}` : `text-[${style.fontSize}px]`);
+
+    const weightName = Object.entries(this.tokens.typography.fontWeights).find(([, value]) => value === weight)?.[0];
+    if (weight !== 400 || weightName) {
+      classes.push(weightName ? `font-${weightName}` : `font-[${weight}]`);
+    }
+    return classes;
+  }
+
+  // A skálák és a számított tokenek nevét nem írhatja felül egy azonos nevű elnevezett stílus
+  private namedColorKey(name: string): string {
+    return name in this.colorScales || name in this.tokens.colors.custom ? `style-${name}` : name;
+  }
+
+  private namedTextKey(name: string): string {
+    const taken = name in this.tokens.typography.fontSizes || this.textStyles.some(style => style.name === name);
+    return taken ? `style-${name}` : name;
+  }
+
+  private toFontSizeEntry(token: TextStyleToken): FontSizeEntry {
+    return [token.fontSize, {
+      lineHeight: token.lineHeight,
+      ...(token.letterSpacing !== 'normal' ? { letterSpacing: token.letterSpacing } : {}),
+      fontWeight: String(token.fontWeight),
+    }];
+  }
+
+  // Skálák (primary-50 … info-950) a saját színek előtt, így azonos értéknél a skálanév nyer
+  private collectColorTokens(): ColorToken[] {
+    const tokens: ColorToken[] = [];
+    const add = (name: string, value: string) => {
+      const color = this.parseColor(value);
+      if (color) tokens.push({ name, ...color });
+    };
+
+    Object.entries(this.colorScales).forEach(([scale, steps]) => {
+      Object.entries(steps).forEach(([step, value]) => add(`${scale}-${step}`, value));
+    });
+    Object.entries(this.tokens.colors.custom).forEach(([name, value]) => add(name, value));
+    return tokens;
+  }
+
+  // A kulcs a Tailwind konvenció szerinti px / 4 (16px → "4", 6px → "1.5")
+  private collectSpacingTokens(): SizeToken[] {
+    const values = new Set<number>();
+    [...Object.values(this.tokens.spacing.scale), ...Object.values(this.tokens.spacing.semantic)]
+      .map(value => parseFloat(value))
+      .filter(px => !isNaN(px) && px >= 0)
+      .forEach(px => values.add(px));
+
+    return Array.from(values)
+      .sort((a, b) => a - b)
+      .map(px => ({ name: String(Math.round(px / 4 * 100) / 100), px }));
+  }
+
+  // Szerep és méret alapú nevek: heading-2xl, body-base; ütközésnél a vastagság is a névbe kerül
+  private nameTextStyles(): NamedTextStyle[] {
+    const sizeNames = new Map(Object.entries(this.tokens.typography.fontSizes).map(([name, value]) => [value, name]));
+    const weightNames = new Map(Object.entries(this.tokens.typography.fontWeights).map(([name, value]) => [value, name]));
+    const used = new Set<string>();
+
+    return Object.values(this.tokens.typography.textStyles).map(token => {
+      const fontSize = parseFloat(token.fontSize);
+      const role = token.fontWeight >= 600 || fontSize >= 24 ? 'heading' : 'body';
+      const base = `${role}-${sizeNames.get(token.fontSize) || `${fontSize}`}`;
+
+      let name = used.has(base) ? `${base}-${weightNames.get(token.fontWeight) || token.fontWeight}` : base;
+      for (let index = 2; used.has(name); index++) {
+        name = `${base}-${index}`;
+      }
+      used.add(name);
+      return { name, token };
+    });
+  }
+
+  private findFontFamily(family?: string): string | undefined {
+    if (!family) return undefined;
+    return Object.entries(this.tokens.typography.fontFamilies)
+      .find(([, value]) => this.firstFamily(value) === family)?.[0];
+  }
+
+  private firstFamily(value: string): string {
+    return value.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  }
+
+  private findNearest<T>(candidates: T[], distance: (candidate: T) => number, tolerance: number): T | undefined {
+    let best: T | undefined;
+    let bestDistance = Infinity;
+    candidates.forEach(candidate => {
+      const value = distance(candidate);
+      if (value <= tolerance && value < bestDistance) {
+        best = candidate;
+        bestDistance = value;
+      }
+    });
+    return best;
+  }
+
+  private colorDistance(a: [number, number, number], b: [number, number, number]): number {
+    return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+  }
+
+  // #rrggbb, rgb() és rgba() tokenértékek; a var(--...) hivatkozások nem illeszthetők
+  private parseColor(value: string): Omit<ColorToken, 'name'> | null {
+    const hex = value.match(/^#([0-9a-f]{6})$/i);
+    if (hex) {
+      const rgb = [0, 2, 4].map(offset => parseInt(hex[1].slice(offset, offset + 2), 16)) as [number, number, number];
+      return { rgb, alpha: 1 };
+    }
+    const rgba = value.match(/^rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?/);
+    if (!rgba) return null;
+    return { rgb: [Number(rgba[1]), Number(rgba[2]), Number(rgba[3])], alpha: rgba[4] !== undefined ? Number(rgba[4]) : 1 };
+  }
+}
@@ -0,0 +1,158 @@
+import { FigmaNode } from '../types/figma';
+import { ComponentFile, ComponentFileOptions, MarkupBinding, MarkupBuilder, MarkupOptions } from './markup-builder';
+import { StyleTokenResolver } from './style-token-resolver';
+import { ComponentPropDefinition, ComponentPropsResolver } from './component-props-resolver';
+import { LIBRARY_IMPORT_PATH, LibraryInstanceResolver } from './library-instance-resolver';
+
+// Vue 3 egyfájlos komponens (<script setup lang="ts">): a markup a közös magból,
+// a komponens property-kből defineProps, scoped stílus vagy Tailwind osztályok
+export class VueGenerator {
+  private markupBuilder: MarkupBuilder;
+
+  // imageFills: imageRef → URL térkép (FigmaApiService.getImageFills)
+  // styleTokens: elnevezett stílusok feloldója, ha a kimenet a tokenekre hivatkozzon
+  // libraryInstances: a könyvtári komponensek példányai importált komponensként jelennek meg
+  constructor(imageFills: Record<string, string> = {}, styleTokens?: StyleTokenResolver, libraryInstances?: LibraryInstanceResolver) {
+    this.markupBuilder = new MarkupBuilder(imageFills, styleTokens, libraryInstances);
+  }
+
+  generate(root: FigmaNode, options: ComponentFileOptions = {}): ComponentFile {
+    const name = this.sanitizeComponentName(options.componentName || root.name);
+    const resolver = new ComponentPropsResolver(root);
+    const isComponent = root.type === 'COMPONENT' || root.type === 'COMPONENT_SET';
+    const definitions = isComponent ? resolver.getDefinitions(root) : [];
+    const markupOptions: MarkupOptions = {
+      dialect: 'vue',
+      tailwind: options.tailwind,
+      bind: node => this.getBinding(node, definitions, resolver),
+    };
+
+    const template = root.type === 'COMPONENT_SET'
+      ? this.renderVariants(root, resolver, markupOptions)
+      : this.renderRoot(root, markupOptions);
+    const css = options.tailwind ? '' : this.markupBuilder.generateCss();
+
+    const sections: string[] = [];
+    const script = this.generateScript(definitions, resolver, this.markupBuilder.getLibraryComponents());
+    if (script) sections.push(script);
+    sections.push(`<template>
+${template}
+</template>`);
+    if (css) {
+      sections.push(`<style scoped>
+${css.trim()}
+</style>`);
+    }
+
+    return {
+      name,
+      fileName: `${name}.vue`,
+      code: `${sections.join('\n\n')}\n`,
+      styles: css,
+      assets: this.markupBuilder.getAssets(),
+    };
+  }
+
+  private renderRoot(root: FigmaNode, options: MarkupOptions): string {
+    // A képernyő frame kitölti a tárolót, a komponensek megtartják a Figma méretüket
+    this.markupBuilder.prepare(root, { fluidRoot: root.type === 'FRAME' });
+    return this.markupBuilder.renderNode(root, options, '  ');
+  }
+
+  // Készlet: variánsonként egy ág v-if / v-else-if / v-else láncban, az alapértelmezett az utolsó
+  private renderVariants(set: FigmaNode, resolver: ComponentPropsResolver, options: MarkupOptions): string {
+    const variants = resolver.getVariants(set);
+    if (variants.length === 0) return this.renderRoot(set, options);
+
+    this.markupBuilder.prepare(variants.map(variant => variant.node));
+    return variants.map((variant, index) => {
+      const isLast = index === variants.length - 1;
+      const directive = isLast
+        ? (variants.length > 1 ? 'v-else' : '')
+        : `${index === 0 ? 'v-if' : 'v-else-if'}="${resolver.getVariantCondition(variant)}"`;
+
+      return this.markupBuilder.renderNode(variant.node, {
+        ...options,
+        bind: node => node.id === variant.node.id
+          ? this.withAttribute(options.bind?.(node), directive)
+          : options.bind?.(node),
+      }, '  ');
+    }).join('\n');
+  }
+
+  // Property-hez kötött rétegek: láthatóság → v-if, szöveg → {{ prop }}, beágyazott példány → slot, szín → :style
+  private getBinding(
+    node: FigmaNode,
+    definitions: ComponentPropDefinition[],
+    resolver: ComponentPropsResolver
+  ): MarkupBinding | undefined {
+    if (definitions.length === 0) return undefined;
+
+    const binding: MarkupBinding = {};
+    const visible = resolver.getReferencedProp(node, 'visible', definitions);
+    if (visible) this.withAttribute(binding, `v-if="${visible.name}"`);
+
+    if (node.type === 'INSTANCE') {
+      const swap = resolver.getReferencedProp(node, 'mainComponent', definitions);
+      if (swap) binding.slot = swap.name;
+    }
+
+    if (node.type === 'TEXT') {
+      const text = resolver.getReferencedProp(node, 'characters', definitions);
+      if (text) binding.content = `{{ ${text.name} }}`;
+    }
+
+    const color = resolver.getReferencedProp(node, 'fills', definitions);
+    if (color) {
+      this.withAttribute(binding, `:style="{ ${node.type === 'TEXT' ? 'color' : 'backgroundColor'}: ${color.name} }"`);
+    }
+
+    return binding.attributes || binding.slot || binding.content !== undefined ? binding : undefined;
+  }
+
+  private withAttribute(binding: MarkupBinding | undefined, attribute: string): MarkupBinding {
+    const result = binding || {};
+    if (attribute) result.attributes = [attribute, ...(result.attributes || [])];
+    return result;
+  }
+
+  // A slotok nem propok: a beágyazott példányok (INSTANCE_SWAP) a sablonban <slot>-ként jelennek meg
+  // libraryComponents: a sablonban használt könyvtári komponensek, a <script setup> importálja őket
+  private generateScript(definitions: ComponentPropDefinition[], resolver: ComponentPropsResolver, libraryComponents: string[]): string {
+    const props = definitions.filter(definition => definition.type !== 'INSTANCE_SWAP');
+    const imports = libraryComponents.length > 0
+      ? `import { ${libraryComponents.join(', ')} } from '${LIBRARY_IMPORT_PATH}';\n`
+      : '';
+    if (props.length === 0) {
+      return imports ? `<script setup lang="ts">\n${imports}</script>` : '';
+    }
+
+    const fields = props.map(definition => `  ${definition.name}?: ${definition.tsType};`).join('\n');
+    const defaults = props
+      .map(definition => ({ name: definition.name, literal: resolver.getDefaultLiteral(definition) }))
+      .filter(entry => entry.literal !== undefined)
+      .map(entry => `  ${entry.name}: ${entry.literal},`)
+      .join('\n');
+
+    return `<script setup lang="ts">
+${imports ? `${imports}\n` : ''}interface Props {
+${fields}
+}
+
+${defaults ? `withDefaults(defineProps<Props>(), {
+${defaults}
+});` : 'defineProps<Props>();'}
+</script>`;
+  }
+
+  private sanitizeComponentName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9]/g, ' ')
+      .split(' ')
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+      .replace(/^[0-9]/, 'Component$&')
+      || 'Component';
+  }
+}
@@ -14,6 +14,10 @@ export interface FigmaFile {
   styles: Record<string, FigmaStyle>;
   mainFileKey?: string;
   branches?: FigmaBranch[];
+  // Set when the document was narrowed to a single node via getFileNodes
+  scopeNodeId?: string;
+  // Set when the document was fetched from a branch; mainFileKey then points at the main file
+  branchKey?: string;
 }
 
 export interface FigmaNode {
@@ -69,7 +73,14 @@ export interface FigmaNode {
   primaryAxisSizingMode?: 'FIXED' | 'AUTO';
   counterAxisSizingMode?: 'FIXED' | 'AUTO';
   primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
-  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  counterAxisAlignContent?: 'AUTO' | 'SPACE_BETWEEN';
+  counterAxisSpacing?: number;
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   paddingLeft?: number;
   paddingRight?: number;
   paddingTop?: number;
@@ -83,14 +94,19 @@ export interface FigmaNode {
   characters?: string;
   style?: FigmaTypeStyle;
   characterStyleOverrides?: number[];
-  styleOverrideTable?: Record<string, FigmaTypeStyle>;
-  lineTypes?: string[];
+  // Entries only carry the fields that differ from the node's base style
+  styleOverrideTable?: Record<string, Partial<FigmaTypeStyle>>;
+  lineTypes?: FigmaLineType[];
   lineIndentations?: number[];
   
   // Component specific properties
   componentId?: string;
   componentSetId?: string;
   variantProperties?: Record<string, string>;
+  // On COMPONENT_SET and standalone COMPONENT nodes
+  componentPropertyDefinitions?: Record<string, FigmaComponentPropertyDefinition>;
+  // On layers inside a component: which component property drives which field
+  componentPropertyReferences?: FigmaComponentPropertyReferences;
   
   // Instance specific properties
   componentProperties?: Record<string, FigmaComponentProperty>;
@@ -103,6 +119,9 @@ export interface FigmaNode {
   // Vector specific properties
   vectorNetwork?: FigmaVectorNetwork;
   vectorPaths?: FigmaVectorPath[];
+  // REST API with geometry=paths
+  fillGeometry?: FigmaGeometryPath[];
+  strokeGeometry?: FigmaGeometryPath[];
   
   // Boolean operation specific properties
   booleanOperation?: 'UNION' | 'INTERSECT' | 'SUBTRACT' | 'EXCLUDE';
@@ -121,10 +140,17 @@ export interface FigmaComponent {
   containing_frame?: {
     name: string;
     node_id: string;
+    // Present in published library metadata for variants
+    containingComponentSet?: {
+      name: string;
+      nodeId: string;
+    };
   };
   node_type: string;
   componentSetId?: string;
   documentationLinks?: Array<{ uri: string }>;
+  // True in a file's components map when the component comes from a library
+  remote?: boolean;
 }
 
 export interface FigmaComponentSet {
@@ -173,6 +199,134 @@ export interface FigmaBranch {
   link_access: string;
 }
 
+export interface FigmaVersion {
+  id: string;
+  created_at: string;
+  label: string | null;
+  description: string | null;
+  user: FigmaUser;
+  thumbnail_url?: string;
+}
+
+export interface FigmaVersionsResponse {
+  versions: FigmaVersion[];
+  pagination?: {
+    prev_page?: string;
+    next_page?: string;
+  };
+}
+
+// Published library metadata (/teams/:id/..., /files/:key/components, ...)
+export interface FigmaLibraryCursor {
+  before?: number;
+  after?: number;
+}
+
+export interface FigmaLibraryResponse<T> {
+  error: boolean;
+  status: number;
+  meta: T;
+}
+
+export interface FigmaLibraryComponentsMeta {
+  components: FigmaComponent[];
+  cursor?: FigmaLibraryCursor;
+}
+
+export interface FigmaLibraryComponentSetsMeta {
+  component_sets: FigmaComponentSet[];
+  cursor?: FigmaLibraryCursor;
+}
+
+export interface FigmaLibraryStylesMeta {
+  styles: FigmaStyle[];
+  cursor?: FigmaLibraryCursor;
+}
+
+export interface FigmaLibrary {
+  components: FigmaComponent[];
+  componentSets: FigmaComponentSet[];
+  styles: FigmaStyle[];
+}
+
+// Variables (GET /files/:key/variables/local and /published)
+export type FigmaVariableResolvedType = 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export type FigmaVariableValue = boolean | number | string | FigmaColor | FigmaVariableAlias;
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: FigmaVariableResolvedType;
+  valuesByMode: Record<string, FigmaVariableValue>;
+  remote: boolean;
+  description: string;
+  hiddenFromPublishing: boolean;
+  scopes: string[];
+  codeSyntax?: Record<string, string>;
+}
+
+export interface FigmaVariableMode {
+  modeId: string;
+  name: string;
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: FigmaVariableMode[];
+  defaultModeId: string;
+  remote: boolean;
+  hiddenFromPublishing: boolean;
+  variableIds: string[];
+}
+
+export interface FigmaLocalVariablesMeta {
+  variables: Record<string, FigmaVariable>;
+  variableCollections: Record<string, FigmaVariableCollection>;
+}
+
+// Published variables carry no values, only identity for subscribing files
+export interface FigmaPublishedVariable {
+  id: string;
+  subscribed_id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedDataType: FigmaVariableResolvedType;
+  updatedAt: string;
+}
+
+export interface FigmaPublishedVariableCollection {
+  id: string;
+  subscribed_id: string;
+  name: string;
+  key: string;
+  updatedAt: string;
+}
+
+export interface FigmaPublishedVariablesMeta {
+  variables: Record<string, FigmaPublishedVariable>;
+  variableCollections: Record<string, FigmaPublishedVariableCollection>;
+}
+
+// GET /files/:key/images – imageRef (and gifRef) to downloadable URL
+export interface FigmaImageFillsResponse {
+  error: boolean;
+  status: number;
+  meta: {
+    images: Record<string, string>;
+  };
+}
+
 export interface FigmaExportSetting {
   suffix: string;
   format: 'JPG' | 'PNG' | 'SVG' | 'PDF';
@@ -289,6 +443,8 @@ export interface FigmaTypeStyle {
   lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
 }
 
+export type FigmaLineType = 'NONE' | 'ORDERED' | 'UNORDERED';
+
 export interface FigmaHyperlink {
   type: 'URL' | 'NODE';
   url?: string;
@@ -302,6 +458,20 @@ export interface FigmaComponentProperty {
   defaultValue?: any;
 }
 
+export interface FigmaComponentPropertyDefinition {
+  type: FigmaComponentProperty['type'];
+  defaultValue: string | boolean;
+  // Only for VARIANT properties
+  variantOptions?: string[];
+  preferredValues?: Array<{ type: 'COMPONENT' | 'COMPONENT_SET'; key: string }>;
+}
+
+export interface FigmaComponentPropertyReferences {
+  visible?: string;
+  characters?: string;
+  mainComponent?: string;
+}
+
 export interface FigmaOverride {
   id: string;
   overriddenFields: string[];
@@ -329,6 +499,10 @@ export interface FigmaVectorVertex {
 }
 
 export interface FigmaVectorEdge {
+  start: number;
+  end: number;
+  tangentStart: FigmaVector;
+  tangentEnd: FigmaVector;
   strokeCap?: string;
   strokeJoin?: string;
   strokeMiterLimit?: number;
@@ -346,9 +520,15 @@ export interface FigmaVectorPath {
   data: string;
 }
 
+export interface FigmaGeometryPath {
+  path: string;
+  windingRule: 'EVENODD' | 'NONZERO' | 'NONE';
+  overrideID?: number;
+}
+
 // Conversion and generation types
 export interface ConversionConfig {
-  framework: 'react' | 'vue' | 'angular' | 'svelte' | 'vanilla' | 'html';
+  framework: 'react' | 'react-native' | 'vue' | 'angular' | 'svelte' | 'vanilla' | 'html';
   cssFramework: 'tailwind' | 'styled-components' | 'emotion' | 'css-modules' | 'vanilla';
   typescript: boolean;
   responsive: boolean;
@@ -397,6 +577,27 @@ export interface FigmaFileResponse extends FigmaApiResponse {
   branches?: FigmaBranch[];
 }
 
+export interface FigmaFileNodesEntry {
+  document: FigmaNode;
+  components: Record<string, FigmaComponent>;
+  componentSets: Record<string, FigmaComponentSet>;
+  schemaVersion: number;
+  styles: Record<string, FigmaStyle>;
+}
+
+export interface FigmaFileNodesResponse {
+  name: string;
+  role: string;
+  lastModified: string;
+  editorType: string;
+  thumbnailUrl: string;
+  version: string;
+  nodes: Record<string, FigmaFileNodesEntry | null>;
+  error?: boolean;
+  status?: number;
+  err?: string;
+}
+
 // Legacy compatibility types  
 export interface GeneratedComponent extends GeneratedCode {
   // Legacy alias for GeneratedCode
@@ -418,6 +619,7 @@ export interface ComponentMetadata {
   generationTime?: number;
   dependencies?: string[];
   figmaNodeId?: string;
+  figmaBranchKey?: string;
   isBaseComponent?: boolean;
   variationType?: string;
   extendsComponent?: string;
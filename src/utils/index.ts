@@ -1,2 +1,4 @@
 // Barrel file for utilities
-export { LegacyCodeGenerator } from './legacy-code-generator';
\ No newline at end of file
+export { LegacyCodeGenerator } from './legacy-code-generator';
+export { createZipArchive } from './zip-archive';
+export type { ZipEntry } from './zip-archive';
@@ -1,12 +1,40 @@
 import { FigmaNode, GeneratedComponent, ComponentMetadata, AccessibilityReport, ResponsiveBreakpoints } from '../types/figma';
+import { AutoLayoutTranslator } from '../services/auto-layout-translator';
+import { RichTextRenderer } from '../services/rich-text-renderer';
+import { ComponentPropsResolver, ComponentPropDefinition } from '../services/component-props-resolver';
+import { PaintCssConverter } from '../services/paint-css-converter';
+import { LIBRARY_IMPORT_PATH, LibraryInstanceResolver } from '../services/library-instance-resolver';
 
 export class LegacyCodeGenerator {
+  private layoutTranslator = new AutoLayoutTranslator();
+  private richText = new RichTextRenderer();
+  private paintConverter = new PaintCssConverter();
+  private propsResolver = new ComponentPropsResolver();
+  // Figma component properties of the node passed to generateComponent
+  private rootId: string | null = null;
+  private activeProps: ComponentPropDefinition[] = [];
+  // Instances of the loaded library render as their canonical component, imported from the library module
+  private libraryInstances: LibraryInstanceResolver | null = null;
+  private usedLibraryComponents = new Set<string>();
+
+  setLibraryInstances(libraryInstances: LibraryInstanceResolver) {
+    this.libraryInstances = libraryInstances;
+  }
+
   generateComponent(node: FigmaNode, config: {
     framework: 'react' | 'vue' | 'html';
     styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
     typescript: boolean;
   }): GeneratedComponent {
     const startTime = Date.now();
+
+    // A component set becomes one component: variant axes, toggles, texts and slots as props
+    this.propsResolver = new ComponentPropsResolver(node);
+    this.rootId = node.id;
+    this.activeProps = node.type === 'COMPONENT' || node.type === 'COMPONENT_SET'
+      ? this.propsResolver.getDefinitions(node)
+      : [];
+    this.usedLibraryComponents.clear();
     
     const jsx = this.generateJSX(node, config);
     const css = this.generateCSS(node, config.styling);
@@ -30,25 +58,38 @@ export class LegacyCodeGenerator {
     };
   }
 
-  private generateJSX(node: FigmaNode, config: any): string {
+  private generateJSX(node: FigmaNode, config: any, parent?: FigmaNode): string {
     const componentName = this.sanitizeComponentName(node.name);
     const props = this.extractProps(node);
-    const children = this.generateChildren(node, config);
-    const className = this.generateClassName(node, config.styling);
+    const params = props.map(p => p.defaultValue !== undefined ? `${p.name} = ${p.defaultValue}` : p.name).join(', ');
 
     if (config.framework === 'react') {
-      return `import React from 'react';
+      // Component sets render the default variant, other variants return early
+      const variants = node.type === 'COMPONENT_SET' ? this.propsResolver.getVariants(node) : [];
+      const renderNode = variants.length > 0 ? variants[variants.length - 1].node : node;
+      const branches = variants.slice(0, -1).map(variant => `
+  if (${this.propsResolver.getVariantCondition(variant)}) {
+    return (
+${this.generateElement(variant.node, config, parent)}
+    );
+  }
+`).join('');
+      // Rendered before the header so the library imports are known
+      const element = this.generateElement(renderNode, config, parent);
+      const libraryImport = !parent && this.usedLibraryComponents.size > 0
+        ? `\nimport { ${[...this.usedLibraryComponents].sort().join(', ')} } from '${LIBRARY_IMPORT_PATH}';`
+        : '';
+
+      return `import React from 'react';${libraryImport}
 ${config.typescript ? `
 interface ${componentName}Props {
   ${props.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type};`).join('\n  ')}
 }
 
-export const ${componentName}: React.FC<${componentName}Props> = ({ ${props.map(p => p.name).join(', ')} }) => {` : `
-export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`}
+export const ${componentName}: React.FC<${componentName}Props> = ({ ${params} }) => {` : `
+export const ${componentName} = ({ ${params} }) => {`}${branches}
   return (
-    <${this.getHtmlTag(node)} className="${className}">
-      ${children}
-    </${this.getHtmlTag(node)}>
+${element}
   );
 };`;
     }
@@ -57,6 +98,13 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
     return `export const ${componentName} = () => <div>Default Component</div>`;
   }
 
+  private generateElement(node: FigmaNode, config: { styling: string }, parent?: FigmaNode): string {
+    const tag = this.getHtmlTag(node);
+    return `    <${tag} className="${this.generateClassName(node, config.styling, parent)}">
+      ${this.generateChildren(node, config)}
+    </${tag}>`;
+  }
+
   private generateCSS(node: FigmaNode, styling: string): string {
     const styles = this.extractStyles(node);
     
@@ -114,7 +162,7 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
 
   private analyzeResponsive(node: FigmaNode): ResponsiveBreakpoints {
     // Analyze layout properties to determine responsive behavior
-    const hasFlexLayout = node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL';
+    const hasFlexLayout = this.layoutTranslator.isAutoLayout(node);
     const hasConstraints = node.constraints?.horizontal !== 'LEFT' || node.constraints?.vertical !== 'TOP';
 
     return {
@@ -147,8 +195,19 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
       .replace(/^./, str => str.toUpperCase());
   }
 
-  private extractProps(node: FigmaNode): Array<{name: string, type: string, optional: boolean}> {
-    const props = [];
+  private extractProps(node: FigmaNode): Array<{name: string, type: string, optional: boolean, defaultValue?: string}> {
+    const props: Array<{name: string, type: string, optional: boolean, defaultValue?: string}> = [];
+
+    if (node.id === this.rootId) {
+      this.activeProps.forEach(definition => {
+        props.push({
+          name: definition.name,
+          type: definition.tsType,
+          optional: true,
+          defaultValue: this.propsResolver.getDefaultLiteral(definition),
+        });
+      });
+    }
     
     if (node.type === 'TEXT' && node.characters) {
       props.push({ name: 'text', type: 'string', optional: false });
@@ -165,33 +224,39 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
   }
 
   private generateChildren(node: FigmaNode, config: any): string {
+    // Text bound to a TEXT component property
+    const textProp = this.propsResolver.getReferencedProp(node, 'characters', this.activeProps);
+    if (node.type === 'TEXT' && textProp) {
+      return `{${textProp.name}}`;
+    }
+
+    // Mixed-style runs, links and lists of a text node as markup
+    if (this.richText.isRich(node)) {
+      return this.richText.render(node, { jsx: true, indent: '      ' }).trimStart();
+    }
+
     if (!node.children) return '';
     
     return node.children
-      .map(child => this.generateJSX(child, config))
+      .map(child => {
+        const usage = this.libraryInstances?.render(child, 'jsx');
+        if (!usage) return this.generateJSX(child, config, node);
+        this.usedLibraryComponents.add(usage.name);
+        return usage.markup;
+      })
       .join('\n      ');
   }
 
-  private generateClassName(node: FigmaNode, styling: string): string {
+  private generateClassName(node: FigmaNode, styling: string, parent?: FigmaNode): string {
     if (styling === 'tailwind') {
-      return this.generateTailwindClasses(node);
+      return this.generateTailwindClasses(node, parent);
     }
     return `${node.name.toLowerCase().replace(/\s+/g, '-')}`;
   }
 
-  private generateTailwindClasses(node: FigmaNode): string {
-    const classes = [];
-    
-    // Layout classes
-    if (node.layoutMode === 'HORIZONTAL') classes.push('flex', 'flex-row');
-    if (node.layoutMode === 'VERTICAL') classes.push('flex', 'flex-col');
-    
-    // Spacing
-    if (node.itemSpacing) classes.push(`gap-${Math.round(node.itemSpacing / 4)}`);
-    if (node.paddingLeft) classes.push(`pl-${Math.round(node.paddingLeft / 4)}`);
-    if (node.paddingRight) classes.push(`pr-${Math.round(node.paddingRight / 4)}`);
-    if (node.paddingTop) classes.push(`pt-${Math.round(node.paddingTop / 4)}`);
-    if (node.paddingBottom) classes.push(`pb-${Math.round(node.paddingBottom / 4)}`);
+  private generateTailwindClasses(node: FigmaNode, parent?: FigmaNode): string {
+    // Layout, sizing and spacing classes from the shared auto-layout translator
+    const classes = this.layoutTranslator.getTailwindClasses(node, parent);
     
     // Border radius
     if (node.cornerRadius) {
@@ -199,30 +264,48 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
       classes.push(`rounded-${radius <= 3 ? radius === 1 ? 'sm' : radius === 2 ? '' : 'md' : 'lg'}`);
     }
     
-    // Background color
-    if (node.backgroundColor) {
-      classes.push(this.colorToTailwind(node.backgroundColor));
-    }
+    // Fills (solid colors, gradients, stacked layers) and blend modes
+    classes.push(...this.paintStylesToTailwind(this.extractPaintStyles(node)));
     
     return classes.join(' ');
   }
 
-  private colorToTailwind(color: any): string {
-    // Simplified color conversion - in production, this would be more sophisticated
-    const { r, g, b } = color;
-    
-    if (r > 0.9 && g > 0.9 && b > 0.9) return 'bg-white';
-    if (r < 0.1 && g < 0.1 && b < 0.1) return 'bg-black';
-    if (r > 0.8 && g < 0.3 && b < 0.3) return 'bg-red-500';
-    if (r < 0.3 && g > 0.8 && b < 0.3) return 'bg-green-500';
-    if (r < 0.3 && g < 0.3 && b > 0.8) return 'bg-blue-500';
-    
-    return 'bg-gray-500';
+  // Colors become arbitrary bg-/text- values, the remaining paint properties arbitrary properties
+  private paintStylesToTailwind(styles: Record<string, any>): string[] {
+    const classes: string[] = [];
+    const arbitrary = (value: string) => String(value).replace(/\s+/g, '_');
+
+    Object.entries(styles).forEach(([property, value]) => {
+      switch (property) {
+        case 'backgroundColor':
+          classes.push(`bg-[${arbitrary(value)}]`);
+          break;
+        case 'color':
+          if (styles.backgroundClip !== 'text') classes.push(`text-[${arbitrary(value)}]`);
+          break;
+        case 'mixBlendMode':
+          classes.push(`mix-blend-${value}`);
+          break;
+        case 'backgroundClip':
+          classes.push('bg-clip-text', 'text-transparent');
+          break;
+        case 'backgroundImage':
+        case 'backgroundSize':
+        case 'backgroundPosition':
+        case 'backgroundRepeat':
+        case 'backgroundBlendMode':
+        case 'filter':
+          classes.push(`[${property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}:${arbitrary(value)}]`);
+          break;
+      }
+    });
+
+    return classes;
   }
 
   private getHtmlTag(node: FigmaNode): string {
     switch (node.type) {
-      case 'TEXT': return 'span';
+      case 'TEXT': return this.richText.hasList(node) ? 'div' : 'span';
       case 'FRAME': return 'div';
       case 'RECTANGLE': return node.fills?.some(f => f.type === 'IMAGE') ? 'img' : 'div';
       default: return 'div';
@@ -230,35 +313,40 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
   }
 
   private extractStyles(node: FigmaNode): Record<string, any> {
-    const styles: Record<string, any> = {};
+    const styles: Record<string, any> = {
+      ...this.layoutTranslator.getStyles(node),
+      ...this.extractPaintStyles(node),
+    };
     
-    if (node.absoluteBoundingBox) {
-      styles.width = `${node.absoluteBoundingBox.width}px`;
-      styles.height = `${node.absoluteBoundingBox.height}px`;
+    if (node.cornerRadius) {
+      styles.borderRadius = `${node.cornerRadius}px`;
     }
     
-    if (node.backgroundColor) {
+    return styles;
+  }
+
+  // Fills through the shared paint converter; node.backgroundColor only when there are no fills
+  private extractPaintStyles(node: FigmaNode): Record<string, string> {
+    const styles: Record<string, string> = {};
+
+    if (node.fills && node.fills.length > 0) {
+      Object.assign(styles, this.paintConverter.getFillStyles(node, this.getHtmlTag(node) === 'img'));
+    } else if (node.backgroundColor) {
       const { r, g, b, a } = node.backgroundColor;
       styles.backgroundColor = `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a})`;
     }
-    
-    if (node.cornerRadius) {
-      styles.borderRadius = `${node.cornerRadius}px`;
-    }
-    
+    Object.assign(styles, this.paintConverter.getBlendStyles(node));
+
     return styles;
   }
 
   private convertToTailwind(styles: Record<string, any>): string {
     // Convert CSS styles to Tailwind classes
-    const classes = [];
+    const classes = this.paintStylesToTailwind(styles);
     
     Object.entries(styles).forEach(([property, value]) => {
       // This would be a comprehensive mapping in production
       switch (property) {
-        case 'backgroundColor':
-          classes.push('bg-gray-500'); // Simplified
-          break;
         case 'borderRadius':
           classes.push('rounded');
           break;
@@ -270,7 +358,7 @@ export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} }) => {`
 
   private convertToCSS(styles: Record<string, any>, styling: string): string {
     const cssRules = Object.entries(styles)
-      .map(([property, value]) => `  ${property}: ${value};`)
+      .map(([property, value]) => `  ${property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}: ${value};`)
       .join('\n');
     
     return `.component {\n${cssRules}\n}`;
@@ -1,48 +1,273 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Only these Figma endpoints can be reached through the proxy
+const ALLOWED_ENDPOINTS: Array<{ method: string; pattern: RegExp }> = [
+  { method: 'GET', pattern: /^\/me$/ },
+  { method: 'GET', pattern: /^\/files\/[A-Za-z0-9]+$/ },
+  { method: 'GET', pattern: /^\/files\/[A-Za-z0-9]+\/nodes$/ },
+  { method: 'GET', pattern: /^\/files\/[A-Za-z0-9]+\/versions$/ },
+  { method: 'GET', pattern: /^\/files\/[A-Za-z0-9]+\/images$/ },
+  { method: 'GET', pattern: /^\/files\/[A-Za-z0-9]+\/(components|component_sets|styles)$/ },
+  { method: 'GET', pattern: /^\/files\/[A-Za-z0-9]+\/variables\/(local|published)$/ },
+  { method: 'GET', pattern: /^\/images\/[A-Za-z0-9]+$/ },
+  { method: 'GET', pattern: /^\/teams\/[0-9]+\/(components|component_sets|styles)$/ },
+  { method: 'GET', pattern: /^\/(components|component_sets|styles)\/[A-Za-z0-9]+$/ },
+];
+
+// Rendered images live on Figma's S3 buckets behind signed URLs
+const IMAGE_PROXY_PATH = '/image-proxy';
+const ALLOWED_IMAGE_HOSTS = [
+  /^figma-alpha-api\.s3\.[a-z0-9-]+\.amazonaws\.com$/,
+  /^s3-alpha(-sig)?\.figma\.com$/,
+  /^[a-z0-9-]+\.figma\.com$/,
+];
+const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml', 'image/gif', 'application/pdf'];
+
+// Comma separated list, e.g. "https://app.example.com,http://localhost:8080". Empty means any origin.
+const allowedOrigins = (Deno.env.get('FIGMA_PROXY_ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// When enabled, a signed-in user's own Figma token (user_metadata.figma_token) is used instead of the shared one
+const userTokensEnabled = Deno.env.get('FIGMA_PROXY_USER_TOKENS') === 'true';
+
+// Unversioned responses are served from cache for this long before revalidating with Figma
+const cacheTtlMs = Number(Deno.env.get('FIGMA_PROXY_CACHE_TTL_SECONDS') || '60') * 1000;
+const MAX_CACHE_ENTRIES = 100;
+// Whole-file responses can be tens of megabytes, so the cache is also bounded by its total body size
+const MAX_CACHE_BYTES = Number(Deno.env.get('FIGMA_PROXY_CACHE_MAX_MB') || '64') * 1024 * 1024;
+// Bodies above this are proxied but never cached, one of them would evict everything else
+const MAX_CACHEABLE_BODY_BYTES = MAX_CACHE_BYTES / 4;
+
+interface CacheEntry {
+  body: string;
+  status: number;
+  etag: string;
+  upstreamEtag: string | null;
+  lastModified: string | null;
+  storedAt: number;
+}
+
+// Lives as long as the function instance, which is enough to absorb repeated fetches of the same file
+const responseCache = new Map<string, CacheEntry>();
+let responseCacheBytes = 0;
+
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  let allowOrigin = '*';
+
+  if (allowedOrigins.length > 0) {
+    allowOrigin = origin && allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  }
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match',
+    'Access-Control-Expose-Headers': 'retry-after, etag, x-proxy-cache',
+    'Vary': 'Origin',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+function isAllowedEndpoint(method: string, path: string): boolean {
+  return ALLOWED_ENDPOINTS.some(endpoint => endpoint.method === method && endpoint.pattern.test(path));
+}
+
+// Resolves which Figma token to use and an identity for cache partitioning
+async function resolveFigmaToken(req: Request): Promise<{ token: string; cacheScope: string } | null> {
+  if (userTokensEnabled) {
+    const authHeader = req.headers.get('Authorization');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (authHeader && supabaseUrl && supabaseAnonKey) {
+      const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data, error } = await supabase.auth.getUser();
+      const userToken = data?.user?.user_metadata?.figma_token;
+
+      if (!error && typeof userToken === 'string' && userToken) {
+        return { token: userToken, cacheScope: `user:${data.user.id}` };
+      }
+    }
+  }
+
+  const sharedToken = Deno.env.get('FIGMA_API_TOKEN');
+  return sharedToken ? { token: sharedToken, cacheScope: 'shared' } : null;
+}
+
+// Weak ETag for the client, derived from the body so browsers can revalidate cheaply
+async function computeEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `W/"${hex}"`;
+}
+
+// Streams image bytes through untouched, the signed URL carries its own authorization
+async function proxyImage(url: URL, corsHeaders: Record<string, string>): Promise<Response> {
+  const target = url.searchParams.get('url');
+  let imageUrl: URL;
+  try {
+    imageUrl = new URL(target || '');
+  } catch {
+    return jsonResponse({ error: 'Missing or invalid image url' }, 400, corsHeaders);
+  }
+
+  if (imageUrl.protocol !== 'https:' || !ALLOWED_IMAGE_HOSTS.some(host => host.test(imageUrl.hostname))) {
+    console.warn(`Blocked image host: ${imageUrl.hostname}`);
+    return jsonResponse({ error: 'Image host not allowed', host: imageUrl.hostname }, 403, corsHeaders);
+  }
+
+  const imageResponse = await fetch(imageUrl.toString());
+  if (!imageResponse.ok || !imageResponse.body) {
+    return jsonResponse({ error: 'Image download failed', status: imageResponse.status }, imageResponse.status || 502, corsHeaders);
+  }
+
+  const contentType = (imageResponse.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+  if (!ALLOWED_IMAGE_TYPES.includes(contentType)) {
+    await imageResponse.body.cancel();
+    return jsonResponse({ error: 'Unsupported content type', contentType }, 415, corsHeaders);
+  }
+
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Content-Type': contentType,
+    // Signed URLs are unique per render, the bytes behind them never change
+    'Cache-Control': 'private, max-age=86400, immutable',
+  };
+  const contentLength = imageResponse.headers.get('Content-Length');
+  if (contentLength) {
+    headers['Content-Length'] = contentLength;
+  }
+
+  return new Response(imageResponse.body, { status: 200, headers });
+}
+
+// Body size in bytes; the bodies are JSON text, mostly ASCII, so the string length is a close estimate
+function entrySize(entry: CacheEntry): number {
+  return entry.body.length;
+}
+
+function removeFromCache(key: string): void {
+  const existing = responseCache.get(key);
+  if (!existing) return;
+  responseCacheBytes -= entrySize(existing);
+  responseCache.delete(key);
+}
+
+function storeInCache(key: string, entry: CacheEntry): void {
+  removeFromCache(key);
+  if (entrySize(entry) > MAX_CACHEABLE_BODY_BYTES) return;
+
+  responseCache.set(key, entry);
+  responseCacheBytes += entrySize(entry);
+
+  // Map keeps insertion order, so the first key is the least recently stored
+  while (responseCache.size > MAX_CACHE_ENTRIES || responseCacheBytes > MAX_CACHE_BYTES) {
+    const oldestKey = responseCache.keys().next().value;
+    if (oldestKey === undefined) break;
+    removeFromCache(oldestKey);
+  }
+}
+
+function cachedResponse(req: Request, entry: CacheEntry, cacheStatus: string, corsHeaders: Record<string, string>): Response {
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'ETag': entry.etag,
+    'Cache-Control': 'private, no-cache',
+    'X-Proxy-Cache': cacheStatus,
+  };
+  if (entry.lastModified) {
+    headers['Last-Modified'] = entry.lastModified;
+  }
+
+  if (req.headers.get('If-None-Match') === entry.etag) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(entry.body, {
+    status: entry.status,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
 }
 
 serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const origin = req.headers.get('Origin');
+  if (allowedOrigins.length > 0 && origin && !allowedOrigins.includes(origin)) {
+    return jsonResponse({ error: 'Origin not allowed' }, 403, corsHeaders);
+  }
+
   try {
     const url = new URL(req.url);
     const path = url.pathname.replace('/functions/v1/figma-proxy', '');
-    
-    // Get Figma API token from Supabase secrets
-    const figmaToken = Deno.env.get('FIGMA_API_TOKEN');
-    if (!figmaToken) {
+
+    if (req.method === 'GET' && path === IMAGE_PROXY_PATH) {
+      return await proxyImage(url, corsHeaders);
+    }
+
+    if (!isAllowedEndpoint(req.method, path)) {
+      console.warn(`Blocked request: ${req.method} ${path}`);
+      return jsonResponse({ error: 'Endpoint not allowed', method: req.method, path }, 403, corsHeaders);
+    }
+
+    const figmaAuth = await resolveFigmaToken(req);
+    if (!figmaAuth) {
       console.error('FIGMA_API_TOKEN not configured');
-      return new Response(
-        JSON.stringify({ error: 'Figma API token not configured' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+      return jsonResponse({ error: 'Figma API token not configured' }, 500, corsHeaders);
+    }
+
+    const cacheKey = `${figmaAuth.cacheScope} ${path}${url.search}`;
+    const cached = responseCache.get(cacheKey);
+
+    // A specific version of a file never changes, other responses are fresh for the TTL
+    const isImmutable = url.searchParams.has('version');
+    if (cached && (isImmutable || Date.now() - cached.storedAt < cacheTtlMs)) {
+      return cachedResponse(req, cached, 'HIT', corsHeaders);
     }
 
     // Construct Figma API URL
     const figmaApiUrl = `https://api.figma.com/v1${path}${url.search}`;
     console.log(`Proxying request to: ${figmaApiUrl}`);
 
+    const upstreamHeaders: Record<string, string> = {
+      'X-Figma-Token': figmaAuth.token,
+      'Content-Type': 'application/json',
+    };
+    if (cached?.upstreamEtag) {
+      upstreamHeaders['If-None-Match'] = cached.upstreamEtag;
+    }
+
     // Make request to Figma API
     const figmaResponse = await fetch(figmaApiUrl, {
       method: req.method,
-      headers: {
-        'X-Figma-Token': figmaToken,
-        'Content-Type': 'application/json',
-      },
+      headers: upstreamHeaders,
     });
 
+    if (figmaResponse.status === 304 && cached) {
+      const refreshed = { ...cached, storedAt: Date.now() };
+      storeInCache(cacheKey, refreshed);
+      return cachedResponse(req, refreshed, 'REVALIDATED', corsHeaders);
+    }
+
     const responseData = await figmaResponse.text();
-    
+
     // Log response for debugging
     console.log(`Figma API response status: ${figmaResponse.status}`);
     if (!figmaResponse.ok) {
@@ -56,38 +281,50 @@ serve(async (req) => {
     } catch (parseError) {
       console.error('Failed to parse Figma API response as JSON:', parseError);
       console.error('Response data:', responseData.substring(0, 500));
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid JSON response from Figma API', 
-          details: 'The Figma API returned HTML instead of JSON. Check your API token and file permissions.',
-          status: figmaResponse.status
-        }),
-        { 
-          status: 502, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+      return jsonResponse({
+        error: 'Invalid JSON response from Figma API',
+        details: 'The Figma API returned HTML instead of JSON. Check your API token and file permissions.',
+        status: figmaResponse.status
+      }, 502, corsHeaders);
     }
 
+    if (figmaResponse.ok) {
+      const body = JSON.stringify(jsonData);
+      const entry: CacheEntry = {
+        body,
+        status: figmaResponse.status,
+        etag: await computeEtag(body),
+        upstreamEtag: figmaResponse.headers.get('ETag'),
+        lastModified: typeof jsonData?.lastModified === 'string' ? jsonData.lastModified : null,
+        storedAt: Date.now(),
+      };
+
+      // An unchanged lastModified means the file content is the same, keep the existing ETag
+      if (cached && entry.lastModified && cached.lastModified === entry.lastModified) {
+        entry.etag = cached.etag;
+      }
+
+      storeInCache(cacheKey, entry);
+      return cachedResponse(req, entry, 'MISS', corsHeaders);
+    }
+
+    // Pass Retry-After through so the client scheduler can back off on 429
+    const retryAfter = figmaResponse.headers.get('Retry-After');
+
     return new Response(JSON.stringify(jsonData), {
       status: figmaResponse.status,
       headers: {
         ...corsHeaders,
         'Content-Type': 'application/json',
+        ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
       },
     });
 
   } catch (error) {
     console.error('Proxy error:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: 'Proxy request failed', 
-        details: error instanceof Error ? error.message : 'Unknown error' 
-      }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    return jsonResponse({
+      error: 'Proxy request failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500, corsHeaders);
   }
-});
\ No newline at end of file
+});